@@ -0,0 +1,176 @@
+import { randomUUID } from 'node:crypto';
+import type { Task, InnerMessage } from '../types/task.js';
+import type { Part } from '../types/part.js';
+import type { MessageSendRequest, MessageSendResponse } from '../types/payloads.js';
+import type { ConversationContext, ConversationHandler, HandlerContext, MethodHandler } from '../types/handler.js';
+import type { TaskManager } from './TaskManager.js';
+
+export interface ConversationOptions {
+  /**
+   * How long a conversation may wait in `ask()` before its flow is dropped from memory,
+   * in milliseconds. The pending `ask()` then rejects; the task stays `input_required`.
+   * Default: 3_600_000 (1 hour). Set to 0 to wait forever.
+   */
+  idleTimeout?: number;
+}
+
+/**
+ * Runs a conversation handler for message/send inside `TaskManager.run()`.
+ *
+ * `context.ask(prompt)` stores the prompt as an agent turn and the task as
+ * `input_required`, then answers the pending request. The next message/send carrying
+ * the task's ID (which `run()` has already moved back to `working` and appended to the
+ * history) resumes the same flow with that user turn. Flows live in memory: when none is
+ * live for a continued task (after a restart or `idleTimeout`), the handler starts over
+ * with the continuation as `payload` and the whole conversation in `context.task.history`.
+ *
+ * ```ts
+ * agent.converse(async (payload, ctx) => {
+ *   const reply = await ctx.ask('Which city?');
+ *   const artifact = await forecast(reply.parts);
+ *   return { task: { ...ctx.task, artifacts: [artifact], status: { state: 'completed', timestamp: new Date().toISOString() } } };
+ * });
+ * ```
+ */
+export class Conversations {
+  private readonly flows = new Map<string, Flow>();
+
+  constructor(
+    private readonly manager: TaskManager,
+    private readonly handler: ConversationHandler,
+    private readonly options: ConversationOptions = {},
+  ) {}
+
+  /** The message/send handler; register it on an agent that has this TaskManager. */
+  readonly handle: MethodHandler<'message/send'> = async (payload, context) => {
+    const task = context.task;
+    if (!task) throw new Error('Conversations must run inside TaskManager.run()');
+
+    const live = this.flows.get(task.id);
+    const stop = live ? live.deliver(payload.message) : this.start(payload, { ...context, task });
+    const response = await stop;
+    if (response === undefined) return { task: await this.manager.get(task.id) };
+    if (response.task) return response;
+
+    const current = await this.manager.get(task.id);
+    return { ...response, task: { ...current, status: { state: 'completed', timestamp: new Date().toISOString() } } };
+  };
+
+  /** Number of conversations currently waiting for input or running. */
+  get size(): number {
+    return this.flows.size;
+  }
+
+  private start(payload: MessageSendRequest, context: TaskContext): Promise<Stop> {
+    const taskId = context.task.id;
+    const flow = new Flow(taskId, this.manager, this.options.idleTimeout ?? 3_600_000, () => {
+      if (this.flows.get(taskId) === flow) this.flows.delete(taskId);
+    });
+    this.flows.set(taskId, flow);
+    return flow.run(this.handler, payload, context);
+  }
+}
+
+type TaskContext = HandlerContext & { task: Task };
+
+/** Where a flow paused: undefined while it waits for input, or the handler's final response. */
+type Stop = MessageSendResponse | undefined;
+
+/** One running conversation: an inbox of user turns and the handler awaiting them. */
+class Flow {
+  private readonly inbox: InnerMessage[] = [];
+  private waiting?: { resolve(message: InnerMessage): void; reject(err: Error): void; timer?: ReturnType<typeof setTimeout> };
+  private stop = defer<Stop>();
+  private detached = false;
+
+  constructor(
+    private readonly taskId: string,
+    private readonly manager: TaskManager,
+    private readonly idleTimeout: number,
+    private readonly onEnd: () => void,
+  ) {}
+
+  run(handler: ConversationHandler, payload: MessageSendRequest, context: TaskContext): Promise<Stop> {
+    const stop = this.stop.promise;
+    const conversation: ConversationContext = { ...context, ask: (prompt) => this.ask(prompt) };
+    Promise.resolve()
+      .then(() => handler(payload, conversation))
+      .then(
+        (response) => this.end(() => this.stop.resolve(response ?? {})),
+        (err: unknown) => this.end(() => this.stop.reject(err)),
+      );
+    return stop;
+  }
+
+  /** Hand a user turn to the flow; resolves at its next pause. */
+  deliver(message: InnerMessage): Promise<Stop> {
+    const stop = this.stop.promise;
+    const waiting = this.waiting;
+    if (waiting) {
+      this.waiting = undefined;
+      clearTimeout(waiting.timer);
+      waiting.resolve(message);
+    } else {
+      // Arrived while the flow is still working on the previous turn
+      this.inbox.push(message);
+    }
+    return stop;
+  }
+
+  private async ask(prompt: string | Part[]): Promise<InnerMessage> {
+    if (this.detached) throw new Error(`Conversation for task ${this.taskId} is no longer active`);
+
+    await this.manager.appendMessage(this.taskId, {
+      messageId: randomUUID(),
+      role: 'agent',
+      parts: typeof prompt === 'string' ? [{ text: prompt }] : prompt,
+    });
+    const queued = this.inbox.shift();
+    if (queued) return queued;
+
+    await this.manager.updateStatus(this.taskId, 'input_required', typeof prompt === 'string' ? prompt.slice(0, 1024) : undefined);
+    return new Promise<InnerMessage>((resolve, reject) => {
+      const timer = this.idleTimeout > 0 ? setTimeout(() => this.expire(), this.idleTimeout) : undefined;
+      timer?.unref?.();
+      this.waiting = { resolve, reject, timer };
+
+      const paused = this.stop;
+      this.stop = defer<Stop>();
+      paused.resolve(undefined);
+    });
+  }
+
+  /** Drop the flow after `idleTimeout`; the task is left `input_required` for a fresh start. */
+  private expire(): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    this.detached = true;
+    this.onEnd();
+    waiting?.reject(new Error(`Conversation for task ${this.taskId} timed out waiting for input`));
+  }
+
+  private end(settle: () => void): void {
+    clearTimeout(this.waiting?.timer);
+    this.onEnd();
+    // A detached flow has no request waiting on it
+    if (!this.detached) settle();
+  }
+}
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve(value: T): void;
+  reject(err: unknown): void;
+}
+
+function defer<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Settled without a listener only for detached flows
+  promise.catch(() => {});
+  return { promise, resolve, reject };
+}
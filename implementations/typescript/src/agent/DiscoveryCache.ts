@@ -0,0 +1,60 @@
+import type { AgentCard } from '../types/agent-card.js';
+
+/** A cached peer: its card and, when discovered over Nostr, the internal Nostr pubkey. */
+export interface DiscoveredAgent {
+  card: AgentCard;
+  /** Internal (untweaked) Nostr pubkey hex; needed for NIP-44 encryption to this peer. */
+  nostrPubkey?: string;
+  /** When the entry was stored (ms since epoch). */
+  cachedAt: number;
+}
+
+/**
+ * Agent cards keyed by P2TR identity, so peers can be addressed by address alone.
+ * Entries expire after `ttl` ms (default: 1 hour; 0 disables expiry).
+ */
+export class DiscoveryCache {
+  private readonly entries = new Map<string, DiscoveredAgent>();
+  private readonly ttl: number;
+
+  constructor(ttl = 3_600_000) {
+    this.ttl = ttl;
+  }
+
+  /** Store or refresh a card. Keeps a previously cached Nostr pubkey unless a new one is given. */
+  set(card: AgentCard, nostrPubkey?: string): void {
+    const pubkey = nostrPubkey ?? this.entries.get(card.identity)?.nostrPubkey;
+    this.entries.set(card.identity, {
+      card,
+      ...(pubkey ? { nostrPubkey: pubkey } : {}),
+      cachedAt: Date.now(),
+    });
+  }
+
+  /** The cached entry for an identity, or undefined if missing or expired. */
+  get(identity: string): DiscoveredAgent | undefined {
+    const entry = this.entries.get(identity);
+    if (!entry) return undefined;
+
+    if (this.ttl > 0 && Date.now() - entry.cachedAt > this.ttl) {
+      this.entries.delete(identity);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  delete(identity: string): void {
+    this.entries.delete(identity);
+  }
+
+  /** Returns the number of entries currently cached (including expired ones not yet read). */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Remove all entries. */
+  clear(): void {
+    this.entries.clear();
+  }
+}
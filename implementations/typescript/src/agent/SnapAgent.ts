@@ -1,18 +1,28 @@
 import { randomUUID } from 'node:crypto';
 import type { P2TRAddress, PrivateKeyHex, Network } from '../types/keys.js';
 import type { SnapMessage, MethodName, MessageType, UnsignedMessage } from '../types/message.js';
-import type { TransportPlugin, TransportSendOptions, ReplayStore, TaskStore, Middleware, MiddlewareContext, NextFn } from '../types/plugin.js';
+import type { TransportPlugin, TransportSendOptions, ReplayStore, ResponseStore, TaskStore, Middleware, MiddlewareContext, NextFn, InboundInfo } from '../types/plugin.js';
 import type { StreamTransportPlugin } from '../types/transport.js';
 import type { AgentCard } from '../types/agent-card.js';
-import type { MethodPayloadMap, HandlerContext, MethodHandler, StreamMethodHandler } from '../types/handler.js';
-import type { MessageSendResponse, TasksGetResponse, TasksCancelResponse } from '../types/payloads.js';
+import type { MethodPayloadMap, MethodMap, MethodRequest, MethodResponse, HandlerContext, MethodHandler, StreamMethodHandler, ConversationHandler } from '../types/handler.js';
+import type { MessageSendRequest, MessageSendResponse, TasksGetRequest, TasksGetResponse, TasksCancelRequest, TasksCancelResponse, TasksListRequest, TasksListResponse, ServiceCallRequest, ServiceCallResponse } from '../types/payloads.js';
 import type { InnerMessage } from '../types/task.js';
 import { MessageBuilder } from '../messaging/MessageBuilder.js';
 import { MessageSigner } from '../messaging/MessageSigner.js';
-import { MessageValidator } from '../messaging/MessageValidator.js';
+import { MessageValidator, type ResponseSignatureLevel } from '../messaging/MessageValidator.js';
+import { ProtocolVersion, SUPPORTED_VERSIONS } from '../messaging/ProtocolVersion.js';
+import type { SizeLimits } from '../messaging/SizeLimits.js';
+import { PayloadValidator, type PayloadSchema } from '../messaging/PayloadValidator.js';
 import { SnapError } from '../errors/SnapError.js';
 import { KeyManager } from '../crypto/KeyManager.js';
 import { HttpTransport } from '../transport/HttpTransport.js';
+import { TransportRouter, type TransportRouterConfig } from '../transport/TransportRouter.js';
+import type { NostrTransport } from '../transport/NostrTransport.js';
+import { ValidatingTaskStore } from '../stores/ValidatingTaskStore.js';
+import { ScopedTaskStore } from '../stores/ScopedTaskStore.js';
+import { TaskManager } from './TaskManager.js';
+import { Conversations, type ConversationOptions } from './Conversations.js';
+import { DiscoveryCache } from './DiscoveryCache.js';
 
 export interface SnapAgentConfig {
   privateKey: PrivateKeyHex;
@@ -20,42 +30,83 @@ export interface SnapAgentConfig {
   network?: Network;
 }
 
-/** Unified agent peer — sends, receives, and streams SNAP messages. */
-export class SnapAgent {
+/**
+ * Unified agent peer — sends, receives, and streams SNAP messages.
+ * `Custom` declares payload types for custom methods (see `MethodMap`).
+ */
+export class SnapAgent<Custom extends MethodMap<Custom> = {}> {
   readonly address: P2TRAddress;
   readonly card: AgentCard;
 
   private readonly signer: MessageSigner;
   private readonly privateKey: PrivateKeyHex;
   private readonly transports: TransportPlugin[] = [];
+  private router = new TransportRouter(this.transports, { resign: (message) => this.resign(message) });
   private readonly middlewares: Middleware[] = [];
-  private readonly handlers = new Map<string, MethodHandler<any>>();
-  private readonly streamHandlers = new Map<string, StreamMethodHandler<any>>();
+  private readonly handlers = new Map<string, MethodHandler<any, any>>();
+  private readonly streamHandlers = new Map<string, StreamMethodHandler<any, any>>();
   private _replayStore?: ReplayStore;
-  private _taskStore?: TaskStore;
+  private _responseStore?: ResponseStore;
+  /** In-flight handler results keyed by `${from}:key:${idempotencyKey}`. */
+  private readonly inflight = new Map<string, Promise<Record<string, unknown>>>();
+  private _taskStore?: ValidatingTaskStore;
+  private _taskManager?: TaskManager;
+  private _responseSignatures: ResponseSignatureLevel = 'optional';
+  private _discovery = new DiscoveryCache();
+  private _limits?: Partial<SizeLimits>;
+  private readonly payloads = new PayloadValidator();
+  /** Protocol versions we accept, and the one we use when a peer's versions are unknown. */
+  private readonly versions: readonly string[];
+  private readonly preferredVersion: string;
 
   constructor(config: SnapAgentConfig) {
     this.privateKey = config.privateKey;
     this.signer = new MessageSigner(config.privateKey);
     this.address = this.signer.getAddress(config.network ?? 'mainnet');
     this.card = { ...config.card, identity: this.address };
+    this.versions = config.card.supportedVersions?.length ? config.card.supportedVersions : SUPPORTED_VERSIONS;
+    this.preferredVersion = config.card.protocolVersion
+      ?? [...this.versions].sort((a, b) => ProtocolVersion.compare(b, a))[0];
   }
 
-  /** Register a request-response handler for a method. */
-  handle<M extends keyof MethodPayloadMap>(
+  /**
+   * Register a request-response handler for a method.
+   * An optional schema validates request payloads before the handler runs (see `payloadSchema()`).
+   */
+  handle<M extends keyof Methods<Custom> & string>(
     method: M,
-    handler: MethodHandler<M>,
+    handler: MethodHandler<M, Methods<Custom>>,
+    schema?: PayloadSchema,
   ): this {
     this.handlers.set(method, handler);
+    if (schema) this.payloads.register(method, schema);
     return this;
   }
 
-  /** Register a streaming handler for a method. */
-  handleStream<M extends keyof MethodPayloadMap>(
+  /**
+   * Register a streaming handler for a method, with an optional request schema like `handle()`.
+   * Events the handler signs itself must set `payload.inReplyTo` to the request id; the
+   * WebSocket transport drops frames that do not say which request they answer.
+   */
+  handleStream<M extends keyof Methods<Custom> & string>(
     method: M,
-    handler: StreamMethodHandler<M>,
+    handler: StreamMethodHandler<M, Methods<Custom>>,
+    schema?: PayloadSchema,
   ): this {
     this.streamHandlers.set(method, handler);
+    if (schema) this.payloads.register(method, schema);
+    return this;
+  }
+
+  /**
+   * Handle message/send as a multi-turn conversation: the handler can `await context.ask(prompt)`
+   * to pause the task in `input_required` until the requester continues it (see `Conversations`).
+   * Uses the agent's TaskManager, creating a default one if none is set, so call
+   * `taskManager()` first to use another store.
+   */
+  converse(handler: ConversationHandler, options?: ConversationOptions): this {
+    if (!this._taskManager) this.taskManager(new TaskManager());
+    this.handlers.set('message/send', new Conversations(this._taskManager!, handler, options).handle);
     return this;
   }
 
@@ -65,6 +116,40 @@ export class SnapAgent {
     return this;
   }
 
+  /**
+   * Configure retry policy and Nostr timeout for sends addressed to an AgentCard.
+   * Retries and fallbacks are re-signed with this agent's key unless `config.resign` is set.
+   */
+  routing(config: TransportRouterConfig): this {
+    this.router = new TransportRouter(this.transports, { resign: (message) => this.resign(message), ...config });
+    return this;
+  }
+
+  /**
+   * Override the message size limits checked on inbound messages (docs/constraints.md).
+   * Transports enforce their own `limits` config before parsing.
+   */
+  limits(limits: Partial<SizeLimits>): this {
+    this._limits = limits;
+    return this;
+  }
+
+  /**
+   * Register the request payload schema for a method, checked before its handler runs.
+   * Built-in methods (`MethodPayloadMap`) are validated against `schemas/` by default;
+   * registering one of them replaces the built-in schema.
+   */
+  payloadSchema(method: string, schema: PayloadSchema): this {
+    this.payloads.register(method, schema);
+    return this;
+  }
+
+  /** Set the cache used to resolve peers given by P2TR address. */
+  discoveryCache(cache: DiscoveryCache): this {
+    this._discovery = cache;
+    return this;
+  }
+
   /** Add a middleware. */
   use(middleware: Middleware): this {
     this.middlewares.push(middleware);
@@ -77,9 +162,39 @@ export class SnapAgent {
     return this;
   }
 
-  /** Set the task store. */
+  /**
+   * Set the response store. Enables duplicate detection with `deduplicated: true`
+   * responses for replayed message IDs and repeated `idempotencyKey`s.
+   */
+  responseStore(store: ResponseStore): this {
+    this._responseStore = store;
+    return this;
+  }
+
+  /** Set the task store. Writes are validated against the task state machine. */
   taskStore(store: TaskStore): this {
-    this._taskStore = store;
+    this._taskStore = ValidatingTaskStore.wrap(store);
+    return this;
+  }
+
+  /**
+   * Enable the built-in task lifecycle. message/send requests are tracked as tasks,
+   * and tasks/get + tasks/cancel (plus tasks/list when the store is a QueryableTaskStore)
+   * are answered from the manager's store unless explicit handlers are registered for them.
+   */
+  taskManager(manager: TaskManager): this {
+    this._taskManager = manager;
+    this._taskStore = manager.store;
+    return this;
+  }
+
+  /**
+   * Set how responses to our own requests are verified (default `optional`).
+   * `required` rejects unsigned responses; `optional` accepts them but still rejects
+   * invalid signatures, wrong senders, and stale timestamps; `off` skips verification.
+   */
+  responseSignatures(level: ResponseSignatureLevel): this {
+    this._responseSignatures = level;
     return this;
   }
 
@@ -92,12 +207,12 @@ export class SnapAgent {
       }
 
       if (tp.listen) {
-        await tp.listen((msg) => this.processMessage(msg));
+        await tp.listen((msg, info) => this.processMessage(msg, { ...info, transport: tp.name }));
       }
 
       const streamTp = tp as StreamTransportPlugin;
       if (typeof streamTp.listenStream === 'function') {
-        await streamTp.listenStream((msg) => this.processStream(msg));
+        await streamTp.listenStream((msg, info) => this.processStream(msg, { ...info, transport: tp.name }));
       }
     }
   }
@@ -111,60 +226,315 @@ export class SnapAgent {
     }
   }
 
-  /** Process an inbound message and return a response. */
-  async processMessage(inbound: SnapMessage): Promise<SnapMessage> {
+  /**
+   * Process an inbound message and return a response.
+   * Errors raised after the envelope is parsed (SnapErrors, or anything else as
+   * INTERNAL_ERROR) become a signed response carrying `{ error }` in the payload.
+   * Only structurally invalid messages — which have no sender to answer — throw.
+   * @param info Where the message came from; exposed to middleware as `transport` / `peer`.
+   */
+  async processMessage(inbound: SnapMessage, info?: InboundInfo): Promise<SnapMessage> {
+    const ctx = this.inboundContext(inbound, info);
+    try {
+      return await this.dispatchMessage(ctx);
+    } catch (err) {
+      if (!MessageValidator.validateStructure(inbound)) throw err;
+      return this.respondWithError(ctx, err);
+    }
+  }
+
+  /**
+   * Process an inbound streaming request.
+   * Errors end the stream with a signed `response` carrying `{ error }` (passed through
+   * outbound middleware like any response), except for structurally invalid messages, which throw.
+   */
+  async *processStream(inbound: SnapMessage, info?: InboundInfo): AsyncIterable<SnapMessage> {
+    const ctx = this.inboundContext(inbound, info);
+    try {
+      yield* this.dispatchStream(ctx);
+    } catch (err) {
+      if (!MessageValidator.validateStructure(inbound)) throw err;
+      yield await this.respondWithError(ctx, err);
+    }
+  }
+
+  // --- Outbound methods ---
+
+  /**
+   * Send a request to another agent. Given a peer (an AgentCard, or a P2TR address resolved
+   * through `resolveCard()`), the card's declared endpoints are tried in order (see
+   * `TransportRouter`); given an address and endpoint, every registered transport is tried
+   * in order with that endpoint.
+   * The response is verified according to `responseSignatures()`.
+   * @throws SnapError when the response fails verification or the peer answers with an error
+   * payload, AGENT_NOT_FOUND when an address cannot be resolved, and TRANSPORT_UNAVAILABLE
+   * when no route to the peer succeeds.
+   */
+  send<P extends Record<string, unknown> = Record<string, unknown>>(
+    to: P2TRAddress,
+    endpoint: string,
+    method: MethodName,
+    payload: P,
+    options?: Partial<TransportSendOptions>,
+  ): Promise<SnapMessage>;
+  send<P extends Record<string, unknown> = Record<string, unknown>>(
+    peer: Peer,
+    method: MethodName,
+    payload: P,
+    options?: Partial<TransportSendOptions>,
+  ): Promise<SnapMessage>;
+  async send(...args: PeerArgs<[method: MethodName, payload: Record<string, unknown>, options?: SendOptions]>): Promise<SnapMessage> {
+    const { peer, endpoint, rest: [method, payload, options] } = splitPeer(args, typeof args[2] === 'string');
+    const { signed, card } = await this.prepareRequest(peer, method, payload, endpoint);
+
+    const response = card
+      ? await this.router.send(card, signed, this.routeOptions(card, options))
+      : await this.sendViaAny(signed, { ...options, endpoint: endpoint! });
+    this.verifyResponse(response, signed);
+    throwIfError(response);
+    return response;
+  }
+
+  /**
+   * Send a streaming request to another agent, routed like `send()`.
+   * Every event is verified like a `send()` response.
+   * @throws SnapError when an event fails verification or the stream ends with an error response.
+   */
+  sendStream<P extends Record<string, unknown> = Record<string, unknown>>(
+    to: P2TRAddress,
+    endpoint: string,
+    method: MethodName,
+    payload: P,
+    options?: Partial<TransportSendOptions>,
+  ): AsyncIterable<SnapMessage>;
+  sendStream<P extends Record<string, unknown> = Record<string, unknown>>(
+    peer: Peer,
+    method: MethodName,
+    payload: P,
+    options?: Partial<TransportSendOptions>,
+  ): AsyncIterable<SnapMessage>;
+  async *sendStream(...args: PeerArgs<[method: MethodName, payload: Record<string, unknown>, options?: SendOptions]>): AsyncIterable<SnapMessage> {
+    const { peer, endpoint, rest: [method, payload, options] } = splitPeer(args, typeof args[2] === 'string');
+    const { signed, card } = await this.prepareRequest(peer, method, payload, endpoint);
+
+    const events = card
+      ? this.router.sendStream(card, signed, this.routeOptions(card, options))
+      : this.streamViaFirst(signed, { ...options, endpoint: endpoint! });
+    for await (const event of events) {
+      this.verifyResponse(event, signed);
+      throwIfError(event);
+      yield event;
+    }
+  }
+
+  /**
+   * Look up a peer's AgentCard: from the discovery cache, otherwise by querying a
+   * registered transport that supports discovery (Nostr) and caching the result.
+   * @throws SnapError AGENT_NOT_FOUND if no card with this identity is found.
+   */
+  async resolveCard(address: P2TRAddress): Promise<AgentCard> {
+    const cached = this._discovery.get(address);
+    if (cached) return cached.card;
+
+    for (const tp of this.transports) {
+      const discovery = tp as Partial<NostrTransport>;
+      if (typeof discovery.discoverAgents !== 'function') continue;
+
+      const cards = await discovery.discoverAgents({ identity: address });
+      const card = cards.find((c) => c.identity === address);
+      if (card) {
+        this._discovery.set(card, discovery.getNostrPubkey?.(address));
+        return card;
+      }
+    }
+
+    throw SnapError.agentNotFound(address);
+  }
+
+  // --- Convenience methods ---
+
+  /** Send a message/send request. */
+  sendMessage(to: P2TRAddress, endpoint: string, message: InnerMessage, options?: Partial<TransportSendOptions>): Promise<MessageSendResponse>;
+  sendMessage(peer: Peer, message: InnerMessage, options?: Partial<TransportSendOptions>): Promise<MessageSendResponse>;
+  async sendMessage(...args: PeerArgs<[message: InnerMessage, options?: SendOptions]>): Promise<MessageSendResponse> {
+    const { peer, endpoint, rest: [message, options] } = splitPeer(args, typeof args[1] === 'string');
+    const response = endpoint === undefined
+      ? await this.send(peer, 'message/send', { message }, options)
+      : await this.send(peer as P2TRAddress, endpoint, 'message/send', { message }, options);
+    return response.payload as MessageSendResponse;
+  }
+
+  /** Continue a task with another user turn, e.g. to answer a task in `input_required`. */
+  continueTask(to: P2TRAddress, endpoint: string, taskId: string, message: InnerMessage, options?: Partial<TransportSendOptions>): Promise<MessageSendResponse>;
+  continueTask(peer: Peer, taskId: string, message: InnerMessage, options?: Partial<TransportSendOptions>): Promise<MessageSendResponse>;
+  async continueTask(...args: PeerArgs<[taskId: string, message: InnerMessage, options?: SendOptions]>): Promise<MessageSendResponse> {
+    const { peer, endpoint, rest: [taskId, message, options] } = splitPeer(args, typeof args[2] === 'string');
+    const response = endpoint === undefined
+      ? await this.send(peer, 'message/send', { taskId, message }, options)
+      : await this.send(peer as P2TRAddress, endpoint, 'message/send', { taskId, message }, options);
+    return response.payload as MessageSendResponse;
+  }
+
+  /** Stream a message/stream request. */
+  streamMessage(to: P2TRAddress, endpoint: string, message: InnerMessage, options?: Partial<TransportSendOptions>): AsyncIterable<SnapMessage>;
+  streamMessage(peer: Peer, message: InnerMessage, options?: Partial<TransportSendOptions>): AsyncIterable<SnapMessage>;
+  async *streamMessage(...args: PeerArgs<[message: InnerMessage, options?: SendOptions]>): AsyncIterable<SnapMessage> {
+    const { peer, endpoint, rest: [message, options] } = splitPeer(args, typeof args[1] === 'string');
+    yield* endpoint === undefined
+      ? this.sendStream(peer, 'message/stream', { message }, options)
+      : this.sendStream(peer as P2TRAddress, endpoint, 'message/stream', { message }, options);
+  }
+
+  /** Get a task by ID. */
+  getTask(to: P2TRAddress, endpoint: string, taskId: string, options?: Partial<TransportSendOptions>): Promise<TasksGetResponse>;
+  getTask(peer: Peer, taskId: string, options?: Partial<TransportSendOptions>): Promise<TasksGetResponse>;
+  async getTask(...args: PeerArgs<[taskId: string, options?: SendOptions]>): Promise<TasksGetResponse> {
+    const { peer, endpoint, rest: [taskId, options] } = splitPeer(args, typeof args[2] === 'string');
+    const response = endpoint === undefined
+      ? await this.send(peer, 'tasks/get', { taskId }, options)
+      : await this.send(peer as P2TRAddress, endpoint, 'tasks/get', { taskId }, options);
+    return response.payload as TasksGetResponse;
+  }
+
+  /** Cancel a task. */
+  cancelTask(to: P2TRAddress, endpoint: string, taskId: string, options?: Partial<TransportSendOptions>): Promise<TasksCancelResponse>;
+  cancelTask(peer: Peer, taskId: string, options?: Partial<TransportSendOptions>): Promise<TasksCancelResponse>;
+  async cancelTask(...args: PeerArgs<[taskId: string, options?: SendOptions]>): Promise<TasksCancelResponse> {
+    const { peer, endpoint, rest: [taskId, options] } = splitPeer(args, typeof args[2] === 'string');
+    const response = endpoint === undefined
+      ? await this.send(peer, 'tasks/cancel', { taskId }, options)
+      : await this.send(peer as P2TRAddress, endpoint, 'tasks/cancel', { taskId }, options);
+    return response.payload as TasksCancelResponse;
+  }
+
+  /** List our own tasks on a peer, newest first. Pass `nextCursor` back as `cursor` for the next page. */
+  listTasks(to: P2TRAddress, endpoint: string, query?: TasksListRequest, options?: Partial<TransportSendOptions>): Promise<TasksListResponse>;
+  listTasks(peer: Peer, query?: TasksListRequest, options?: Partial<TransportSendOptions>): Promise<TasksListResponse>;
+  async listTasks(...args: PeerArgs<[query?: TasksListRequest, options?: SendOptions]>): Promise<TasksListResponse> {
+    const { peer, endpoint, rest: [query = {}, options] } = splitPeer(args, typeof args[1] === 'string');
+    const payload = query as Record<string, unknown>;
+    const response = endpoint === undefined
+      ? await this.send(peer, 'tasks/list', payload, options)
+      : await this.send(peer as P2TRAddress, endpoint, 'tasks/list', payload, options);
+    return response.payload as TasksListResponse;
+  }
+
+  /**
+   * Call any method (built-in or declared in `Custom`) and return its response payload,
+   * typed from the method map.
+   * @throws SnapError when the peer answers with an error response.
+   */
+  call<M extends keyof Methods<Custom> & string>(
+    to: P2TRAddress,
+    endpoint: string,
+    method: M,
+    payload: MethodRequest<Methods<Custom>, M>,
+    options?: Partial<TransportSendOptions>,
+  ): Promise<MethodResponse<Methods<Custom>, M>>;
+  call<M extends keyof Methods<Custom> & string>(
+    peer: Peer,
+    method: M,
+    payload: MethodRequest<Methods<Custom>, M>,
+    options?: Partial<TransportSendOptions>,
+  ): Promise<MethodResponse<Methods<Custom>, M>>;
+  async call(...args: PeerArgs<[method: MethodName, payload: unknown, options?: SendOptions]>): Promise<unknown> {
+    const { peer, endpoint, rest: [method, request, options] } = splitPeer(args, typeof args[2] === 'string');
+    const payload = request as Record<string, unknown>;
+    const response = endpoint === undefined
+      ? await this.send(peer, method, payload, options)
+      : await this.send(peer as P2TRAddress, endpoint, method, payload, options);
+    return response.payload;
+  }
+
+  /**
+   * Call a tool on an Agent-to-Service endpoint: a `service/call` request signed
+   * without `to`. Accepts both plain `{ result }` answers (e.g. SnapService) and
+   * SNAP response messages from an agent handling service/call.
+   * @throws SnapError when the service answers with an error.
+   */
+  async callService<R = unknown>(
+    endpoint: string,
+    name: string,
+    args?: Record<string, unknown>,
+    options?: Partial<TransportSendOptions>,
+  ): Promise<R> {
+    const payload: ServiceCallRequest = args === undefined ? { name } : { name, arguments: args };
+    const signed = this.signer.sign(this.buildMessage({
+      version: this.preferredVersion,
+      type: 'request',
+      method: 'service/call',
+      payload: payload as unknown as Record<string, unknown>,
+    }));
+    await this.runMiddleware(this.outboundContext(signed));
+
+    const response = await this.sendViaAny(signed, { ...options, endpoint });
+    const body = (response.type === 'response' ? response.payload : response) as ServiceCallResponse;
+    if (SnapError.isErrorData(body.error)) {
+      throw SnapError.fromData(body.error);
+    }
+    return body.result as R;
+  }
+
+  // --- Private helpers ---
+
+  private async dispatchMessage(ctx: MiddlewareContext): Promise<SnapMessage> {
+    const inbound = ctx.message;
+
     // 1. Validate structure and signature
-    MessageValidator.validate(inbound);
+    MessageValidator.validate(inbound, { supportedVersions: this.versions, limits: this._limits });
 
     // 2. Check destination (skip when `to` is absent — Agent-to-Service)
     if (inbound.to !== undefined && inbound.to !== this.address) {
       throw SnapError.invalidMessage(`Message not addressed to this agent: ${inbound.to}`);
     }
 
-    // 3. Replay check
+    // 3. Replay check — answer with the original response when one was recorded
     if (this._replayStore) {
-      const seen = await this._replayStore.hasSeen(inbound.from, inbound.id);
+      const seen = await this._replayStore.hasSeen(inbound.from, inbound.id, inbound.timestamp);
       if (seen) {
-        throw SnapError.duplicateMessage(inbound.id, inbound.from);
+        const original = await this._responseStore?.get(inbound.from, `id:${inbound.id}`);
+        if (!original) {
+          throw SnapError.duplicateMessage(inbound.id, inbound.from);
+        }
+        return this.respond(ctx, { ...original, deduplicated: true });
       }
       await this._replayStore.markSeen(inbound.from, inbound.id, inbound.timestamp);
     }
 
-    // 4. Inbound middleware
-    await this.runMiddleware({ message: inbound, direction: 'inbound' });
-
-    // 5. Route to handler
-    const handler = this.handlers.get(inbound.method);
-    if (!handler) {
-      throw SnapError.methodNotFound(inbound.method);
-    }
+    // 4–5. Inbound middleware wrapping the handler (run once per idempotencyKey when a
+    // response store is set). Middleware may answer early by setting ctx.response.
+    const invoke = async () => {
+      const handler = this.resolveHandler(inbound.method);
+      if (!handler) {
+        throw SnapError.methodNotFound(inbound.method);
+      }
+      this.payloads.validate(inbound.method, inbound.payload);
 
-    const context: HandlerContext = {
-      message: inbound,
-      taskStore: this._taskStore,
+      const idempotencyKey = inbound.payload.idempotencyKey;
+      ctx.response = this._responseStore && typeof idempotencyKey === 'string'
+        ? await this.invokeIdempotent(inbound, idempotencyKey, handler)
+        : await this.invokeHandler(inbound, handler);
     };
+    if (!(await this.runMiddleware(ctx, invoke)) && !ctx.response) {
+      // A middleware that neither calls next() nor answers still lets the handler run
+      await invoke();
+    }
+    if (!ctx.response) {
+      throw SnapError.internalError();
+    }
+    const responsePayload = ctx.response;
 
-    const responsePayload = await handler(inbound.payload, context);
-
-    // 6. Build and sign response
-    const unsigned = this.buildMessage({
-      to: inbound.from,
-      type: 'response',
-      method: inbound.method as MethodName,
-      payload: responsePayload as Record<string, unknown>,
-    });
-    const response = this.signer.sign(unsigned);
-
-    // 7. Outbound middleware
-    await this.runMiddleware({ message: response, direction: 'outbound' });
+    await this._responseStore?.set(inbound.from, `id:${inbound.id}`, responsePayload);
 
-    return response;
+    // 6. Build and sign the response, then run outbound middleware
+    return this.respond(ctx, responsePayload);
   }
 
-  /** Process an inbound streaming request. */
-  async *processStream(inbound: SnapMessage): AsyncIterable<SnapMessage> {
+  private async *dispatchStream(ctx: MiddlewareContext): AsyncIterable<SnapMessage> {
+    const inbound = ctx.message;
+
     // 1. Validate
-    MessageValidator.validate(inbound);
+    MessageValidator.validate(inbound, { supportedVersions: this.versions, limits: this._limits });
 
     // 2. Check destination (skip when `to` is absent — Agent-to-Service)
     if (inbound.to !== undefined && inbound.to !== this.address) {
@@ -173,184 +543,394 @@ export class SnapAgent {
 
     // 3. Replay check
     if (this._replayStore) {
-      const seen = await this._replayStore.hasSeen(inbound.from, inbound.id);
+      const seen = await this._replayStore.hasSeen(inbound.from, inbound.id, inbound.timestamp);
       if (seen) {
         throw SnapError.duplicateMessage(inbound.id, inbound.from);
       }
       await this._replayStore.markSeen(inbound.from, inbound.id, inbound.timestamp);
     }
 
-    // 4. Inbound middleware
-    await this.runMiddleware({ message: inbound, direction: 'inbound' });
-
-    // 5. Route to stream handler
-    const handler = this.streamHandlers.get(inbound.method);
-    if (!handler) {
-      throw SnapError.methodNotFound(inbound.method);
-    }
-
-    const context: HandlerContext = {
-      message: inbound,
-      taskStore: this._taskStore,
-    };
+    // 4–6. Inbound middleware wrapping the stream handler: each signed event is handed to
+    // the caller as it is produced, so code after `next()` runs once the stream has ended
+    const events = new Handoff<SnapMessage>();
+    const produce = async () => {
+      const handler = this.streamHandlers.get(inbound.method);
+      if (!handler) {
+        throw SnapError.methodNotFound(inbound.method);
+      }
+      this.payloads.validate(inbound.method, inbound.payload);
 
-    // 6. Yield each event signed
-    for await (const event of handler(inbound.payload, context)) {
-      // Events from handler are already SnapMessages (or we wrap them)
-      if (event.sig) {
-        yield event;
-      } else {
-        // Sign event messages
-        const unsigned = this.buildMessage({
-          to: inbound.from,
-          type: event.type ?? 'event',
-          method: event.method ?? (inbound.method as MethodName),
-          payload: event.payload ?? {},
-        });
-        yield this.signer.sign(unsigned);
+      for await (const event of handler(inbound.payload, this.handlerContext(inbound))) {
+        // Stop the handler once the caller abandons the stream
+        if (!(await events.push(this.signEvent(inbound, event)))) break;
       }
+    };
+    const chain = this.runMiddleware(ctx, produce)
+      .then(async (reached) => {
+        // As for send: a middleware that neither calls next() nor answers lets the handler run
+        if (reached || ctx.response) return reached;
+        await produce();
+        return true;
+      })
+      .finally(() => events.close());
+    chain.catch(() => {}); // rethrown below unless the caller abandoned the stream
+
+    yield* events;
+    if (!(await chain)) {
+      // A middleware answered early: that payload is the stream's single event
+      yield await this.respond(ctx, ctx.response!);
     }
   }
 
-  // --- Outbound methods ---
-
-  /** Send a message to another agent via the first available transport. */
-  async send<P extends Record<string, unknown> = Record<string, unknown>>(
-    to: P2TRAddress,
-    endpoint: string,
-    method: MethodName,
-    payload: P,
-    options?: Partial<TransportSendOptions>,
-  ): Promise<SnapMessage> {
-    const unsigned = this.buildMessage({ to, type: 'request', method, payload: payload as Record<string, unknown> });
-    const signed = this.signer.sign(unsigned);
-
-    await this.runMiddleware({ message: signed, direction: 'outbound' });
+  /** Events from stream handlers may come pre-signed and correlated; others are signed and correlated here. */
+  private signEvent(inbound: SnapMessage, event: SnapMessage): SnapMessage {
+    if (event.sig) return event;
+    return this.signer.sign(this.buildMessage({
+      to: inbound.from,
+      version: this.replyVersion(inbound),
+      type: event.type ?? 'event',
+      method: event.method ?? (inbound.method as MethodName),
+      payload: { ...event.payload, inReplyTo: inbound.id },
+    }));
+  }
 
-    const sendOptions: TransportSendOptions = {
-      endpoint,
-      ...options,
+  /** Handlers see the task store scoped to the requester, so other senders' tasks read as missing. */
+  private handlerContext(inbound: SnapMessage): HandlerContext {
+    return {
+      message: inbound,
+      ...(this._taskStore ? { taskStore: new ScopedTaskStore(this._taskStore, inbound.from) } : {}),
     };
-
-    // Try transports in order
-    let lastError: Error | undefined;
-    for (const tp of this.transports) {
-      try {
-        const response = await tp.send(signed, sendOptions);
-        return response;
-      } catch (err) {
-        lastError = err instanceof Error ? err : new Error(String(err));
-      }
-    }
-
-    throw lastError ?? new Error('No transports configured');
   }
 
-  /** Send a streaming request to another agent. */
-  async *sendStream<P extends Record<string, unknown> = Record<string, unknown>>(
-    to: P2TRAddress,
-    endpoint: string,
-    method: MethodName,
-    payload: P,
-    options?: Partial<TransportSendOptions>,
-  ): AsyncIterable<SnapMessage> {
-    const unsigned = this.buildMessage({ to, type: 'request', method, payload: payload as Record<string, unknown> });
-    const signed = this.signer.sign(unsigned);
+  private async invokeHandler(
+    inbound: SnapMessage,
+    handler: MethodHandler<any, any>,
+  ): Promise<Record<string, unknown>> {
+    const context = this.handlerContext(inbound);
 
-    await this.runMiddleware({ message: signed, direction: 'outbound' });
+    const responsePayload = this._taskManager && inbound.method === 'message/send'
+      ? await this._taskManager.run(inbound.payload as unknown as MessageSendRequest, context, handler)
+      : await handler(inbound.payload, context);
+    return responsePayload as Record<string, unknown>;
+  }
 
-    const sendOptions: TransportSendOptions = {
-      endpoint,
-      ...options,
-    };
+  /**
+   * Run a handler at most once per (sender, idempotencyKey). Repeats — including
+   * ones arriving while the first is still running — get the original payload
+   * with `deduplicated: true`. Failed runs are not recorded, so they can be retried.
+   */
+  private async invokeIdempotent(
+    inbound: SnapMessage,
+    idempotencyKey: string,
+    handler: MethodHandler<any, any>,
+  ): Promise<Record<string, unknown>> {
+    const store = this._responseStore!;
+    const storeKey = `key:${idempotencyKey}`;
+    const original = await store.get(inbound.from, storeKey);
+    if (original) {
+      return { ...original, deduplicated: true };
+    }
 
-    // Find a streaming transport
-    for (const tp of this.transports) {
-      const streamTp = tp as StreamTransportPlugin;
-      if (typeof streamTp.sendStream === 'function') {
-        yield* streamTp.sendStream(signed, sendOptions);
-        return;
-      }
+    const inflightKey = `${inbound.from}:${storeKey}`;
+    const pending = this.inflight.get(inflightKey);
+    if (pending) {
+      return { ...(await pending), deduplicated: true };
     }
 
-    throw new Error('No streaming transport configured');
+    const run = this.invokeHandler(inbound, handler);
+    this.inflight.set(inflightKey, run);
+    try {
+      const payload = await run;
+      await store.set(inbound.from, storeKey, payload);
+      return payload;
+    } finally {
+      this.inflight.delete(inflightKey);
+    }
   }
 
-  // --- Convenience methods ---
+  private verifyResponse(response: SnapMessage, request: SnapMessage): void {
+    MessageValidator.validateResponse(response, {
+      expectedFrom: request.to!,
+      expectedTo: this.address,
+      requestId: request.id,
+      signatures: this._responseSignatures,
+    });
+  }
 
-  /** Send a message/send request. */
-  async sendMessage(
-    to: P2TRAddress,
-    endpoint: string,
-    message: InnerMessage,
-    options?: Partial<TransportSendOptions>,
-  ): Promise<MessageSendResponse> {
-    const response = await this.send(to, endpoint, 'message/send', { message }, options);
-    return response.payload as MessageSendResponse;
+  /** @throws OutboundFailure wrapping the error when outbound middleware throws. */
+  private async respond(ctx: MiddlewareContext, payload: Record<string, unknown>): Promise<SnapMessage> {
+    const response = this.signResponse(ctx.message, payload);
+    try {
+      await this.runMiddleware({ ...ctx, message: response, direction: 'outbound', response: response.payload });
+    } catch (err) {
+      throw new OutboundFailure(err);
+    }
+    return response;
   }
 
-  /** Stream a message/stream request. */
-  async *streamMessage(
-    to: P2TRAddress,
-    endpoint: string,
-    message: InnerMessage,
-    options?: Partial<TransportSendOptions>,
-  ): AsyncIterable<SnapMessage> {
-    yield* this.sendStream(to, endpoint, 'message/stream', { message }, options);
+  /**
+   * Answer a failed request with `{ error }`. The error response passes through outbound
+   * middleware unless that chain is what failed, or it fails again; then it is signed as-is.
+   */
+  private async respondWithError(ctx: MiddlewareContext, err: unknown): Promise<SnapMessage> {
+    const cause = err instanceof OutboundFailure ? err.cause : err;
+    const payload = { error: SnapError.from(cause).toJSON() };
+    if (err instanceof OutboundFailure) return this.signResponse(ctx.message, payload);
+    try {
+      return await this.respond(ctx, payload);
+    } catch {
+      return this.signResponse(ctx.message, payload);
+    }
   }
 
-  /** Get a task by ID. */
-  async getTask(
-    to: P2TRAddress,
-    endpoint: string,
-    taskId: string,
-    options?: Partial<TransportSendOptions>,
-  ): Promise<TasksGetResponse> {
-    const response = await this.send(to, endpoint, 'tasks/get', { taskId }, options);
-    return response.payload as TasksGetResponse;
+  /** Re-sign a request with a fresh timestamp, keeping its `id`, for a retry. */
+  private resign(message: SnapMessage): SnapMessage {
+    const { sig: _sig, ...unsigned } = message;
+    return this.signer.sign({ ...unsigned, timestamp: Math.floor(Date.now() / 1000) });
   }
 
-  /** Cancel a task. */
-  async cancelTask(
-    to: P2TRAddress,
-    endpoint: string,
-    taskId: string,
-    options?: Partial<TransportSendOptions>,
-  ): Promise<TasksCancelResponse> {
-    const response = await this.send(to, endpoint, 'tasks/cancel', { taskId }, options);
-    return response.payload as TasksCancelResponse;
+  /** Sign a response; `payload.inReplyTo` binds it to the request it answers. */
+  private signResponse(inbound: SnapMessage, payload: Record<string, unknown>): SnapMessage {
+    return this.signer.sign(this.buildMessage({
+      to: inbound.from,
+      version: this.replyVersion(inbound),
+      type: 'response',
+      method: inbound.method as MethodName,
+      payload: { ...payload, inReplyTo: inbound.id },
+    }));
   }
 
-  // --- Private helpers ---
+  private resolveHandler(method: string): MethodHandler<any, any> | undefined {
+    const handler = this.handlers.get(method);
+    if (handler || !this._taskManager) return handler;
+
+    const manager = this._taskManager;
+    if (method === 'tasks/get') {
+      return (payload: TasksGetRequest, context: HandlerContext) => manager.handleGet(payload, context);
+    }
+    if (method === 'tasks/cancel') {
+      return (payload: TasksCancelRequest, context: HandlerContext) => manager.handleCancel(payload, context);
+    }
+    if (method === 'tasks/list' && manager.store.queryable) {
+      return (payload: TasksListRequest, context: HandlerContext) => manager.handleList(payload, context);
+    }
+    return undefined;
+  }
 
   private buildMessage(opts: {
-    to: P2TRAddress;
+    to?: P2TRAddress;
+    version: string;
     type: MessageType;
     method: MethodName;
     payload: Record<string, unknown>;
   }): UnsignedMessage {
-    return new MessageBuilder()
+    const builder = new MessageBuilder()
       .id(randomUUID())
+      .version(opts.version)
       .from(this.address)
-      .to(opts.to)
       .type(opts.type)
       .method(opts.method)
       .payload(opts.payload)
-      .timestamp(Math.floor(Date.now() / 1000))
-      .build();
+      .timestamp(Math.floor(Date.now() / 1000));
+    if (opts.to !== undefined) builder.to(opts.to);
+    return builder.build();
+  }
+
+  /**
+   * Resolve the peer (when sending without an explicit endpoint), then build, sign and
+   * run outbound middleware over the request.
+   */
+  private async prepareRequest(
+    peer: Peer,
+    method: MethodName,
+    payload: Record<string, unknown>,
+    endpoint?: string,
+  ): Promise<{ signed: SnapMessage; card?: AgentCard }> {
+    const card = typeof peer === 'string' ? (endpoint === undefined ? await this.resolveCard(peer) : undefined) : peer;
+    const to = card?.identity ?? (peer as P2TRAddress);
+    const version = card ? this.negotiateVersion(card) : this.preferredVersion;
+    const signed = this.signer.sign(this.buildMessage({ to, version, type: 'request', method, payload }));
+    await this.runMiddleware(this.outboundContext(signed));
+    return { signed, card };
+  }
+
+  /**
+   * Highest version both sides support (docs/versioning.md "Version Negotiation").
+   * @throws SnapError VERSION_NOT_SUPPORTED if the peer's card shares no version with us.
+   */
+  private negotiateVersion(card: AgentCard): string {
+    const theirs = ProtocolVersion.ofCard(card);
+    const version = ProtocolVersion.negotiate(this.versions, theirs);
+    if (!version) {
+      throw SnapError.versionNotSupported(card.protocolVersion ?? theirs[0], this.versions);
+    }
+    return version;
+  }
+
+  /** Answer in the request's version when we support it, otherwise in our preferred one. */
+  private replyVersion(inbound: SnapMessage): string {
+    return this.versions.includes(inbound.version) ? inbound.version : this.preferredVersion;
+  }
+
+  /** Fill in the Nostr pubkey learned during discovery unless the caller gave one. */
+  private routeOptions(card: AgentCard, options?: Partial<TransportSendOptions>): Partial<TransportSendOptions> {
+    const nostrPubkey = options?.nostrPubkey ?? this._discovery.get(card.identity)?.nostrPubkey;
+    return nostrPubkey ? { ...options, nostrPubkey } : { ...options };
+  }
+
+  /** Try transports in order; a SnapError is the peer's answer, not a transport failure. */
+  private async sendViaAny(signed: SnapMessage, options: TransportSendOptions): Promise<SnapMessage> {
+    let lastError: Error | undefined;
+    for (const tp of this.transports) {
+      try {
+        return await tp.send(signed, options);
+      } catch (err) {
+        if (err instanceof SnapError) throw err;
+        lastError = err instanceof Error ? err : new Error(String(err));
+      }
+    }
+    throw lastError ?? new Error('No transports configured');
+  }
+
+  private streamViaFirst(signed: SnapMessage, options: TransportSendOptions): AsyncIterable<SnapMessage> {
+    const streamTp = this.transports.find(
+      (tp) => typeof (tp as StreamTransportPlugin).sendStream === 'function',
+    ) as StreamTransportPlugin | undefined;
+    if (!streamTp) {
+      throw new Error('No streaming transport configured');
+    }
+    return streamTp.sendStream(signed, options);
   }
 
-  private async runMiddleware(ctx: MiddlewareContext): Promise<void> {
+  private inboundContext(message: SnapMessage, info?: InboundInfo): MiddlewareContext {
+    return {
+      message,
+      direction: 'inbound',
+      card: this.card,
+      transport: info?.transport,
+      peer: { address: message?.from, remoteAddress: info?.remoteAddress },
+      state: {},
+      startedAt: Date.now(),
+    };
+  }
+
+  private outboundContext(message: SnapMessage): MiddlewareContext {
+    return {
+      message,
+      direction: 'outbound',
+      card: this.card,
+      peer: { address: message.to },
+      state: {},
+      startedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Run the middleware chain. `terminal` runs once the last middleware calls `next()`.
+   * @returns Whether the chain reached the terminal (false when a middleware answered early).
+   */
+  private async runMiddleware(ctx: MiddlewareContext, terminal?: () => Promise<void>): Promise<boolean> {
     const stack = [...this.middlewares];
     let index = 0;
+    let reached = false;
 
     const next: NextFn = async () => {
       if (index < stack.length) {
         const mw = stack[index++];
         await mw.handle(ctx, next);
+      } else if (!reached) {
+        reached = true;
+        await terminal?.();
       }
     };
 
     await next();
+    return reached;
+  }
+}
+
+type SendOptions = Partial<TransportSendOptions> | undefined;
+
+/** An error thrown by outbound middleware while a response was being sent. */
+class OutboundFailure extends Error {
+  constructor(override readonly cause: unknown) {
+    super('Outbound middleware failed');
+  }
+}
+
+/**
+ * Passes values from one producer to one consumer without buffering: `push()` resolves
+ * true once the consumer asks for the next value, or false when the consumer has stopped.
+ */
+class Handoff<T> implements AsyncIterable<T> {
+  private queued?: { value: T; taken: (open: boolean) => void };
+  private delivered?: (open: boolean) => void;
+  private wake?: () => void;
+  private closed = false;
+  private stopped = false;
+
+  push(value: T): Promise<boolean> {
+    if (this.stopped) return Promise.resolve(false);
+    return new Promise((taken) => {
+      this.queued = { value, taken };
+      this.wake?.();
+    });
+  }
+
+  /** No more values; the consumer finishes once it has taken the last one. */
+  close(): void {
+    this.closed = true;
+    this.wake?.();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    try {
+      while (true) {
+        this.delivered?.(true);
+        this.delivered = undefined;
+        if (this.queued) {
+          const { value, taken } = this.queued;
+          this.queued = undefined;
+          this.delivered = taken;
+          yield value;
+          continue;
+        }
+        if (this.closed) return;
+        await new Promise<void>((resolve) => { this.wake = resolve; });
+        this.wake = undefined;
+      }
+    } finally {
+      this.stopped = true;
+      this.delivered?.(false);
+      this.queued?.taken(false);
+    }
   }
 }
+
+/** Built-in methods plus an agent's custom ones. */
+type Methods<Custom> = MethodPayloadMap & Custom;
+
+/** A peer to send to: its AgentCard, or a P2TR address resolved through the discovery cache. */
+type Peer = AgentCard | P2TRAddress;
+
+/** Arguments of the `(to, endpoint, ...rest)` and `(peer, ...rest)` call forms. */
+type PeerArgs<R extends unknown[]> = [to: P2TRAddress, endpoint: string, ...rest: R] | [peer: Peer, ...rest: R];
+
+/** Split either call form; `explicit` says whether the caller passed `(to, endpoint, ...)`. */
+function splitPeer<R extends unknown[]>(args: PeerArgs<R>, explicit: boolean): { peer: Peer; endpoint?: string; rest: R } {
+  if (explicit) {
+    const [to, endpoint, ...rest] = args as [P2TRAddress, string, ...R];
+    return { peer: to, endpoint, rest };
+  }
+  const [peer, ...rest] = args as [Peer, ...R];
+  return { peer, rest };
+}
+
+/** Surface an error response (`payload.error`) as a thrown SnapError. */
+function throwIfError(message: SnapMessage): void {
+  const error = message.payload?.error;
+  if (message.type === 'response' && SnapError.isErrorData(error)) {
+    throw SnapError.fromData(error);
+  }
+}
+
@@ -0,0 +1,162 @@
+import type { SnapMessage } from '../types/message.js';
+import type { ReplayStore, Middleware, MiddlewareContext, NextFn, InboundInfo } from '../types/plugin.js';
+import type { HandlerContext, ToolHandler } from '../types/handler.js';
+import type { ServiceCallRequest, ServiceCallResponse } from '../types/payloads.js';
+import { MessageValidator } from '../messaging/MessageValidator.js';
+import { PayloadValidator, type PayloadSchema } from '../messaging/PayloadValidator.js';
+import { SUPPORTED_VERSIONS } from '../messaging/ProtocolVersion.js';
+import type { SizeLimits } from '../messaging/SizeLimits.js';
+import { SnapError } from '../errors/SnapError.js';
+
+interface Tool {
+  handler: ToolHandler<any, unknown>;
+  schema?: PayloadSchema;
+}
+
+/**
+ * Server side of Agent-to-Service (`service/call`): named tools behind signature
+ * verification, with no identity of its own — no private key, no AgentCard.
+ * Requests must omit `to`; answers are plain `{ result }` / `{ error }` payloads,
+ * not signed SNAP messages.
+ *
+ * ```ts
+ * const service = new SnapService()
+ *   .use(new AllowlistMiddleware(allowlist))
+ *   .tool('query_database', async ({ sql }) => db.query(sql), sqlSchema);
+ * const response = await service.processMessage(JSON.parse(body));
+ * ```
+ */
+export class SnapService {
+  private readonly tools = new Map<string, Tool>();
+  private readonly middlewares: Middleware[] = [];
+  private readonly payloads = new PayloadValidator();
+  private _replayStore?: ReplayStore;
+  private _limits?: Partial<SizeLimits>;
+
+  /**
+   * Register a tool. An optional schema validates its `arguments` (violation field
+   * paths start at `payload.arguments`); failures answer INVALID_PAYLOAD.
+   */
+  tool<Args = Record<string, unknown>, Result = unknown>(
+    name: string,
+    handler: ToolHandler<Args, Result>,
+    schema?: PayloadSchema,
+  ): this {
+    this.tools.set(name, { handler, schema });
+    return this;
+  }
+
+  /** Add an inbound middleware (allowlist, rate limit, ...), run before the tool. */
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /** Set a replay store; repeated message IDs are rejected with DUPLICATE_MESSAGE. */
+  replayStore(store: ReplayStore): this {
+    this._replayStore = store;
+    return this;
+  }
+
+  /** Override inbound size limits (see `DEFAULT_SIZE_LIMITS`). */
+  limits(limits: Partial<SizeLimits>): this {
+    this._limits = limits;
+    return this;
+  }
+
+  /** Names of the registered tools. */
+  get toolNames(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  /**
+   * Verify and answer an inbound `service/call` message. Never throws: every
+   * failure is answered as `{ error }` (see `SnapError.httpStatus()` for HTTP codes).
+   */
+  async processMessage(inbound: unknown, info?: InboundInfo): Promise<ServiceCallResponse> {
+    try {
+      return await this.dispatchMessage(inbound as SnapMessage, info);
+    } catch (err) {
+      return { error: SnapError.from(err).toJSON() };
+    }
+  }
+
+  /**
+   * Run the tool a verified `service/call` payload names. Usable as a SnapAgent
+   * handler: `agent.handle('service/call', (payload, ctx) => service.dispatch(payload, ctx))`
+   * (the agent's middleware then applies, not this service's).
+   * @throws SnapError METHOD_NOT_FOUND for an unknown tool, INVALID_PAYLOAD for bad arguments.
+   */
+  async dispatch(payload: ServiceCallRequest, context: HandlerContext): Promise<ServiceCallResponse> {
+    this.payloads.validate('service/call', payload as unknown as Record<string, unknown>);
+    const tool = this.tools.get(payload.name);
+    if (!tool) {
+      throw SnapError.toolNotFound(payload.name);
+    }
+
+    const args = payload.arguments ?? {};
+    const violations = tool.schema?.(args) ?? [];
+    if (violations.length > 0) {
+      throw SnapError.invalidPayload('Invalid arguments', violations);
+    }
+    return { result: await tool.handler(args, context) };
+  }
+
+  private async dispatchMessage(inbound: SnapMessage, info?: InboundInfo): Promise<ServiceCallResponse> {
+    // 1. Validate structure, timestamp and signature
+    MessageValidator.validate(inbound, { supportedVersions: SUPPORTED_VERSIONS, limits: this._limits });
+    if (inbound.type !== 'request') {
+      throw SnapError.invalidMessage(`Expected a request, received a ${inbound.type}`);
+    }
+
+    // 2. A message addressed to an agent must not be accepted by an identity-less service
+    if (inbound.to !== undefined) {
+      throw SnapError.invalidMessage(`service/call messages must omit \`to\`, received: ${inbound.to}`);
+    }
+    if (inbound.method !== 'service/call') {
+      throw SnapError.methodNotFound(inbound.method);
+    }
+
+    // 3. Replay check
+    if (this._replayStore) {
+      if (await this._replayStore.hasSeen(inbound.from, inbound.id, inbound.timestamp)) {
+        throw SnapError.duplicateMessage(inbound.id, inbound.from);
+      }
+      await this._replayStore.markSeen(inbound.from, inbound.id, inbound.timestamp);
+    }
+
+    // 4. Middleware wrapping the tool; middleware may answer early by setting ctx.response
+    const ctx: MiddlewareContext = {
+      message: inbound,
+      direction: 'inbound',
+      transport: info?.transport,
+      peer: { address: inbound.from, remoteAddress: info?.remoteAddress },
+      state: {},
+      startedAt: Date.now(),
+    };
+    await this.runMiddleware(ctx, async () => {
+      ctx.response = await this.dispatch(inbound.payload as unknown as ServiceCallRequest, { message: inbound }) as Record<string, unknown>;
+    });
+    if (!ctx.response) {
+      // A middleware stopped the chain without answering
+      throw SnapError.internalError();
+    }
+    return ctx.response as ServiceCallResponse;
+  }
+
+  private async runMiddleware(ctx: MiddlewareContext, terminal: () => Promise<void>): Promise<void> {
+    let index = 0;
+    let reached = false;
+
+    const next: NextFn = async () => {
+      if (index < this.middlewares.length) {
+        await this.middlewares[index++].handle(ctx, next);
+      } else if (!reached) {
+        reached = true;
+        await terminal();
+      }
+    };
+
+    await next();
+  }
+}
@@ -0,0 +1,291 @@
+import { randomUUID } from 'node:crypto';
+import type { TaskStore, TaskPage, TaskQuery } from '../types/plugin.js';
+import type { Task, InnerMessage } from '../types/task.js';
+import type { TaskState } from '../types/message.js';
+import type { HandlerContext, MethodHandler } from '../types/handler.js';
+import type {
+  MessageSendRequest,
+  MessageSendResponse,
+  TasksGetRequest,
+  TasksGetResponse,
+  TasksCancelRequest,
+  TasksCancelResponse,
+  TasksListRequest,
+  TasksListResponse,
+} from '../types/payloads.js';
+import { SnapError } from '../errors/SnapError.js';
+import { InMemoryTaskStore } from '../stores/InMemoryTaskStore.js';
+import { ValidatingTaskStore } from '../stores/ValidatingTaskStore.js';
+
+/** How new tasks are grouped into contexts. Joining needs a QueryableTaskStore. */
+export interface ContextPolicy {
+  /**
+   * A context stops taking new tasks once none of its tasks has been updated for this
+   * long, in milliseconds. Default: 1_800_000 (30 minutes). Set to 0 to never expire.
+   */
+  idleTimeout?: number;
+  /** Tasks a context may hold before new tasks start a fresh one. Default: 100. Set to 1 for one task per context. */
+  maxTasks?: number;
+  /** Most recent turns of earlier tasks passed to handlers as `context.contextHistory`. Default: 50. */
+  historyLength?: number;
+}
+
+export interface TaskManagerOptions {
+  contexts?: ContextPolicy;
+}
+
+/**
+ * Task lifecycle engine backed by a TaskStore.
+ * Creates tasks for message/send, records history turns, and serves tasks/get, tasks/cancel
+ * and tasks/list. Each task is recorded as owned by the requester that created it, and
+ * requests from anyone else get TASK_NOT_FOUND, as if the task did not exist.
+ *
+ * New tasks join the requester's most recent context while it is live under the
+ * ContextPolicy, or start a new one; handlers see the turns of the context's earlier
+ * tasks as `context.contextHistory`.
+ */
+export class TaskManager {
+  readonly store: ValidatingTaskStore;
+  private readonly contexts: ContextPolicy;
+
+  /**
+   * @param store Backing task store. Defaults to a new InMemoryTaskStore.
+   *              Always wrapped in a ValidatingTaskStore so illegal state transitions are rejected.
+   */
+  constructor(store?: TaskStore, options: TaskManagerOptions = {}) {
+    this.store = ValidatingTaskStore.wrap(store ?? new InMemoryTaskStore());
+    this.contexts = options.contexts ?? {};
+  }
+
+  /** Whether a state is terminal (completed, failed, canceled). */
+  static isTerminal(state: TaskState): boolean {
+    return ValidatingTaskStore.isTerminal(state);
+  }
+
+  /**
+   * Create a new task in the `submitted` state with the message as its first history turn.
+   * The task joins the owner's live context, if any, or gets a newly minted `contextId`.
+   * @param owner Address of the requester, recorded for `list()` when the store supports it.
+   */
+  async create(message: InnerMessage, owner?: string): Promise<Task> {
+    const task: Task = {
+      id: randomUUID(),
+      contextId: await this.assignContext(owner),
+      status: { state: 'submitted', timestamp: new Date().toISOString() },
+      history: [message],
+    };
+    return this.save(task, owner);
+  }
+
+  /**
+   * Load a task by ID.
+   * @param historyLength Max history turns to include (most recent turns are kept). 0 omits history.
+   * @throws SnapError TASK_NOT_FOUND if the task does not exist.
+   */
+  async get(taskId: string, historyLength?: number): Promise<Task> {
+    const task = await this.store.get(taskId);
+    if (!task) {
+      throw SnapError.taskNotFound(taskId);
+    }
+    return trimHistory(task, historyLength);
+  }
+
+  /**
+   * List tasks matching `query`, newest first.
+   * @param historyLength Max history turns per task, as for `get()`.
+   * @throws Error if the store is not a QueryableTaskStore.
+   */
+  async list(query?: TaskQuery, historyLength?: number): Promise<TaskPage> {
+    const page = await this.store.list(query);
+    return { ...page, tasks: page.tasks.map((task) => trimHistory(task, historyLength)) };
+  }
+
+  /**
+   * Check that `requester` may use a task (see `ValidatingTaskStore.canAccess()`).
+   * @throws SnapError TASK_NOT_FOUND otherwise, so other requesters cannot probe task IDs.
+   */
+  async authorize(taskId: string, requester: string): Promise<void> {
+    if (!(await this.store.canAccess(taskId, requester))) {
+      throw SnapError.taskNotFound(taskId);
+    }
+  }
+
+  /** Append a message turn to a task's history. */
+  async appendMessage(taskId: string, message: InnerMessage): Promise<Task> {
+    const task = await this.get(taskId);
+    return this.save({ ...task, history: [...(task.history ?? []), message] });
+  }
+
+  /** Move a task to a new state. */
+  async updateStatus(taskId: string, state: TaskState, message?: string): Promise<Task> {
+    const task = await this.get(taskId);
+    return this.save({
+      ...task,
+      status: {
+        state,
+        timestamp: new Date().toISOString(),
+        ...(message !== undefined ? { message } : {}),
+      },
+    });
+  }
+
+  /**
+   * Cancel a task.
+   * @throws SnapError TASK_NOT_FOUND or TASK_NOT_CANCELABLE (task already terminal).
+   */
+  async cancel(taskId: string): Promise<Task> {
+    const task = await this.get(taskId);
+    if (TaskManager.isTerminal(task.status.state)) {
+      throw SnapError.taskNotCancelable(taskId, task.status.state);
+    }
+    return this.updateStatus(taskId, 'canceled');
+  }
+
+  /**
+   * Run a message/send handler inside the task lifecycle.
+   *
+   * Creates a new task (or appends to `payload.taskId`), moves it to `working`,
+   * exposes it as `context.task` with its context's earlier turns as
+   * `context.contextHistory`, then merges the task returned by the handler
+   * (status, artifacts, extra history turns) back into the stored record.
+   * A handler that throws marks the task `failed` before the error propagates.
+   */
+  async run(
+    payload: MessageSendRequest,
+    context: HandlerContext,
+    handler: MethodHandler<'message/send'>,
+  ): Promise<MessageSendResponse> {
+    let task: Task;
+    if (payload.taskId) {
+      await this.authorize(payload.taskId, context.message.from);
+      // Transition first so a terminal task is rejected before its history is touched
+      await this.updateStatus(payload.taskId, 'working');
+      task = await this.appendMessage(payload.taskId, payload.message);
+    } else {
+      const created = await this.create(payload.message, context.message.from);
+      task = await this.updateStatus(created.id, 'working');
+    }
+
+    let response: MessageSendResponse;
+    try {
+      const contextHistory = await this.contextHistory(task, context.message.from);
+      response = await handler(payload, { ...context, task, contextHistory });
+    } catch (err) {
+      const current = await this.get(task.id);
+      if (!TaskManager.isTerminal(current.status.state)) {
+        await this.updateStatus(task.id, 'failed', err instanceof Error ? err.message : String(err));
+      }
+      throw err;
+    }
+
+    const stored = await this.merge(task.id, response.task);
+    return { ...response, task: stored };
+  }
+
+  /** Built-in tasks/get handler. Only the task's owner can read it. */
+  async handleGet(payload: TasksGetRequest, context: HandlerContext): Promise<TasksGetResponse> {
+    await this.authorize(payload.taskId, context.message.from);
+    return { task: await this.get(payload.taskId, payload.historyLength) };
+  }
+
+  /** Built-in tasks/cancel handler. Only the task's owner can cancel it. */
+  async handleCancel(payload: TasksCancelRequest, context: HandlerContext): Promise<TasksCancelResponse> {
+    await this.authorize(payload.taskId, context.message.from);
+    return { task: await this.cancel(payload.taskId) };
+  }
+
+  /** Built-in tasks/list handler. Lists only the tasks created for the requester. */
+  async handleList(payload: TasksListRequest, context: HandlerContext): Promise<TasksListResponse> {
+    const { historyLength, updatedAfter, updatedBefore, ...filters } = payload;
+    return this.list({
+      ...filters,
+      owner: context.message.from,
+      ...(updatedAfter !== undefined ? { updatedAfter: Date.parse(updatedAfter) } : {}),
+      ...(updatedBefore !== undefined ? { updatedBefore: Date.parse(updatedBefore) } : {}),
+    }, historyLength);
+  }
+
+  private async merge(taskId: string, returned?: Task): Promise<Task> {
+    const task = await this.get(taskId);
+    if (!returned) return task;
+
+    const history = [...(task.history ?? [])];
+    const known = new Set(history.map((m) => m.messageId));
+    for (const turn of returned.history ?? []) {
+      if (!known.has(turn.messageId)) {
+        history.push(turn);
+        known.add(turn.messageId);
+      }
+    }
+
+    return this.save({
+      ...task,
+      ...returned,
+      id: task.id,
+      // The context is assigned here, not by handlers
+      ...(task.contextId !== undefined ? { contextId: task.contextId } : {}),
+      status: returned.status ?? task.status,
+      history,
+    });
+  }
+
+  /**
+   * Context for a new task: the owner's most recent context unless it has been idle past
+   * `idleTimeout` or already holds `maxTasks` tasks, otherwise a new ID.
+   */
+  private async assignContext(owner?: string): Promise<string> {
+    if (owner === undefined || !this.store.queryable) return randomUUID();
+
+    const contextId = (await this.store.list({ owner, limit: 1 })).tasks[0]?.contextId;
+    if (contextId === undefined) return randomUUID();
+
+    const { idleTimeout = 1_800_000, maxTasks = 100 } = this.contexts;
+    if (idleTimeout > 0) {
+      const recent = await this.store.list({ owner, contextId, updatedAfter: Date.now() - idleTimeout, limit: 1 });
+      if (recent.tasks.length === 0) return randomUUID();
+    }
+    const members = await this.store.list({ owner, contextId, limit: maxTasks });
+    return members.tasks.length < maxTasks ? contextId : randomUUID();
+  }
+
+  /** History turns of the tasks created before `task` in its context, oldest first. */
+  private async contextHistory(task: Task, owner: string): Promise<InnerMessage[]> {
+    const { historyLength = 50 } = this.contexts;
+    if (task.contextId === undefined || historyLength <= 0 || !this.store.queryable) return [];
+
+    // Newest first: everything after `task` was created before it. Stop paging
+    // once the earlier tasks hold `historyLength` turns.
+    const earlier: InnerMessage[][] = [];
+    let found = false;
+    let turns = 0;
+    let cursor: string | undefined;
+    do {
+      const page = await this.store.list({ owner, contextId: task.contextId, cursor, limit: 100 });
+      for (const member of page.tasks) {
+        if (found) {
+          earlier.push(member.history ?? []);
+          turns += member.history?.length ?? 0;
+        } else {
+          found = member.id === task.id;
+        }
+      }
+      cursor = page.nextCursor;
+    } while (cursor && turns < historyLength);
+
+    return earlier.reverse().flat().slice(-historyLength);
+  }
+
+  private async save(task: Task, owner?: string): Promise<Task> {
+    await this.store.set(task.id, task, owner);
+    return (await this.store.get(task.id)) ?? task;
+  }
+}
+
+function trimHistory(task: Task, historyLength?: number): Task {
+  if (historyLength === undefined || !task.history) return task;
+  if (historyLength <= 0) {
+    const { history: _history, ...rest } = task;
+    return rest;
+  }
+  return { ...task, history: task.history.slice(-historyLength) };
+}
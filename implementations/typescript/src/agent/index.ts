@@ -1,3 +1,10 @@
 export { AgentCardBuilder } from './AgentCardBuilder.js';
 export { SnapAgent } from './SnapAgent.js';
+export { SnapService } from './SnapService.js';
+export { TaskManager } from './TaskManager.js';
+export type { ContextPolicy, TaskManagerOptions } from './TaskManager.js';
+export { Conversations } from './Conversations.js';
+export type { ConversationOptions } from './Conversations.js';
+export { DiscoveryCache } from './DiscoveryCache.js';
+export type { DiscoveredAgent } from './DiscoveryCache.js';
 export type { SnapAgentConfig } from './SnapAgent.js';
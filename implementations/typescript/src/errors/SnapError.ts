@@ -1,4 +1,8 @@
-import { ErrorCodes, type SnapErrorData } from '../types/errors.js';
+import { ErrorCodes, type SnapErrorData, type FieldViolation } from '../types/errors.js';
+import type { TransportAttempt } from '../types/transport.js';
+
+/** `data.constraint` values of `tooLarge()` errors. */
+const SIZE_CONSTRAINTS = new Set<unknown>(['maxBytes', 'maxItems']);
 
 export class SnapError extends Error {
   readonly code: number;
@@ -19,19 +23,53 @@ export class SnapError extends Error {
     };
   }
 
+  /** Rebuild a SnapError from its wire form (e.g. a response payload's `error`). */
+  static fromData(data: SnapErrorData): SnapError {
+    return new SnapError(data.code, data.message, data.data);
+  }
+
+  /** Whether a value has the SnapErrorData shape (`{ code: number, message: string }`). */
+  static isErrorData(value: unknown): value is SnapErrorData {
+    if (typeof value !== 'object' || value === null) return false;
+    const v = value as Record<string, unknown>;
+    return typeof v.code === 'number' && typeof v.message === 'string';
+  }
+
+  /** Normalize any thrown value: SnapErrors pass through, anything else becomes INTERNAL_ERROR. */
+  static from(err: unknown): SnapError {
+    return err instanceof SnapError ? err : SnapError.internalError();
+  }
+
+  /**
+   * HTTP status for an error code, per the mapping table in docs/errors.md.
+   * Pass the error `data` so size-limit rejections map to 413.
+   */
+  static httpStatus(code: number, data?: Record<string, unknown>): number {
+    if (code === ErrorCodes.INVALID_MESSAGE && SIZE_CONSTRAINTS.has(data?.constraint)) return 413;
+    if (code === ErrorCodes.UNAUTHORIZED) return 403;
+    if (code === ErrorCodes.RATE_LIMIT_EXCEEDED) return 429;
+    if (code === ErrorCodes.VERSION_NOT_SUPPORTED) return 400;
+    if (code === ErrorCodes.SERVICE_UNAVAILABLE || code === ErrorCodes.MAINTENANCE) return 503;
+    if (code >= 1000 && code < 2000) return 400;
+    if (code >= 2000 && code < 3000) return 401;
+    if (code >= 3000 && code < 4000) return 404;
+    if (code >= 4000 && code < 5000) return 502;
+    return 500;
+  }
+
   static signatureInvalid(details?: Record<string, unknown>): SnapError {
     return new SnapError(ErrorCodes.SIGNATURE_INVALID, 'Signature verification failed', details);
   }
 
-  static signatureMissing(): SnapError {
-    return new SnapError(ErrorCodes.SIGNATURE_MISSING, 'Signature is required for requests');
+  static signatureMissing(details?: Record<string, unknown>): SnapError {
+    return new SnapError(ErrorCodes.SIGNATURE_MISSING, 'Signature is required for requests', details);
   }
 
-  static timestampExpired(provided: number, serverTime: number): SnapError {
+  static timestampExpired(provided: number, serverTime: number, maxDrift = 60): SnapError {
     return new SnapError(ErrorCodes.TIMESTAMP_EXPIRED, 'Timestamp outside acceptable window', {
       provided,
       serverTime,
-      maxDrift: 60,
+      maxDrift,
     });
   }
 
@@ -39,8 +77,33 @@ export class SnapError extends Error {
     return new SnapError(ErrorCodes.INVALID_MESSAGE, reason);
   }
 
-  static invalidPayload(reason: string): SnapError {
-    return new SnapError(ErrorCodes.INVALID_PAYLOAD, reason);
+  /**
+   * A message, payload, card or list exceeds a size limit (docs/constraints.md "Size Limits").
+   * HTTP transports answer it with 413. `limit` is undefined when a peer enforced its own, unknown limit.
+   */
+  static tooLarge(
+    field: string,
+    limit: number | undefined,
+    received?: number,
+    constraint: 'maxBytes' | 'maxItems' = 'maxBytes',
+  ): SnapError {
+    const unit = constraint === 'maxBytes' ? 'bytes' : 'items';
+    const reason = limit !== undefined ? `${field} exceeds ${limit} ${unit}` : `${field} exceeds the peer's size limit`;
+    return new SnapError(ErrorCodes.INVALID_MESSAGE, reason, {
+      field,
+      constraint,
+      ...(limit !== undefined ? { expected: limit } : {}),
+      ...(received !== undefined ? { received } : {}),
+    });
+  }
+
+  /**
+   * Invalid fields (docs/constraints.md "Error Responses"). With violations, `data` is the
+   * first one (`{ field, constraint, expected, received }`) plus the full `violations` list.
+   */
+  static invalidPayload(reason: string, violations?: FieldViolation[]): SnapError {
+    if (!violations?.length) return new SnapError(ErrorCodes.INVALID_PAYLOAD, reason);
+    return new SnapError(ErrorCodes.INVALID_PAYLOAD, reason, { ...violations[0], violations });
   }
 
   static duplicateMessage(id: string, from: string): SnapError {
@@ -51,7 +114,84 @@ export class SnapError extends Error {
     return new SnapError(ErrorCodes.IDENTITY_INVALID, 'Invalid P2TR address', { address });
   }
 
+  /** A message came from, or was addressed to, someone other than expected. */
+  static identityMismatch(field: 'from' | 'to', expected: string, received: string | undefined): SnapError {
+    return new SnapError(ErrorCodes.IDENTITY_MISMATCH, 'Identity mismatch', { field, expected, received });
+  }
+
+  /** A response's `payload.inReplyTo` does not reference the request it answers. */
+  static correlationMismatch(expected: string, received: unknown): SnapError {
+    return new SnapError(ErrorCodes.INVALID_MESSAGE, 'Response does not correlate with request', {
+      field: 'payload.inReplyTo',
+      expected,
+      received,
+    });
+  }
+
+  /** The sender is authenticated but not allowed to call this method or skill. */
+  static unauthorized(from: string, method: string, skill?: string): SnapError {
+    return new SnapError(ErrorCodes.UNAUTHORIZED, 'Unauthorized', {
+      from,
+      method,
+      ...(skill !== undefined ? { skill } : {}),
+    });
+  }
+
+  /** Too many requests; `retryAfter` is in whole seconds. */
+  static rateLimitExceeded(limit: number, windowSeconds: number, retryAfter: number): SnapError {
+    return new SnapError(ErrorCodes.RATE_LIMIT_EXCEEDED, 'Rate limit exceeded', {
+      limit,
+      window: `${windowSeconds}s`,
+      retryAfter,
+    });
+  }
+
+  static agentNotFound(identity: string): SnapError {
+    return new SnapError(ErrorCodes.AGENT_NOT_FOUND, 'Agent not found', { identity });
+  }
+
+  static versionNotSupported(requested: string, supported: readonly string[]): SnapError {
+    return new SnapError(ErrorCodes.VERSION_NOT_SUPPORTED, 'Version not supported', {
+      requested,
+      supported: [...supported],
+    });
+  }
+
+  /** Every declared route failed; `attempts` lists each try in order. */
+  static transportUnavailable(attempts: TransportAttempt[]): SnapError {
+    return new SnapError(ErrorCodes.TRANSPORT_UNAVAILABLE, 'No transport available', {
+      tried: [...new Set(attempts.map((a) => a.protocol))],
+      attempts,
+    });
+  }
+
   static methodNotFound(method: string): SnapError {
     return new SnapError(ErrorCodes.METHOD_NOT_FOUND, `Method not found: ${method}`, { method });
   }
+
+  /** A service/call naming a tool the service does not provide. */
+  static toolNotFound(name: string): SnapError {
+    return new SnapError(ErrorCodes.METHOD_NOT_FOUND, `Tool not found: ${name}`, { method: 'service/call', name });
+  }
+
+  static internalError(): SnapError {
+    return new SnapError(ErrorCodes.INTERNAL_ERROR, 'Internal error');
+  }
+
+  static taskNotFound(taskId: string): SnapError {
+    return new SnapError(ErrorCodes.TASK_NOT_FOUND, 'Task not found', { taskId });
+  }
+
+  static invalidTaskTransition(taskId: string, from: string, to: string): SnapError {
+    return new SnapError(ErrorCodes.INVALID_TASK_STATE, `Invalid task state transition: ${from} -> ${to}`, { taskId, from, to });
+  }
+
+  /** A write moving a task into a context whose tasks belong to another requester. */
+  static contextNotOwned(taskId: string, contextId: string): SnapError {
+    return new SnapError(ErrorCodes.INVALID_PAYLOAD, 'Context belongs to another requester', { taskId, contextId });
+  }
+
+  static taskNotCancelable(taskId: string, state: string): SnapError {
+    return new SnapError(ErrorCodes.TASK_NOT_CANCELABLE, `Task cannot be canceled in state: ${state}`, { taskId, state });
+  }
 }
@@ -8,7 +8,17 @@ export type { SignResult, SignOptions } from './crypto/Signer.js';
 export { MessageBuilder } from './messaging/MessageBuilder.js';
 export { MessageSigner } from './messaging/MessageSigner.js';
 export { MessageValidator } from './messaging/MessageValidator.js';
-export type { ValidationOptions, ValidationResult } from './messaging/MessageValidator.js';
+export { PayloadValidator } from './messaging/PayloadValidator.js';
+export type { PayloadSchema } from './messaging/PayloadValidator.js';
+export { ProtocolVersion, PROTOCOL_VERSION, SUPPORTED_VERSIONS } from './messaging/ProtocolVersion.js';
+export { DEFAULT_SIZE_LIMITS, sizeLimits, jsonByteLength } from './messaging/SizeLimits.js';
+export type { SizeLimits } from './messaging/SizeLimits.js';
+export type {
+  ValidationOptions,
+  ValidationResult,
+  ResponseSignatureLevel,
+  ResponseValidationOptions,
+} from './messaging/MessageValidator.js';
 
 // Errors
 export { SnapError } from './errors/SnapError.js';
@@ -36,7 +46,7 @@ export type {
   SigningIntermediates,
 } from './types/message.js';
 
-export type { SnapErrorData, ErrorCode } from './types/errors.js';
+export type { SnapErrorData, ErrorCode, FieldViolation } from './types/errors.js';
 export { ErrorCodes } from './types/errors.js';
 
 export type {
@@ -44,10 +54,16 @@ export type {
   TransportPlugin,
   TransportSendOptions,
   ReplayStore,
+  ResponseStore,
   TaskStore,
+  QueryableTaskStore,
+  TaskQuery,
+  TaskPage,
   Middleware,
   MiddlewareContext,
   NextFn,
+  PeerInfo,
+  InboundInfo,
 } from './types/plugin.js';
 
 export type {
@@ -87,28 +103,66 @@ export type {
   TasksGetResponse,
   TasksCancelRequest,
   TasksCancelResponse,
+  TasksListRequest,
+  TasksListResponse,
+  ServiceCallRequest,
+  ServiceCallResponse,
 } from './types/payloads.js';
 
 export type {
   MethodPayloadMap,
+  MethodTypes,
+  MethodMap,
+  MethodRequest,
+  MethodResponse,
   HandlerContext,
   MethodHandler,
   StreamMethodHandler,
+  ToolHandler,
+  ConversationContext,
+  ConversationHandler,
 } from './types/handler.js';
 
 export type {
   StreamTransportPlugin,
+  RouteProtocol,
+  TransportAttempt,
   TaskProgressEvent,
   TaskArtifactEvent,
 } from './types/transport.js';
 
 // Stores
 export { InMemoryReplayStore } from './stores/InMemoryReplayStore.js';
+export type { InMemoryReplayStoreOptions } from './stores/InMemoryReplayStore.js';
+export { InMemoryResponseStore } from './stores/InMemoryResponseStore.js';
+export type { InMemoryResponseStoreOptions } from './stores/InMemoryResponseStore.js';
 export { InMemoryTaskStore } from './stores/InMemoryTaskStore.js';
+export { FileTaskStore } from './stores/FileTaskStore.js';
+export type { FileTaskStoreOptions } from './stores/FileTaskStore.js';
+export { FileReplayStore } from './stores/FileReplayStore.js';
+export type { FileReplayStoreOptions } from './stores/FileReplayStore.js';
+export { ValidatingTaskStore } from './stores/ValidatingTaskStore.js';
+export { ScopedTaskStore } from './stores/ScopedTaskStore.js';
+
+// Middleware
+export { Allowlist } from './middleware/Allowlist.js';
+export type { AllowlistEntry, AllowlistConfig, AllowlistFileOptions } from './middleware/Allowlist.js';
+export { AllowlistMiddleware } from './middleware/AllowlistMiddleware.js';
+export { RateLimitMiddleware } from './middleware/RateLimitMiddleware.js';
+export type { RateLimitConfig, RateLimitAlgorithm } from './middleware/RateLimitMiddleware.js';
+export { RequestVerifier } from './middleware/RequestVerifier.js';
+export type { RequestVerifierConfig, VerifiedSender, VerifiedRequest, FastifyRequestLike, FastifyReplyLike } from './middleware/RequestVerifier.js';
 
 // Agent
 export { AgentCardBuilder } from './agent/AgentCardBuilder.js';
 export { SnapAgent } from './agent/SnapAgent.js';
+export { SnapService } from './agent/SnapService.js';
+export { TaskManager } from './agent/TaskManager.js';
+export type { ContextPolicy, TaskManagerOptions } from './agent/TaskManager.js';
+export { Conversations } from './agent/Conversations.js';
+export type { ConversationOptions } from './agent/Conversations.js';
+export { DiscoveryCache } from './agent/DiscoveryCache.js';
+export type { DiscoveredAgent } from './agent/DiscoveryCache.js';
 export type { SnapAgentConfig } from './agent/SnapAgent.js';
 
 // Transports
@@ -120,3 +174,6 @@ export type { WebSocketTransportConfig } from './transport/WebSocketTransport.js
 
 export { NostrTransport, SNAP_MESSAGE_KIND, SNAP_EPHEMERAL_MESSAGE_KIND, SNAP_AGENT_CARD_KIND } from './transport/NostrTransport.js';
 export type { NostrTransportConfig, AgentDiscoveryFilter } from './transport/NostrTransport.js';
+
+export { TransportRouter, DEFAULT_RETRY_POLICY } from './transport/TransportRouter.js';
+export type { TransportRouterConfig, RetryPolicy, Route } from './transport/TransportRouter.js';
@@ -1,9 +1,10 @@
 import type { UnsignedMessage, MessageType, MethodName } from '../types/message.js';
 import type { P2TRAddress } from '../types/keys.js';
+import { PROTOCOL_VERSION } from './ProtocolVersion.js';
 
 export class MessageBuilder {
   private _id?: string;
-  private _version: string = '0.1';
+  private _version: string = PROTOCOL_VERSION;
   private _from?: P2TRAddress;
   private _to?: P2TRAddress;
   private _type: MessageType = 'request';
@@ -2,6 +2,10 @@ import { Signer } from '../crypto/Signer.js';
 import { KeyManager } from '../crypto/KeyManager.js';
 import { SnapError } from '../errors/SnapError.js';
 import type { SnapMessage } from '../types/message.js';
+import type { FieldViolation } from '../types/errors.js';
+import { SUPPORTED_VERSIONS } from './ProtocolVersion.js';
+import { sizeLimits, jsonByteLength, type SizeLimits } from './SizeLimits.js';
+import type { AgentCard } from '../types/agent-card.js';
 
 export interface ValidationOptions {
   /** Skip timestamp check (useful for test vectors with fixed timestamps). */
@@ -10,11 +14,43 @@ export interface ValidationOptions {
   maxClockDrift?: number;
   /** Skip replay check. Default: false. */
   skipReplayCheck?: boolean;
+  /** Accepted protocol versions. Default: every version this SDK supports. */
+  supportedVersions?: readonly string[];
+  /** Size limits, merged over `DEFAULT_SIZE_LIMITS`. */
+  limits?: Partial<SizeLimits>;
 }
 
+/**
+ * How strictly a requester checks response signatures (docs/authentication.md "Signature Levels").
+ * - `required`: every response and stream event must carry a valid `sig`.
+ * - `optional`: unsigned responses are accepted (TLS only); an invalid `sig` is rejected.
+ * - `off`: responses are not verified at all.
+ */
+export type ResponseSignatureLevel = 'required' | 'optional' | 'off';
+
+export interface ResponseValidationOptions {
+  /** Address the request was sent to; the response must come from it. */
+  expectedFrom: string;
+  /** Our own address; a response `to`, when present, must match it. */
+  expectedTo: string;
+  /**
+   * ID of the request being answered. When set, `payload.inReplyTo` must equal it;
+   * a missing reference is only rejected at the `required` level.
+   */
+  requestId?: string;
+  /** Signature level. Default: 'optional'. */
+  signatures?: ResponseSignatureLevel;
+  /** Custom max clock drift in seconds. Default: 60. */
+  maxClockDrift?: number;
+}
+
+/** Outcome of `MessageValidator.check()`. */
 export interface ValidationResult {
   valid: boolean;
+  /** The error `validate()` would throw. */
   error?: SnapError;
+  /** Every invalid field found; empty when valid or when the failure is not field-level (e.g. a bad signature). */
+  violations: FieldViolation[];
 }
 
 const P2TR_PATTERN = /^(bc1p|tb1p)[a-z0-9]{58}$/;
@@ -29,29 +65,101 @@ export class MessageValidator {
    * Does NOT verify signature.
    */
   static validateStructure(message: unknown): message is SnapMessage {
-    if (typeof message !== 'object' || message === null) return false;
+    return MessageValidator.structureViolations(message).length === 0;
+  }
+
+  /**
+   * Every structural violation in a message (required fields, types, patterns),
+   * in the `{ field, constraint, expected, received }` shape. Empty if valid.
+   */
+  static structureViolations(message: unknown): FieldViolation[] {
+    if (typeof message !== 'object' || message === null) {
+      return [{ field: 'message', constraint: 'type', expected: 'object', received: typeName(message) }];
+    }
 
     const msg = message as Record<string, unknown>;
+    const violations: FieldViolation[] = [];
+
+    checkString(violations, msg, 'id', MESSAGE_ID_PATTERN);
+    checkString(violations, msg, 'version');
+    checkString(violations, msg, 'from', P2TR_PATTERN);
+    if (msg.to !== undefined) checkString(violations, msg, 'to', P2TR_PATTERN);
+    if (checkString(violations, msg, 'type') && !VALID_TYPES.has(msg.type as string)) {
+      violations.push({ field: 'type', constraint: 'enum', expected: [...VALID_TYPES], received: msg.type });
+    }
+    checkString(violations, msg, 'method', METHOD_PATTERN);
+
+    if (msg.payload === undefined) {
+      violations.push({ field: 'payload', constraint: 'required', expected: 'object' });
+    } else if (typeof msg.payload !== 'object' || msg.payload === null) {
+      violations.push({ field: 'payload', constraint: 'type', expected: 'object', received: typeName(msg.payload) });
+    }
 
-    // Required fields
-    if (typeof msg.id !== 'string' || !MESSAGE_ID_PATTERN.test(msg.id)) return false;
-    if (typeof msg.version !== 'string') return false;
-    if (typeof msg.from !== 'string' || !P2TR_PATTERN.test(msg.from)) return false;
-    if (msg.to !== undefined && (typeof msg.to !== 'string' || !P2TR_PATTERN.test(msg.to))) return false;
-    if (typeof msg.type !== 'string' || !VALID_TYPES.has(msg.type)) return false;
-    if (typeof msg.method !== 'string' || !METHOD_PATTERN.test(msg.method)) return false;
-    if (typeof msg.payload !== 'object' || msg.payload === null) return false;
-    if (typeof msg.timestamp !== 'number' || !Number.isInteger(msg.timestamp) || msg.timestamp < 0)
-      return false;
+    if (msg.timestamp === undefined) {
+      violations.push({ field: 'timestamp', constraint: 'required', expected: 'integer' });
+    } else if (typeof msg.timestamp !== 'number' || !Number.isInteger(msg.timestamp)) {
+      violations.push({ field: 'timestamp', constraint: 'type', expected: 'integer', received: msg.timestamp });
+    } else if (msg.timestamp < 0) {
+      violations.push({ field: 'timestamp', constraint: 'minimum', expected: 0, received: msg.timestamp });
+    }
 
     // sig: required for requests, optional for responses
-    if (msg.type === 'request') {
-      if (typeof msg.sig !== 'string' || !SIG_PATTERN.test(msg.sig)) return false;
-    } else if (msg.sig !== undefined) {
-      if (typeof msg.sig !== 'string' || !SIG_PATTERN.test(msg.sig)) return false;
+    if (msg.type === 'request' || msg.sig !== undefined) {
+      checkString(violations, msg, 'sig', SIG_PATTERN);
     }
 
-    return true;
+    return violations;
+  }
+
+  /**
+   * Non-throwing `validate()`: the same checks, reporting every structural
+   * violation at once instead of failing on the first.
+   */
+  static check(message: unknown, options?: ValidationOptions): ValidationResult {
+    try {
+      MessageValidator.validate(message, options);
+      return { valid: true, violations: [] };
+    } catch (err) {
+      const error = SnapError.from(err);
+      return { valid: false, error, violations: violationsOf(error) };
+    }
+  }
+
+  /**
+   * Check a message against the size limits: serialized message and payload bytes,
+   * and the number of `parts`, `artifacts` and `skills` anywhere in the payload.
+   * @throws SnapError INVALID_MESSAGE (`data.constraint` `maxBytes` / `maxItems`).
+   */
+  static validateSize(message: unknown, limits?: Partial<SizeLimits>): void {
+    const max = sizeLimits(limits);
+    const messageBytes = jsonByteLength(message);
+    if (messageBytes > max.maxMessageBytes) {
+      throw SnapError.tooLarge('message', max.maxMessageBytes, messageBytes);
+    }
+
+    const payload = (message as { payload?: unknown } | null)?.payload;
+    if (typeof payload !== 'object' || payload === null) return;
+
+    const payloadBytes = jsonByteLength(payload);
+    if (payloadBytes > max.maxPayloadBytes) {
+      throw SnapError.tooLarge('payload', max.maxPayloadBytes, payloadBytes);
+    }
+    checkListSizes(payload, 'payload', max, 0);
+  }
+
+  /**
+   * Check an AgentCard against the card size and skill count limits.
+   * @throws SnapError INVALID_MESSAGE (`data.constraint` `maxBytes` / `maxItems`).
+   */
+  static validateCardSize(card: AgentCard, limits?: Partial<SizeLimits>): void {
+    const max = sizeLimits(limits);
+    const cardBytes = jsonByteLength(card);
+    if (cardBytes > max.maxCardBytes) {
+      throw SnapError.tooLarge('card', max.maxCardBytes, cardBytes);
+    }
+    if (Array.isArray(card.skills) && card.skills.length > max.maxSkills) {
+      throw SnapError.tooLarge('card.skills', max.maxSkills, card.skills.length, 'maxItems');
+    }
   }
 
   /**
@@ -64,22 +172,30 @@ export class MessageValidator {
   }
 
   /**
-   * Full validation: structure + signature + optional timestamp.
-   * @throws SnapError on failure.
+   * Full validation: size + structure + version + signature + optional timestamp.
+   * @throws SnapError on failure (INVALID_PAYLOAD lists every invalid field in `data.violations`;
+   *         VERSION_NOT_SUPPORTED lists the accepted versions).
    */
   static validate(message: unknown, options?: ValidationOptions): void {
+    MessageValidator.validateSize(message, options?.limits);
+
     if (!MessageValidator.validateStructure(message)) {
-      throw SnapError.invalidMessage('Message structure validation failed');
+      throw SnapError.invalidPayload('Message structure validation failed', MessageValidator.structureViolations(message));
     }
 
     const msg = message as SnapMessage;
 
+    const supported = options?.supportedVersions ?? SUPPORTED_VERSIONS;
+    if (!supported.includes(msg.version)) {
+      throw SnapError.versionNotSupported(msg.version, supported);
+    }
+
     // Timestamp check
     if (!options?.skipTimestampCheck) {
       const maxDrift = options?.maxClockDrift ?? 60;
       const now = Math.floor(Date.now() / 1000);
       if (Math.abs(now - msg.timestamp) > maxDrift) {
-        throw SnapError.timestampExpired(msg.timestamp, now);
+        throw SnapError.timestampExpired(msg.timestamp, now, maxDrift);
       }
     }
 
@@ -92,4 +208,114 @@ export class MessageValidator {
       throw SnapError.signatureMissing();
     }
   }
+
+  /**
+   * Verify a response or stream event received for one of our requests:
+   * structure, sender and recipient identity, correlation with the request,
+   * freshness, and signature according to the configured level.
+   * A no-op when the level is `off`.
+   * @throws SnapError IDENTITY_MISMATCH, SIGNATURE_INVALID, SIGNATURE_MISSING,
+   *         TIMESTAMP_EXPIRED or INVALID_MESSAGE.
+   */
+  static validateResponse(message: unknown, options: ResponseValidationOptions): void {
+    const level = options.signatures ?? 'optional';
+    if (level === 'off') return;
+
+    if (!MessageValidator.validateStructure(message)) {
+      throw SnapError.invalidPayload('Response structure validation failed', MessageValidator.structureViolations(message));
+    }
+    if (message.type === 'request') {
+      throw SnapError.invalidMessage('Expected a response, received a request');
+    }
+
+    if (message.from !== options.expectedFrom) {
+      throw SnapError.identityMismatch('from', options.expectedFrom, message.from);
+    }
+    if (message.to !== undefined && message.to !== options.expectedTo) {
+      throw SnapError.identityMismatch('to', options.expectedTo, message.to);
+    }
+
+    if (options.requestId !== undefined) {
+      const inReplyTo = message.payload.inReplyTo;
+      if (inReplyTo !== undefined ? inReplyTo !== options.requestId : level === 'required') {
+        throw SnapError.correlationMismatch(options.requestId, inReplyTo);
+      }
+    }
+
+    const maxDrift = options.maxClockDrift ?? 60;
+    const now = Math.floor(Date.now() / 1000);
+    if (Math.abs(now - message.timestamp) > maxDrift) {
+      throw SnapError.timestampExpired(message.timestamp, now, maxDrift);
+    }
+
+    if (message.sig) {
+      if (!MessageValidator.verifySignature(message)) {
+        throw SnapError.signatureInvalid({ field: 'sig', reason: 'signature does not match response' });
+      }
+    } else if (level === 'required') {
+      throw SnapError.signatureMissing({ required: true });
+    }
+  }
+}
+
+/** List fields with a maximum length, by the key they appear under. */
+const LIST_LIMITS = { parts: 'maxParts', artifacts: 'maxArtifacts', skills: 'maxSkills' } as const;
+
+/** Payloads deeper than this are not walked further (docs/constraints.md caps depth at 10). */
+const MAX_WALK_DEPTH = 32;
+
+function checkListSizes(value: unknown, path: string, max: SizeLimits, depth: number): void {
+  if (typeof value !== 'object' || value === null || depth > MAX_WALK_DEPTH) return;
+
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => checkListSizes(item, `${path}[${i}]`, max, depth + 1));
+    return;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    const field = `${path}.${key}`;
+    if (Array.isArray(child) && key in LIST_LIMITS) {
+      const limit = max[LIST_LIMITS[key as keyof typeof LIST_LIMITS]];
+      if (child.length > limit) {
+        throw SnapError.tooLarge(field, limit, child.length, 'maxItems');
+      }
+    }
+    checkListSizes(child, field, max, depth + 1);
+  }
+}
+
+/** JSON type name of a value, for `received` in type violations. */
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/** Check a required string field and its pattern. Returns true if it is a string. */
+function checkString(
+  violations: FieldViolation[],
+  msg: Record<string, unknown>,
+  field: string,
+  pattern?: RegExp,
+): boolean {
+  const value = msg[field];
+  if (value === undefined) {
+    violations.push({ field, constraint: 'required', expected: 'string' });
+    return false;
+  }
+  if (typeof value !== 'string') {
+    violations.push({ field, constraint: 'type', expected: 'string', received: typeName(value) });
+    return false;
+  }
+  if (pattern && !pattern.test(value)) {
+    violations.push({ field, constraint: 'pattern', expected: pattern.source, received: value });
+  }
+  return true;
+}
+
+/** Field violations carried by an error: its `data.violations`, or its own `data` if field-shaped. */
+function violationsOf(error: SnapError): FieldViolation[] {
+  const data = error.data;
+  if (Array.isArray(data?.violations)) return data.violations as FieldViolation[];
+  if (typeof data?.field === 'string' && typeof data.constraint === 'string') return [data as unknown as FieldViolation];
+  return [];
 }
@@ -0,0 +1,311 @@
+import { SnapError } from '../errors/SnapError.js';
+import type { FieldViolation } from '../types/errors.js';
+
+/**
+ * Validates a request payload for one method and returns every violation
+ * (field paths start at `payload`). Empty means valid.
+ */
+export type PayloadSchema = (payload: Record<string, unknown>) => FieldViolation[];
+
+/** Rules for a string field, mirroring the JSON Schema keywords in `schemas/`. */
+interface StringRule {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  enum?: readonly string[];
+  /** JSON Schema `format: uri`. */
+  uri?: boolean;
+}
+
+const ID: StringRule = { minLength: 1, maxLength: 128, pattern: /^[a-zA-Z0-9_-]+$/ };
+const MEDIA_TYPE: StringRule = { maxLength: 128, pattern: /^[a-z]+\/[a-z0-9_.+-]+$/ };
+const ISO8601: StringRule = { pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/ };
+const TASK_STATES = ['submitted', 'working', 'input_required', 'completed', 'failed', 'canceled'] as const;
+const PART_VARIANTS = ['text', 'raw', 'url', 'data'] as const;
+const MAX_ITEMS = 100;
+
+/**
+ * Payload validation against the JSON Schemas in `schemas/` (payloads/ and types/),
+ * hand-written so the SDK needs no schema engine. Every method in `MethodPayloadMap`
+ * has a built-in request schema; `register()` adds or replaces one for any method.
+ * Methods without a schema are not checked.
+ */
+export class PayloadValidator {
+  private readonly schemas = new Map<string, PayloadSchema>(STANDARD_SCHEMAS);
+
+  /** Register (or replace) the request schema for a method. */
+  register(method: string, schema: PayloadSchema): this {
+    this.schemas.set(method, schema);
+    return this;
+  }
+
+  has(method: string): boolean {
+    return this.schemas.has(method);
+  }
+
+  /** Every violation in a request payload; empty if valid or if the method has no schema. */
+  violations(method: string, payload: Record<string, unknown>): FieldViolation[] {
+    return this.schemas.get(method)?.(payload) ?? [];
+  }
+
+  /**
+   * Check a request payload.
+   * @throws SnapError INVALID_PAYLOAD with the violations (see `SnapError.invalidPayload()`).
+   */
+  validate(method: string, payload: Record<string, unknown>): void {
+    const violations = this.violations(method, payload);
+    if (violations.length > 0) {
+      throw SnapError.invalidPayload('Invalid payload', violations);
+    }
+  }
+
+  /** Violations in a Part: exactly one of text/raw/url/data, `mediaType` required with raw. */
+  static part(value: unknown, field = 'part'): FieldViolation[] {
+    const out: FieldViolation[] = [];
+    checkPart(out, value, field);
+    return out;
+  }
+
+  /** Violations in an InnerMessage (one conversation turn). */
+  static innerMessage(value: unknown, field = 'message'): FieldViolation[] {
+    const out: FieldViolation[] = [];
+    checkInnerMessage(out, value, field);
+    return out;
+  }
+
+  /** Violations in an Artifact. */
+  static artifact(value: unknown, field = 'artifact'): FieldViolation[] {
+    const out: FieldViolation[] = [];
+    checkArtifact(out, value, field);
+    return out;
+  }
+
+  /** Violations in a Task, including its status, artifacts and history. */
+  static task(value: unknown, field = 'task'): FieldViolation[] {
+    const out: FieldViolation[] = [];
+    checkTask(out, value, field);
+    return out;
+  }
+}
+
+// --- Standard method schemas (schemas/payloads/*.request.schema.json) ---
+
+function messageSend(payload: Record<string, unknown>): FieldViolation[] {
+  const out: FieldViolation[] = [];
+  if (!checkObject(out, payload, 'payload', { message: 'object' }, ['taskId', 'idempotencyKey'])) return out;
+  checkInnerMessage(out, payload.message, 'payload.message');
+  if (payload.taskId !== undefined) checkString(out, payload.taskId, 'payload.taskId', ID);
+  if (payload.idempotencyKey !== undefined) checkString(out, payload.idempotencyKey, 'payload.idempotencyKey', ID);
+  return out;
+}
+
+function tasksGet(payload: Record<string, unknown>): FieldViolation[] {
+  const out: FieldViolation[] = [];
+  if (!checkObject(out, payload, 'payload', { taskId: 'string' }, ['historyLength'])) return out;
+  checkString(out, payload.taskId, 'payload.taskId', ID);
+  if (payload.historyLength !== undefined) checkInteger(out, payload.historyLength, 'payload.historyLength', 0, 1000);
+  return out;
+}
+
+function tasksCancel(payload: Record<string, unknown>): FieldViolation[] {
+  const out: FieldViolation[] = [];
+  if (!checkObject(out, payload, 'payload', { taskId: 'string' }, [])) return out;
+  checkString(out, payload.taskId, 'payload.taskId', ID);
+  return out;
+}
+
+function tasksList(payload: Record<string, unknown>): FieldViolation[] {
+  const out: FieldViolation[] = [];
+  const optional = ['state', 'contextId', 'updatedAfter', 'updatedBefore', 'limit', 'cursor', 'historyLength'];
+  if (!checkObject(out, payload, 'payload', {}, optional)) return out;
+  if (Array.isArray(payload.state)) {
+    if (checkArray(out, payload.state, 'payload.state', 1, TASK_STATES.length)) {
+      payload.state.forEach((state, i) => checkString(out, state, `payload.state[${i}]`, { enum: TASK_STATES }));
+    }
+  } else if (payload.state !== undefined) {
+    checkString(out, payload.state, 'payload.state', { enum: TASK_STATES });
+  }
+  if (payload.contextId !== undefined) checkString(out, payload.contextId, 'payload.contextId', ID);
+  if (payload.updatedAfter !== undefined) checkString(out, payload.updatedAfter, 'payload.updatedAfter', ISO8601);
+  if (payload.updatedBefore !== undefined) checkString(out, payload.updatedBefore, 'payload.updatedBefore', ISO8601);
+  if (payload.limit !== undefined) checkInteger(out, payload.limit, 'payload.limit', 1, 100);
+  if (payload.cursor !== undefined) checkString(out, payload.cursor, 'payload.cursor', { minLength: 1, maxLength: 512 });
+  if (payload.historyLength !== undefined) checkInteger(out, payload.historyLength, 'payload.historyLength', 0, 1000);
+  return out;
+}
+
+function serviceCall(payload: Record<string, unknown>): FieldViolation[] {
+  const out: FieldViolation[] = [];
+  if (!checkObject(out, payload, 'payload', { name: 'string' }, ['arguments'])) return out;
+  checkString(out, payload.name, 'payload.name', { minLength: 1 });
+  if (payload.arguments !== undefined) checkObject(out, payload.arguments, 'payload.arguments', {}, undefined);
+  return out;
+}
+
+const STANDARD_SCHEMAS: ReadonlyArray<[string, PayloadSchema]> = [
+  ['message/send', messageSend],
+  ['message/stream', messageSend],
+  ['tasks/get', tasksGet],
+  ['tasks/cancel', tasksCancel],
+  ['tasks/resubscribe', tasksGet],
+  ['tasks/list', tasksList],
+  ['service/call', serviceCall],
+];
+
+// --- Types (schemas/types/*.schema.json) ---
+
+function checkPart(out: FieldViolation[], value: unknown, field: string): void {
+  if (!checkObject(out, value, field, {}, [...PART_VARIANTS, 'mediaType'])) return;
+
+  const present = PART_VARIANTS.filter((key) => value[key] !== undefined);
+  if (present.length !== 1) {
+    out.push({ field, constraint: 'oneOf', expected: [...PART_VARIANTS], received: present });
+  }
+
+  if (value.text !== undefined) checkString(out, value.text, `${field}.text`, { maxLength: 10_485_760 });
+  if (value.raw !== undefined) {
+    checkString(out, value.raw, `${field}.raw`, { maxLength: 14_000_000 });
+    if (value.mediaType === undefined) {
+      out.push({ field: `${field}.mediaType`, constraint: 'required', expected: 'string' });
+    }
+  }
+  if (value.url !== undefined) checkString(out, value.url, `${field}.url`, { maxLength: 2048, uri: true });
+  if (value.data !== undefined) checkObject(out, value.data, `${field}.data`, {}, undefined);
+  if (value.mediaType !== undefined) checkString(out, value.mediaType, `${field}.mediaType`, MEDIA_TYPE);
+}
+
+function checkInnerMessage(out: FieldViolation[], value: unknown, field: string): void {
+  if (!checkObject(out, value, field, { messageId: 'string', role: 'string', parts: 'array' }, [])) return;
+  checkString(out, value.messageId, `${field}.messageId`, ID);
+  checkString(out, value.role, `${field}.role`, { enum: ['user', 'agent'] });
+  checkParts(out, value.parts, `${field}.parts`);
+}
+
+function checkArtifact(out: FieldViolation[], value: unknown, field: string): void {
+  // `partial` is not in the schema but marks streamed artifact chunks (types/artifact.ts)
+  if (!checkObject(out, value, field, { artifactId: 'string', parts: 'array' }, ['name', 'partial'])) return;
+  checkString(out, value.artifactId, `${field}.artifactId`, ID);
+  if (value.name !== undefined) checkString(out, value.name, `${field}.name`, { minLength: 1, maxLength: 256 });
+  if (value.partial !== undefined && typeof value.partial !== 'boolean') {
+    out.push({ field: `${field}.partial`, constraint: 'type', expected: 'boolean', received: typeName(value.partial) });
+  }
+  checkParts(out, value.parts, `${field}.parts`);
+}
+
+function checkTask(out: FieldViolation[], value: unknown, field: string): void {
+  if (!checkObject(out, value, field, { id: 'string', status: 'object' }, ['contextId', 'artifacts', 'history'])) return;
+  checkString(out, value.id, `${field}.id`, ID);
+  if (value.contextId !== undefined) checkString(out, value.contextId, `${field}.contextId`, ID);
+
+  const status = value.status;
+  if (checkObject(out, status, `${field}.status`, { state: 'string', timestamp: 'string' }, ['message'])) {
+    checkString(out, status.state, `${field}.status.state`, { enum: TASK_STATES });
+    checkString(out, status.timestamp, `${field}.status.timestamp`, ISO8601);
+    if (status.message !== undefined) checkString(out, status.message, `${field}.status.message`, { maxLength: 1024 });
+  }
+
+  if (value.artifacts !== undefined && checkArray(out, value.artifacts, `${field}.artifacts`, 0, MAX_ITEMS)) {
+    value.artifacts.forEach((artifact, i) => checkArtifact(out, artifact, `${field}.artifacts[${i}]`));
+  }
+  if (value.history !== undefined && checkArray(out, value.history, `${field}.history`, 0, Infinity)) {
+    value.history.forEach((message, i) => checkInnerMessage(out, message, `${field}.history[${i}]`));
+  }
+}
+
+function checkParts(out: FieldViolation[], value: unknown, field: string): void {
+  if (checkArray(out, value, field, 1, MAX_ITEMS)) {
+    value.forEach((part, i) => checkPart(out, part, `${field}[${i}]`));
+  }
+}
+
+// --- Keyword checks ---
+
+/**
+ * Check an object, its required properties (name → expected type) and, unless
+ * `optional` is undefined, `additionalProperties: false`. Returns true if the value is an object.
+ */
+function checkObject(
+  out: FieldViolation[],
+  value: unknown,
+  field: string,
+  required: Record<string, string>,
+  optional: readonly string[] | undefined,
+): value is Record<string, unknown> {
+  if (value === undefined) return false; // reported by the parent as `required`
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    out.push({ field, constraint: 'type', expected: 'object', received: typeName(value) });
+    return false;
+  }
+
+  const obj = value as Record<string, unknown>;
+  for (const [key, type] of Object.entries(required)) {
+    if (obj[key] === undefined) out.push({ field: `${field}.${key}`, constraint: 'required', expected: type });
+  }
+  if (optional) {
+    const allowed = [...Object.keys(required), ...optional];
+    for (const key of Object.keys(obj)) {
+      if (!allowed.includes(key)) {
+        out.push({ field: `${field}.${key}`, constraint: 'additionalProperties', expected: allowed, received: key });
+      }
+    }
+  }
+  return true;
+}
+
+function checkString(out: FieldViolation[], value: unknown, field: string, rule: StringRule = {}): void {
+  if (value === undefined) return; // reported by the parent as `required`
+  if (typeof value !== 'string') {
+    out.push({ field, constraint: 'type', expected: 'string', received: typeName(value) });
+    return;
+  }
+  if (rule.enum && !rule.enum.includes(value)) {
+    out.push({ field, constraint: 'enum', expected: [...rule.enum], received: value });
+  }
+  if (rule.minLength !== undefined && value.length < rule.minLength) {
+    out.push({ field, constraint: 'minLength', expected: rule.minLength, received: value.length });
+  }
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    out.push({ field, constraint: 'maxLength', expected: rule.maxLength, received: value.length });
+  } else if (rule.pattern && !rule.pattern.test(value)) {
+    out.push({ field, constraint: 'pattern', expected: rule.pattern.source, received: value });
+  }
+  if (rule.uri && !URL.canParse(value)) {
+    out.push({ field, constraint: 'format', expected: 'uri', received: value });
+  }
+}
+
+function checkInteger(out: FieldViolation[], value: unknown, field: string, minimum: number, maximum: number): void {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    out.push({ field, constraint: 'type', expected: 'integer', received: value });
+  } else if (value < minimum) {
+    out.push({ field, constraint: 'minimum', expected: minimum, received: value });
+  } else if (value > maximum) {
+    out.push({ field, constraint: 'maximum', expected: maximum, received: value });
+  }
+}
+
+function checkArray(
+  out: FieldViolation[],
+  value: unknown,
+  field: string,
+  minItems: number,
+  maxItems: number,
+): value is unknown[] {
+  if (!Array.isArray(value)) {
+    // undefined is reported by the parent as `required`
+    if (value !== undefined) out.push({ field, constraint: 'type', expected: 'array', received: typeName(value) });
+    return false;
+  }
+  if (value.length < minItems) {
+    out.push({ field, constraint: 'minItems', expected: minItems, received: value.length });
+  } else if (value.length > maxItems) {
+    out.push({ field, constraint: 'maxItems', expected: maxItems, received: value.length });
+  }
+  return true;
+}
+
+/** JSON type name of a value, for `received` in type violations. */
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
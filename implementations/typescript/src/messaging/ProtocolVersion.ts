@@ -0,0 +1,33 @@
+import type { AgentCard } from '../types/agent-card.js';
+
+/** Protocol version this SDK sends by default. */
+export const PROTOCOL_VERSION = '0.1';
+
+/** Every protocol version this SDK understands. */
+export const SUPPORTED_VERSIONS: readonly string[] = ['0.1'];
+
+/** `MAJOR.MINOR` helpers and version negotiation (docs/versioning.md). */
+export class ProtocolVersion {
+  /** Order two `MAJOR.MINOR` versions: negative if `a` is older than `b`. */
+  static compare(a: string, b: string): number {
+    const [aMajor = 0, aMinor = 0] = a.split('.').map(Number);
+    const [bMajor = 0, bMinor = 0] = b.split('.').map(Number);
+    return aMajor !== bMajor ? aMajor - bMajor : aMinor - bMinor;
+  }
+
+  /** Highest version in both lists, or undefined if they share none. */
+  static negotiate(ours: readonly string[], theirs: readonly string[]): string | undefined {
+    return ours
+      .filter((v) => theirs.includes(v))
+      .sort((a, b) => ProtocolVersion.compare(b, a))[0];
+  }
+
+  /**
+   * Versions a card declares: `supportedVersions`, else its `protocolVersion`,
+   * else the SDK default (cards that predate version fields).
+   */
+  static ofCard(card: AgentCard): string[] {
+    if (card.supportedVersions?.length) return [...card.supportedVersions];
+    return [card.protocolVersion ?? PROTOCOL_VERSION];
+  }
+}
@@ -0,0 +1,70 @@
+import type { IncomingMessage } from 'node:http';
+import { SnapError } from '../errors/SnapError.js';
+
+/** Size limits from docs/constraints.md "Size Limits". Byte sizes are of serialized UTF-8 JSON. */
+export interface SizeLimits {
+  /** A whole message (default: 10 MB). */
+  maxMessageBytes: number;
+  /** A message payload (default: 1 MB). */
+  maxPayloadBytes: number;
+  /** An AgentCard (default: 64 KB). */
+  maxCardBytes: number;
+  /** Nostr event content, i.e. the encrypted message (default: 64 KB). */
+  maxNostrContentBytes: number;
+  /** Skills per agent card (default: 100). */
+  maxSkills: number;
+  /** Artifacts per task (default: 100). */
+  maxArtifacts: number;
+  /** Parts per message or artifact (default: 100). */
+  maxParts: number;
+}
+
+export const DEFAULT_SIZE_LIMITS: Readonly<SizeLimits> = {
+  maxMessageBytes: 10 * 1024 * 1024,
+  maxPayloadBytes: 1024 * 1024,
+  maxCardBytes: 64 * 1024,
+  maxNostrContentBytes: 64 * 1024,
+  maxSkills: 100,
+  maxArtifacts: 100,
+  maxParts: 100,
+};
+
+/** Merge overrides over the defaults. */
+export function sizeLimits(overrides?: Partial<SizeLimits>): SizeLimits {
+  return { ...DEFAULT_SIZE_LIMITS, ...overrides };
+}
+
+/** Serialized UTF-8 size of a JSON value in bytes. */
+export function jsonByteLength(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value) ?? '', 'utf8');
+}
+
+/**
+ * Buffer an HTTP request body as UTF-8, rejecting with a size error as soon as it exceeds
+ * `limit` bytes: up front from Content-Length, otherwise while streaming.
+ * The rest of a rejected body is left unread, so the caller should close the connection.
+ */
+export function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  const declared = Number(req.headers['content-length']);
+  if (declared > limit) {
+    return Promise.reject(SnapError.tooLarge('message', limit, declared));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.off('data', onData);
+        req.pause();
+        reject(SnapError.tooLarge('message', limit, size));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
@@ -1,4 +1,14 @@
 export { MessageBuilder } from './MessageBuilder.js';
 export { MessageSigner } from './MessageSigner.js';
 export { MessageValidator } from './MessageValidator.js';
-export type { ValidationOptions, ValidationResult } from './MessageValidator.js';
+export { PayloadValidator } from './PayloadValidator.js';
+export type { PayloadSchema } from './PayloadValidator.js';
+export { ProtocolVersion, PROTOCOL_VERSION, SUPPORTED_VERSIONS } from './ProtocolVersion.js';
+export { DEFAULT_SIZE_LIMITS, sizeLimits, jsonByteLength } from './SizeLimits.js';
+export type { SizeLimits } from './SizeLimits.js';
+export type {
+  ValidationOptions,
+  ValidationResult,
+  ResponseSignatureLevel,
+  ResponseValidationOptions,
+} from './MessageValidator.js';
@@ -0,0 +1,189 @@
+import { readFile } from 'node:fs/promises';
+import { watchFile, unwatchFile, type Stats } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { SnapMessage } from '../types/message.js';
+import type { P2TRAddress } from '../types/keys.js';
+import type { TransportLogger } from '../types/plugin.js';
+import { KeyManager } from '../crypto/KeyManager.js';
+import { MessageValidator, type ValidationOptions } from '../messaging/MessageValidator.js';
+import { SnapError } from '../errors/SnapError.js';
+
+/**
+ * One allowlist grant. Omitting `methods` or `skills` grants all of them.
+ * A grant that lists `skills` only covers requests naming one of them
+ * (see `AllowlistConfig.skillOf`); requests that name no skill are denied.
+ */
+export interface AllowlistEntry {
+  address: string;
+  methods?: string[];
+  skills?: string[];
+}
+
+export interface AllowlistConfig {
+  /** Initial grants. A bare address grants every method and skill. */
+  entries?: Array<string | AllowlistEntry>;
+  /**
+   * Resolve the skill a request targets. Default: `payload.name` for `service/call`
+   * and no skill for other methods, whose payloads carry none. Supply this to map
+   * skills for other methods, e.g. from a `data` part of a message/send.
+   */
+  skillOf?: (message: SnapMessage) => string | undefined;
+  /** Optional logger for reload events. */
+  logger?: TransportLogger;
+}
+
+export interface AllowlistFileOptions extends Omit<AllowlistConfig, 'entries'> {
+  /** Reload the file when it changes (default: true). */
+  watch?: boolean;
+  /** Polling interval in ms for change detection (default: 1000). */
+  watchInterval?: number;
+}
+
+/**
+ * Set of P2TR addresses allowed to call this agent or service, with optional
+ * per-method and per-skill grants. Can be loaded from a JSON or YAML file that is
+ * reloaded on change; a file that fails to parse leaves the previous grants in place.
+ *
+ * File format (`.json`, `.yaml` or `.yml`):
+ *
+ *     agents:
+ *       - bc1p...full-access
+ *       - address: bc1p...limited
+ *         methods: [service/call]
+ *         skills: [query_database]
+ */
+export class Allowlist {
+  private grants = new Map<string, AllowlistEntry[]>();
+  private readonly skillOf: (message: SnapMessage) => string | undefined;
+  private readonly logger?: TransportLogger;
+  private watched?: { path: string; listener: (curr: Stats, prev: Stats) => void };
+
+  constructor(config?: AllowlistConfig) {
+    this.skillOf = config?.skillOf ?? defaultSkillOf;
+    this.logger = config?.logger;
+    this.set(config?.entries ?? []);
+  }
+
+  /**
+   * Load an allowlist from a JSON or YAML file, watching it for changes unless `watch: false`.
+   * Call `close()` to stop watching.
+   * @throws Error if the file cannot be read or is not a valid allowlist.
+   */
+  static async fromFile(path: string, options?: AllowlistFileOptions): Promise<Allowlist> {
+    const allowlist = new Allowlist(options);
+    await allowlist.load(path);
+    if (options?.watch ?? true) {
+      allowlist.watch(path, options?.watchInterval ?? 1_000);
+    }
+    return allowlist;
+  }
+
+  /** Replace all grants. */
+  set(entries: Array<string | AllowlistEntry>): void {
+    const grants = new Map<string, AllowlistEntry[]>();
+    for (const raw of entries) {
+      const entry = normalizeEntry(raw);
+      grants.set(entry.address, [...(grants.get(entry.address) ?? []), entry]);
+    }
+    this.grants = grants;
+  }
+
+  /** Addresses with at least one grant. */
+  get addresses(): string[] {
+    return [...this.grants.keys()];
+  }
+
+  /** Whether `from` may call `method` with `skill`. Grants listing skills never cover a request without one. */
+  isAllowed(from: string, method: string, skill?: string): boolean {
+    const entries = this.grants.get(from) ?? [];
+    return entries.some((entry) =>
+      (!entry.methods || entry.methods.includes(method)) &&
+      (!entry.skills || (skill !== undefined && entry.skills.includes(skill))));
+  }
+
+  /**
+   * Check a message's sender against the allowlist. Does not verify the signature.
+   * @throws SnapError UNAUTHORIZED if the sender has no matching grant.
+   */
+  authorize(message: SnapMessage): void {
+    const skill = this.skillOf(message);
+    if (!this.isAllowed(message.from, message.method, skill)) {
+      throw SnapError.unauthorized(message.from, message.method, skill);
+    }
+  }
+
+  /**
+   * Standalone service-side check: full message validation (structure, timestamp,
+   * signature) followed by `authorize()`.
+   * @throws SnapError on invalid messages or UNAUTHORIZED senders.
+   */
+  verify(message: unknown, options?: ValidationOptions): SnapMessage {
+    MessageValidator.validate(message, options);
+    const msg = message as SnapMessage;
+    this.authorize(msg);
+    return msg;
+  }
+
+  /** Re-read grants from a file, replacing the current ones. */
+  async load(path: string): Promise<void> {
+    const text = await readFile(path, 'utf8');
+    const ext = extname(path).toLowerCase();
+    const parsed: unknown = ext === '.yaml' || ext === '.yml' ? parseYaml(text) : JSON.parse(text);
+    this.set(parseEntries(parsed));
+  }
+
+  /** Stop watching the backing file. */
+  close(): void {
+    if (this.watched) {
+      unwatchFile(this.watched.path, this.watched.listener);
+      this.watched = undefined;
+    }
+  }
+
+  private watch(path: string, interval: number): void {
+    const listener = (curr: Stats, prev: Stats) => {
+      if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+      this.load(path).then(
+        () => this.logger?.('debug', `Reloaded allowlist from ${path}`),
+        (err) => this.logger?.('warn', `Failed to reload allowlist from ${path}; keeping previous entries`, err),
+      );
+    };
+    watchFile(path, { interval, persistent: false }, listener);
+    this.watched = { path, listener };
+  }
+}
+
+function defaultSkillOf(message: SnapMessage): string | undefined {
+  const name = message.payload.name;
+  return message.method === 'service/call' && typeof name === 'string' ? name : undefined;
+}
+
+/** Accept `{ agents: [...] }` or a bare array. */
+function parseEntries(parsed: unknown): Array<string | AllowlistEntry> {
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { agents?: unknown } | null)?.agents;
+  if (!Array.isArray(list)) {
+    throw new Error('Allowlist must be an array or an object with an "agents" array');
+  }
+  return list as Array<string | AllowlistEntry>;
+}
+
+function normalizeEntry(raw: string | AllowlistEntry): AllowlistEntry {
+  const entry: AllowlistEntry = typeof raw === 'string' ? { address: raw } : raw;
+  if (typeof entry?.address !== 'string' || !KeyManager.validateP2TR(entry.address as P2TRAddress)) {
+    throw new Error(`Invalid allowlist address: ${JSON.stringify(typeof raw === 'string' ? raw : raw?.address)}`);
+  }
+  for (const key of ['methods', 'skills'] as const) {
+    const value = entry[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some((v) => typeof v !== 'string'))) {
+      throw new Error(`Allowlist ${key} for ${entry.address} must be an array of strings`);
+    }
+  }
+  return {
+    address: entry.address,
+    ...(entry.methods ? { methods: [...entry.methods] } : {}),
+    ...(entry.skills ? { skills: [...entry.skills] } : {}),
+  };
+}
@@ -0,0 +1,22 @@
+import type { Middleware, MiddlewareContext, NextFn } from '../types/plugin.js';
+import type { Allowlist } from './Allowlist.js';
+
+/**
+ * Rejects inbound requests whose sender has no matching grant in the allowlist
+ * with an UNAUTHORIZED SnapError, before any handler runs. Outbound messages pass through.
+ */
+export class AllowlistMiddleware implements Middleware {
+  readonly name = 'allowlist';
+  readonly allowlist: Allowlist;
+
+  constructor(allowlist: Allowlist) {
+    this.allowlist = allowlist;
+  }
+
+  async handle(ctx: MiddlewareContext, next: NextFn): Promise<void> {
+    if (ctx.direction === 'inbound') {
+      this.allowlist.authorize(ctx.message);
+    }
+    await next();
+  }
+}
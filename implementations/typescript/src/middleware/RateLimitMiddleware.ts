@@ -0,0 +1,153 @@
+import type { Middleware, MiddlewareContext, NextFn } from '../types/plugin.js';
+import type { RateLimit } from '../types/agent-card.js';
+import type { SnapMessage } from '../types/message.js';
+import { SnapError } from '../errors/SnapError.js';
+
+/**
+ * - `sliding-window`: at most `maxRequests` in any `windowSeconds` span.
+ * - `token-bucket`: bursts of up to `maxRequests`, refilled evenly over `windowSeconds`.
+ */
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitConfig {
+  /** Limit to enforce. Default: the running agent's `card.capabilities.rateLimit`. */
+  limit?: RateLimit;
+  /** Default: 'sliding-window'. */
+  algorithm?: RateLimitAlgorithm;
+  /** Key requests are counted under. Default: the sender address (`from`). */
+  keyOf?: (message: SnapMessage) => string;
+  /** Keys tracked at once; beyond this the least recently seen key is forgotten (default: 10000). */
+  maxKeys?: number;
+}
+
+interface Limiter {
+  /** Record a request at `now` (ms). Returns 0 if allowed, otherwise ms until it would be. */
+  consume(key: string, now: number): number;
+  /** Drop the least recently seen keys until at most `maxKeys` remain. */
+  trim(maxKeys: number): void;
+  readonly size: number;
+}
+
+/**
+ * Per-sender rate limiting for inbound requests. Rejects with RATE_LIMIT_EXCEEDED
+ * carrying `retryAfter` (seconds), which HTTP transports also send as `Retry-After`.
+ * Passes everything through when no limit is configured or declared on the card.
+ */
+export class RateLimitMiddleware implements Middleware {
+  readonly name = 'rate-limit';
+
+  private readonly config: RateLimitConfig;
+  private readonly keyOf: (message: SnapMessage) => string;
+  private readonly maxKeys: number;
+  private limiter?: Limiter;
+  private limiterFor?: RateLimit;
+
+  constructor(config?: RateLimitConfig) {
+    this.config = config ?? {};
+    this.keyOf = config?.keyOf ?? ((message) => message.from);
+    this.maxKeys = config?.maxKeys ?? 10_000;
+  }
+
+  async handle(ctx: MiddlewareContext, next: NextFn): Promise<void> {
+    const limit = this.config.limit ?? ctx.card?.capabilities?.rateLimit;
+    if (ctx.direction === 'inbound' && ctx.message.type === 'request' && limit) {
+      const limiter = this.limiterOf(limit);
+      const waitMs = limiter.consume(this.keyOf(ctx.message), Date.now());
+      limiter.trim(this.maxKeys);
+      if (waitMs > 0) {
+        throw SnapError.rateLimitExceeded(limit.maxRequests, limit.windowSeconds, Math.ceil(waitMs / 1000));
+      }
+    }
+    await next();
+  }
+
+  /** Number of keys currently tracked. */
+  get size(): number {
+    return this.limiter?.size ?? 0;
+  }
+
+  /** Reuse the limiter while the limit is unchanged; a new limit starts from a clean slate. */
+  private limiterOf(limit: RateLimit): Limiter {
+    if (!this.limiter || this.limiterFor?.maxRequests !== limit.maxRequests ||
+        this.limiterFor.windowSeconds !== limit.windowSeconds) {
+      const windowMs = limit.windowSeconds * 1000;
+      this.limiter = this.config.algorithm === 'token-bucket'
+        ? new TokenBucket(limit.maxRequests, windowMs)
+        : new SlidingWindow(limit.maxRequests, windowMs);
+      this.limiterFor = { ...limit };
+    }
+    return this.limiter;
+  }
+}
+
+class SlidingWindow implements Limiter {
+  private readonly hits = new Map<string, number[]>();
+
+  constructor(private readonly max: number, private readonly windowMs: number) {}
+
+  get size(): number {
+    return this.hits.size;
+  }
+
+  consume(key: string, now: number): number {
+    const recent = (this.hits.get(key) ?? []).filter((t) => t > now - this.windowMs);
+    touch(this.hits, key, recent);
+    if (recent.length >= this.max) {
+      return recent[recent.length - this.max] + this.windowMs - now;
+    }
+    recent.push(now);
+    return 0;
+  }
+
+  trim(maxKeys: number): void {
+    trimOldest(this.hits, maxKeys);
+  }
+}
+
+class TokenBucket implements Limiter {
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private readonly refillPerMs: number;
+
+  constructor(private readonly max: number, windowMs: number) {
+    this.refillPerMs = max / windowMs;
+  }
+
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  consume(key: string, now: number): number {
+    const bucket = this.refill(key, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return (1 - bucket.tokens) / this.refillPerMs;
+  }
+
+  trim(maxKeys: number): void {
+    trimOldest(this.buckets, maxKeys);
+  }
+
+  private refill(key: string, now: number): { tokens: number; updatedAt: number } {
+    const bucket = this.buckets.get(key) ?? { tokens: this.max, updatedAt: now };
+    bucket.tokens = Math.min(this.max, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+    bucket.updatedAt = now;
+    touch(this.buckets, key, bucket);
+    return bucket;
+  }
+}
+
+/** Store `value` under `key` as the most recently seen entry (Maps iterate in insertion order). */
+function touch<V>(map: Map<string, V>, key: string, value: V): void {
+  map.delete(key);
+  map.set(key, value);
+}
+
+/** Delete the least recently seen entries until at most `max` remain. */
+function trimOldest<V>(map: Map<string, V>, max: number): void {
+  for (const key of map.keys()) {
+    if (map.size <= max) break;
+    map.delete(key);
+  }
+}
@@ -0,0 +1,192 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { SnapMessage } from '../types/message.js';
+import type { P2TRAddress } from '../types/keys.js';
+import type { ReplayStore } from '../types/plugin.js';
+import { MessageValidator, type ValidationOptions } from '../messaging/MessageValidator.js';
+import { sizeLimits, readBody } from '../messaging/SizeLimits.js';
+import { SnapError } from '../errors/SnapError.js';
+import type { Allowlist } from './Allowlist.js';
+
+export interface RequestVerifierConfig {
+  /** Reject senders without a grant (UNAUTHORIZED, HTTP 403). Default: accept any valid signer. */
+  allowlist?: Allowlist;
+  /** Reject repeated message IDs (DUPLICATE_MESSAGE). Default: no replay check. */
+  replayStore?: ReplayStore;
+  /**
+   * Identity of this server, if it has one. Requests addressed to any other `to`
+   * are rejected; requests without `to` are always accepted.
+   */
+  address?: P2TRAddress;
+  /** Timestamp window, accepted versions and size limits (see MessageValidator). */
+  validation?: ValidationOptions;
+}
+
+/** The verified sender, attached to the request as `req.snap`. */
+export interface VerifiedSender {
+  from: P2TRAddress;
+  message: SnapMessage;
+}
+
+/** A node:http request that passed verification. */
+export type VerifiedRequest = IncomingMessage & { snap: VerifiedSender };
+
+/** The parts of a Fastify request the adapter uses. */
+export interface FastifyRequestLike {
+  body?: unknown;
+  raw: IncomingMessage;
+  snap?: VerifiedSender;
+}
+
+/** The parts of a Fastify reply the adapter uses. */
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string): FastifyReplyLike;
+  send(payload?: unknown): unknown;
+}
+
+/**
+ * Verify-only SNAP request checking for HTTP servers that have no identity of
+ * their own (Agent-to-Service): parses the body, then checks structure, timestamp,
+ * signature, replay and allowlist. Failures are answered with a bare
+ * `{ error }` SNAP error body and the status from `SnapError.httpStatus()`.
+ *
+ * ```ts
+ * const verifier = new RequestVerifier({ allowlist, replayStore: new InMemoryReplayStore() });
+ * createServer(verifier.handler((req, res) => res.end(req.snap.from)));  // node:http
+ * app.post('/snap', verifier.express(), (req, res) => ...);              // Express
+ * fastify.post('/snap', { preHandler: verifier.fastify() }, ...);       // Fastify
+ * ```
+ *
+ * Frameworks that already parsed the body (`express.json()`, Fastify) are supported;
+ * otherwise the body is read from the request stream, bounded by `maxMessageBytes`.
+ */
+export class RequestVerifier {
+  private readonly config: RequestVerifierConfig;
+
+  constructor(config: RequestVerifierConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Run every check on a parsed message body.
+   * @throws SnapError describing the first failed check.
+   */
+  async verify(body: unknown): Promise<SnapMessage> {
+    MessageValidator.validate(body, this.config.validation);
+    const message = body as SnapMessage;
+    if (message.type !== 'request') {
+      throw SnapError.invalidMessage(`Expected a request, received a ${message.type}`);
+    }
+    if (message.to !== undefined && message.to !== this.config.address) {
+      throw SnapError.invalidMessage(`Message not addressed to this service: ${message.to}`);
+    }
+
+    const replay = this.config.replayStore;
+    if (replay) {
+      if (await replay.hasSeen(message.from, message.id, message.timestamp)) {
+        throw SnapError.duplicateMessage(message.id, message.from);
+      }
+      await replay.markSeen(message.from, message.id, message.timestamp);
+    }
+
+    this.config.allowlist?.authorize(message);
+    return message;
+  }
+
+  /**
+   * Verify a node:http request, using `parsed` when a framework already read the body.
+   * @throws SnapError INVALID_MESSAGE for unreadable bodies, or any `verify()` error.
+   */
+  async verifyRequest(req: IncomingMessage, parsed?: unknown): Promise<SnapMessage> {
+    const raw = parsed === undefined
+      ? await readBody(req, sizeLimits(this.config.validation?.limits).maxMessageBytes)
+      : parsed;
+    const body = typeof raw === 'string' || Buffer.isBuffer(raw) ? parseJson(raw.toString()) : raw;
+    return this.verify(body);
+  }
+
+  /**
+   * Wrap a node:http request listener; it only runs for verified requests.
+   * If it throws before writing headers, the request is answered with INTERNAL_ERROR.
+   */
+  handler(
+    next: (req: VerifiedRequest, res: ServerResponse) => void | Promise<void>,
+  ): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+    return async (req, res) => {
+      try {
+        await this.attach(req, (req as { body?: unknown }).body);
+      } catch (err) {
+        RequestVerifier.writeError(res, SnapError.from(err));
+        return;
+      }
+      try {
+        await next(req as VerifiedRequest, res);
+      } catch {
+        // node:http ignores the listener's promise: never leave a rejection or a hanging response
+        if (!res.headersSent) RequestVerifier.writeError(res, SnapError.internalError());
+        else res.destroy();
+      }
+    };
+  }
+
+  /** Express (or Connect) middleware: sets `req.snap` and calls `next()`, or answers the error. */
+  express(): (req: IncomingMessage, res: ServerResponse, next: (err?: unknown) => void) => void {
+    return (req, res, next) => {
+      this.attach(req, (req as { body?: unknown }).body).then(
+        () => next(),
+        (err) => RequestVerifier.writeError(res, SnapError.from(err)),
+      );
+    };
+  }
+
+  /**
+   * Fastify `preHandler` hook: sets `request.snap`, or answers the error and returns
+   * the reply, as async hooks must after sending. It needs the parsed body, so it
+   * answers INVALID_MESSAGE when registered earlier (e.g. `onRequest`) rather than
+   * consume the stream Fastify's body parser still has to read.
+   * Declare the property once with `fastify.decorateRequest('snap', null)`.
+   */
+  fastify(): (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<FastifyReplyLike | undefined> {
+    return async (request, reply) => {
+      try {
+        if (request.body === undefined) {
+          throw SnapError.invalidMessage('Request body not parsed; register fastify() as a preHandler hook');
+        }
+        const message = await this.verifyRequest(request.raw, request.body);
+        request.snap = { from: message.from, message };
+        return undefined;
+      } catch (err) {
+        const error = SnapError.from(err);
+        reply
+          .code(SnapError.httpStatus(error.code, error.data))
+          .header('Content-Type', 'application/json')
+          .send({ error: error.toJSON() });
+        return reply;
+      }
+    };
+  }
+
+  /** Write a bare `{ error }` body with the HTTP status mapped from the error code. */
+  static writeError(res: ServerResponse, error: SnapError): void {
+    const status = SnapError.httpStatus(error.code, error.data);
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      // The unread remainder of an oversized body would be parsed as the next request
+      ...(status === 413 ? { Connection: 'close' } : {}),
+    });
+    res.end(JSON.stringify({ error: error.toJSON() }));
+  }
+
+  private async attach(req: IncomingMessage, parsed: unknown): Promise<void> {
+    const message = await this.verifyRequest(req, parsed);
+    (req as VerifiedRequest).snap = { from: message.from, message };
+  }
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw SnapError.invalidMessage('Request body is not valid JSON');
+  }
+}
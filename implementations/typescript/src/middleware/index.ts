@@ -0,0 +1,7 @@
+export { Allowlist } from './Allowlist.js';
+export type { AllowlistEntry, AllowlistConfig, AllowlistFileOptions } from './Allowlist.js';
+export { AllowlistMiddleware } from './AllowlistMiddleware.js';
+export { RateLimitMiddleware } from './RateLimitMiddleware.js';
+export type { RateLimitConfig, RateLimitAlgorithm } from './RateLimitMiddleware.js';
+export { RequestVerifier } from './RequestVerifier.js';
+export type { RequestVerifierConfig, VerifiedSender, VerifiedRequest, FastifyRequestLike, FastifyReplyLike } from './RequestVerifier.js';
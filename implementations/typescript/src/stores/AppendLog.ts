@@ -0,0 +1,113 @@
+import { open, rename, type FileHandle } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/**
+ * Append-only JSON-lines file shared by the file-backed stores. Writes are
+ * serialized and (by default) fsynced before they resolve; a torn last line left
+ * by a crash is dropped on open. `rewrite()` compacts by writing a snapshot to a
+ * temporary file and atomically renaming it over the log.
+ */
+export class AppendLog<R> {
+  private handle: FileHandle;
+  private queue: Promise<void> = Promise.resolve();
+  private _lines: number;
+
+  private constructor(
+    readonly path: string,
+    handle: FileHandle,
+    lines: number,
+    private readonly fsync: boolean,
+  ) {
+    this.handle = handle;
+    this._lines = lines;
+  }
+
+  /** Open (or create) a log and return it with every intact record, oldest first. */
+  static async open<R>(path: string, fsync = true): Promise<{ log: AppendLog<R>; records: R[] }> {
+    const handle = await open(path, 'a+');
+    const data = await handle.readFile();
+
+    // Keep only complete lines: anything after the last newline is a torn write.
+    // Work in bytes, since truncate() takes a byte offset.
+    const end = data.lastIndexOf(0x0a) + 1;
+    if (end < data.length) {
+      await handle.truncate(end);
+    }
+
+    const records: R[] = [];
+    for (const line of data.subarray(0, end).toString('utf-8').split('\n')) {
+      if (!line) continue;
+      try {
+        records.push(JSON.parse(line) as R);
+      } catch {
+        // A corrupt line cannot be trusted; skip it and keep the rest
+      }
+    }
+    return { log: new AppendLog<R>(path, handle, records.length, fsync), records };
+  }
+
+  /** Number of records in the file, live or superseded. */
+  get lines(): number {
+    return this._lines;
+  }
+
+  /** Append one record; resolves once it is durable. */
+  append(record: R): Promise<void> {
+    return this.enqueue(async () => {
+      await this.handle.appendFile(`${JSON.stringify(record)}\n`, 'utf-8');
+      if (this.fsync) await this.handle.datasync();
+      this._lines++;
+    });
+  }
+
+  /** Replace the whole log with `records` (crash-safe: write, fsync, rename). */
+  rewrite(records: Iterable<R>): Promise<void> {
+    return this.enqueue(async () => {
+      const tmpPath = `${this.path}.tmp`;
+      const tmp = await open(tmpPath, 'w');
+      let count = 0;
+      try {
+        let chunk = '';
+        for (const record of records) {
+          chunk += `${JSON.stringify(record)}\n`;
+          count++;
+        }
+        await tmp.writeFile(chunk, 'utf-8');
+        await tmp.sync();
+      } finally {
+        await tmp.close();
+      }
+      await rename(tmpPath, this.path);
+      await syncDirectory(dirname(this.path));
+
+      await this.handle.close();
+      this.handle = await open(this.path, 'a+');
+      this._lines = count;
+    });
+  }
+
+  /** Wait for pending writes, then close the file. */
+  close(): Promise<void> {
+    return this.enqueue(() => this.handle.close());
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    // Keep the queue alive after a failed write; the caller still sees the error
+    this.queue = run.catch(() => {});
+    return run;
+  }
+}
+
+/** Persist a rename by syncing its directory; not supported on every platform. */
+async function syncDirectory(path: string): Promise<void> {
+  let dir: FileHandle | undefined;
+  try {
+    dir = await open(path, 'r');
+    await dir.sync();
+  } catch {
+    // e.g. Windows cannot open directories; the rename itself is still atomic
+  } finally {
+    await dir?.close();
+  }
+}
@@ -0,0 +1,95 @@
+import { InMemoryReplayStore, type InMemoryReplayStoreOptions } from './InMemoryReplayStore.js';
+import { AppendLog } from './AppendLog.js';
+
+export interface FileReplayStoreOptions extends InMemoryReplayStoreOptions {
+  /** Compact once the log holds this many records and at least twice the live entries. Default: 1000. */
+  compactThreshold?: number;
+  /** fsync every write before it resolves. Default: true. */
+  fsync?: boolean;
+}
+
+/** One log line: a seen message, or the capacity-eviction horizon carried over by compaction. */
+type ReplayRecord = { from: string; id: string; timestamp: number } | { through: number };
+
+/**
+ * Durable replay store: `InMemoryReplayStore` semantics (expiry by signed timestamp,
+ * retention horizon, entry cap) with every `markSeen()` appended to a JSON-lines
+ * file before it resolves, so a restart does not reopen the replay window.
+ * Expired entries are dropped from the file by compaction.
+ *
+ * ```ts
+ * agent.replayStore(await FileReplayStore.open('./data/replay.jsonl'));
+ * ```
+ */
+export class FileReplayStore extends InMemoryReplayStore {
+  private compacting?: Promise<void>;
+
+  private constructor(
+    private readonly log: AppendLog<ReplayRecord>,
+    private readonly options: FileReplayStoreOptions,
+  ) {
+    super(options);
+  }
+
+  /** Open (or create) the store at `path`, replaying its log. */
+  static async open(path: string, options: FileReplayStoreOptions = {}): Promise<FileReplayStore> {
+    const { log, records } = await AppendLog.open<ReplayRecord>(path, options.fsync);
+    const store = new FileReplayStore(log, options);
+    for (const record of records) {
+      if ('through' in record) {
+        store.evictedThrough = Math.max(store.evictedThrough, record.through);
+      } else {
+        await store.remember(record.from, record.id, record.timestamp);
+      }
+    }
+    store.sweep();
+    await store.compactIfNeeded();
+    return store;
+  }
+
+  override async markSeen(from: string, id: string, timestamp: number): Promise<void> {
+    await super.markSeen(from, id, timestamp);
+    await this.log.append({ from, id, timestamp });
+    await this.compactIfNeeded();
+  }
+
+  override sweep(): number {
+    const removed = super.sweep();
+    // The periodic sweep cannot await; a failed compaction is retried on the next one
+    if (removed > 0 && this.log) void this.compactIfNeeded().catch(() => {});
+    return removed;
+  }
+
+  /** Rewrite the log with only the live entries and the eviction horizon. */
+  compact(): Promise<void> {
+    const records: ReplayRecord[] = [];
+    if (this.evictedThrough > -Infinity) records.push({ through: this.evictedThrough });
+    for (const [key, { timestamp }] of this.seen) {
+      // `from` is a P2TR address, which never contains ':'
+      const split = key.indexOf(':');
+      records.push({ from: key.slice(0, split), id: key.slice(split + 1), timestamp });
+    }
+    return this.log.rewrite(records);
+  }
+
+  /** Stop the sweep and close the file once pending writes finish. */
+  override async close(): Promise<void> {
+    super.close();
+    await this.log.close();
+  }
+
+  /** Record an entry from the log without writing it back. */
+  private remember(from: string, id: string, timestamp: number): Promise<void> {
+    return super.markSeen(from, id, timestamp);
+  }
+
+  private async compactIfNeeded(): Promise<void> {
+    const threshold = this.options.compactThreshold ?? 1000;
+    if (!this.compacting && this.log.lines >= threshold && this.log.lines >= 2 * this.size) {
+      this.compacting = this.compact().finally(() => {
+        this.compacting = undefined;
+      });
+      await this.compacting;
+    }
+  }
+}
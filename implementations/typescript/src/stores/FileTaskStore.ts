@@ -0,0 +1,160 @@
+import type { Task } from '../types/task.js';
+import type { QueryableTaskStore, TaskPage, TaskQuery } from '../types/plugin.js';
+import { AppendLog } from './AppendLog.js';
+import { type TaskEntry, writeEntry, listEntries } from './TaskEntry.js';
+
+export interface FileTaskStoreOptions {
+  /** Drop tasks not updated for this many milliseconds. Default: 0 (keep forever). */
+  ttl?: number;
+  /** Interval in milliseconds between TTL sweeps. Default: 60_000. Set to 0 to disable. */
+  sweepInterval?: number;
+  /** Compact once the log holds this many records and at least twice the live tasks. Default: 1000. */
+  compactThreshold?: number;
+  /** fsync every write before it resolves. Default: true. */
+  fsync?: boolean;
+}
+
+/** One log line: a task with its owner and times, or a deletion. */
+type TaskRecord =
+  | ({ op: 'set'; id: string } & TaskEntry)
+  | { op: 'delete'; id: string };
+
+/**
+ * Durable task store backed by an append-only JSON-lines file. Tasks are held
+ * in memory and every change is appended (and fsynced) before `set()` / `delete()`
+ * resolve, so a restart reloads them. The log is compacted in place once
+ * superseded records dominate it.
+ *
+ * ```ts
+ * const store = await FileTaskStore.open('./data/tasks.jsonl', { ttl: 7 * 86_400_000 });
+ * agent.taskManager(new TaskManager(store));
+ * ```
+ */
+export class FileTaskStore implements QueryableTaskStore {
+  private readonly tasks = new Map<string, TaskEntry>();
+  private readonly timer?: ReturnType<typeof setInterval>;
+  private compacting?: Promise<void>;
+
+  private constructor(
+    private readonly log: AppendLog<TaskRecord>,
+    private readonly options: FileTaskStoreOptions,
+  ) {
+    const sweepInterval = options.sweepInterval ?? 60_000;
+    if (sweepInterval > 0 && (options.ttl ?? 0) > 0) {
+      this.timer = setInterval(() => void this.sweep().catch(() => {}), sweepInterval);
+      this.timer.unref?.();
+    }
+  }
+
+  /** Open (or create) the store at `path`, replaying its log. */
+  static async open(path: string, options: FileTaskStoreOptions = {}): Promise<FileTaskStore> {
+    const { log, records } = await AppendLog.open<TaskRecord>(path, options.fsync);
+    const store = new FileTaskStore(log, options);
+    for (const record of records) {
+      if (record.op === 'set') {
+        const { op: _op, id, ...entry } = record;
+        store.tasks.set(id, entry);
+      } else {
+        store.tasks.delete(record.id);
+      }
+    }
+    await store.sweep();
+    await store.compactIfNeeded();
+    return store;
+  }
+
+  async get(taskId: string): Promise<Task | undefined> {
+    const entry = this.tasks.get(taskId);
+    if (!entry) return undefined;
+    if (this.expired(entry, Date.now())) {
+      await this.delete(taskId);
+      return undefined;
+    }
+    return entry.task;
+  }
+
+  async set(taskId: string, task: Task, owner?: string): Promise<void> {
+    // Update memory before queueing the write so a compaction queued meanwhile includes it
+    const previous = this.tasks.get(taskId);
+    const entry = writeEntry(previous, task, owner);
+    this.tasks.set(taskId, entry);
+    try {
+      await this.log.append({ op: 'set', id: taskId, ...entry });
+    } catch (err) {
+      if (this.tasks.get(taskId) === entry) restore(this.tasks, taskId, previous);
+      throw err;
+    }
+    await this.compactIfNeeded();
+  }
+
+  async getOwner(taskId: string): Promise<string | undefined> {
+    return (await this.get(taskId)) ? this.tasks.get(taskId)?.owner : undefined;
+  }
+
+  async delete(taskId: string): Promise<void> {
+    const previous = this.tasks.get(taskId);
+    if (!previous) return;
+    this.tasks.delete(taskId);
+    try {
+      await this.log.append({ op: 'delete', id: taskId });
+    } catch (err) {
+      if (!this.tasks.has(taskId)) restore(this.tasks, taskId, previous);
+      throw err;
+    }
+    await this.compactIfNeeded();
+  }
+
+  /**
+   * Drop tasks past their TTL, appending a deletion for each. Runs every
+   * `sweepInterval`; returns the number removed.
+   */
+  async sweep(): Promise<number> {
+    const now = Date.now();
+    const expired = [...this.tasks].filter(([, entry]) => this.expired(entry, now)).map(([id]) => id);
+    for (const id of expired) await this.delete(id);
+    return expired.length;
+  }
+
+  async list(query?: TaskQuery): Promise<TaskPage> {
+    const now = Date.now();
+    const live = [...this.tasks.values()].filter((entry) => !this.expired(entry, now));
+    return listEntries(live, query);
+  }
+
+  /** Rewrite the log with only the live tasks. */
+  compact(): Promise<void> {
+    return this.log.rewrite([...this.tasks].map(([id, entry]): TaskRecord => ({ op: 'set', id, ...entry })));
+  }
+
+  /** Returns the number of tasks currently stored. */
+  get size(): number {
+    return this.tasks.size;
+  }
+
+  /** Stop the TTL sweep and close the file once pending writes finish. */
+  async close(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    await this.log.close();
+  }
+
+  private expired(entry: TaskEntry, now: number): boolean {
+    const ttl = this.options.ttl ?? 0;
+    return ttl > 0 && now - entry.updatedAt > ttl;
+  }
+
+  private async compactIfNeeded(): Promise<void> {
+    const threshold = this.options.compactThreshold ?? 1000;
+    if (!this.compacting && this.log.lines >= threshold && this.log.lines >= 2 * this.tasks.size) {
+      this.compacting = this.compact().finally(() => {
+        this.compacting = undefined;
+      });
+      await this.compacting;
+    }
+  }
+}
+
+/** Undo an in-memory change whose write failed. */
+function restore<V>(map: Map<string, V>, key: string, previous: V | undefined): void {
+  if (previous === undefined) map.delete(key);
+  else map.set(key, previous);
+}
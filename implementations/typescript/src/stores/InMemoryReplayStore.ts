@@ -1,27 +1,66 @@
 import type { ReplayStore } from '../types/plugin.js';
+import { SnapError } from '../errors/SnapError.js';
+
+export interface InMemoryReplayStoreOptions {
+  /**
+   * How long a message is remembered, in milliseconds, counted from its signed
+   * timestamp. Messages older than this are rejected outright, so it bounds the
+   * accepted clock window even when `maxClockDrift` is larger.
+   * Defaults to 1 hour (3_600_000 ms). Set to 0 to disable expiry.
+   */
+  maxAge?: number;
+  /**
+   * Maximum number of entries. When full, the earliest-stored entry is evicted and
+   * messages signed at or before its timestamp are rejected from then on, so an
+   * evicted message can never be replayed. Default: 100_000. Set to 0 for no cap.
+   */
+  maxEntries?: number;
+  /** Interval in milliseconds between sweeps of expired entries. Default: 60_000. Set to 0 to disable. */
+  sweepInterval?: number;
+}
 
 /**
- * In-memory replay store using a Map of Sets.
- * Key format: `${from}:${id}` for efficient lookup.
+ * In-memory replay store keyed by `${from}:${id}`, expiring each entry by the
+ * message's signed timestamp (Unix seconds) rather than by when it arrived.
+ * Call `close()` to stop the periodic sweep.
  */
 export class InMemoryReplayStore implements ReplayStore {
-  private readonly seen = new Map<string, number>();
-  private readonly maxAge: number;
+  /** Expiry (ms since epoch) and signed timestamp by key, in insertion order. */
+  protected readonly seen = new Map<string, { expiresAt: number; timestamp: number }>();
+  protected readonly maxAge: number;
+  private readonly maxEntries: number;
+  private readonly timer?: ReturnType<typeof setInterval>;
+  /** Highest timestamp evicted for capacity; messages at or before it can no longer be checked. */
+  protected evictedThrough = -Infinity;
+
+  /** @param options Options, or the `maxAge` in milliseconds. */
+  constructor(options: InMemoryReplayStoreOptions | number = {}) {
+    const opts = typeof options === 'number' ? { maxAge: options } : options;
+    this.maxAge = opts.maxAge ?? 3_600_000;
+    this.maxEntries = opts.maxEntries ?? 100_000;
+
+    const sweepInterval = opts.sweepInterval ?? 60_000;
+    if (sweepInterval > 0 && this.maxAge > 0) {
+      this.timer = setInterval(() => this.sweep(), sweepInterval);
+      this.timer.unref?.();
+    }
+  }
 
   /**
-   * @param maxAge Maximum age in milliseconds before entries expire.
-   *              Defaults to 1 hour (3_600_000 ms). Set to 0 to disable expiry.
+   * @param timestamp Signed timestamp of the message (Unix seconds), when known.
+   * @throws SnapError TIMESTAMP_EXPIRED when the message is older than the retention
+   *         horizon, since a replay of it could no longer be detected.
    */
-  constructor(maxAge = 3_600_000) {
-    this.maxAge = maxAge;
-  }
+  async hasSeen(from: string, id: string, timestamp?: number): Promise<boolean> {
+    if (timestamp !== undefined && this.beyondHorizon(timestamp)) {
+      throw SnapError.timestampExpired(timestamp, Math.floor(Date.now() / 1000), this.maxAge / 1000);
+    }
 
-  async hasSeen(from: string, id: string): Promise<boolean> {
     const key = `${from}:${id}`;
-    const ts = this.seen.get(key);
-    if (ts === undefined) return false;
+    const entry = this.seen.get(key);
+    if (entry === undefined) return false;
 
-    if (this.maxAge > 0 && Date.now() - ts > this.maxAge) {
+    if (this.maxAge > 0 && Date.now() > entry.expiresAt) {
       this.seen.delete(key);
       return false;
     }
@@ -29,9 +68,33 @@ export class InMemoryReplayStore implements ReplayStore {
     return true;
   }
 
-  async markSeen(from: string, id: string, _timestamp: number): Promise<void> {
+  async markSeen(from: string, id: string, timestamp: number): Promise<void> {
     const key = `${from}:${id}`;
-    this.seen.set(key, Date.now());
+    this.seen.delete(key); // re-insert at the end of the eviction order
+    this.seen.set(key, { expiresAt: timestamp * 1000 + this.maxAge, timestamp });
+
+    if (this.maxEntries > 0 && this.seen.size > this.maxEntries) {
+      this.sweep();
+    }
+    while (this.maxEntries > 0 && this.seen.size > this.maxEntries) {
+      const [oldestKey, oldest] = this.seen.entries().next().value!;
+      this.seen.delete(oldestKey);
+      this.evictedThrough = Math.max(this.evictedThrough, oldest.timestamp);
+    }
+  }
+
+  /** Remove expired entries. Runs every `sweepInterval`; returns the number removed. */
+  sweep(): number {
+    if (this.maxAge <= 0) return 0;
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.seen) {
+      if (now > entry.expiresAt) {
+        this.seen.delete(key);
+        removed++;
+      }
+    }
+    return removed;
   }
 
   /** Returns the number of entries currently tracked. */
@@ -42,5 +105,16 @@ export class InMemoryReplayStore implements ReplayStore {
   /** Remove all entries. */
   clear(): void {
     this.seen.clear();
+    this.evictedThrough = -Infinity;
+  }
+
+  /** Stop the periodic sweep. */
+  close(): void {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  private beyondHorizon(timestamp: number): boolean {
+    if (timestamp <= this.evictedThrough) return true;
+    return this.maxAge > 0 && timestamp * 1000 + this.maxAge < Date.now();
   }
 }
@@ -0,0 +1,100 @@
+import type { ResponseStore } from '../types/plugin.js';
+
+export interface InMemoryResponseStoreOptions {
+  /** Maximum age in milliseconds before entries expire. Defaults to 1 hour (3_600_000 ms). Set to 0 to disable expiry. */
+  maxAge?: number;
+  /** Maximum number of entries. When full, the earliest-stored entry is evicted. Default: 100_000. Set to 0 for no cap. */
+  maxEntries?: number;
+  /** Interval in milliseconds between sweeps of expired entries. Default: 60_000. Set to 0 to disable. */
+  sweepInterval?: number;
+}
+
+/**
+ * In-memory response store backed by a Map.
+ * Key format: `${from}:${key}` so senders never see each other's responses.
+ * Call `close()` to stop the periodic sweep.
+ */
+export class InMemoryResponseStore implements ResponseStore {
+  /** Entries in insertion order, so the first one is the oldest. */
+  private readonly responses = new Map<string, { payload: Record<string, unknown>; storedAt: number }>();
+  private readonly maxAge: number;
+  private readonly maxEntries: number;
+  private readonly timer?: ReturnType<typeof setInterval>;
+
+  /** @param options Options, or the `maxAge` in milliseconds. */
+  constructor(options: InMemoryResponseStoreOptions | number = {}) {
+    const opts = typeof options === 'number' ? { maxAge: options } : options;
+    this.maxAge = opts.maxAge ?? 3_600_000;
+    this.maxEntries = opts.maxEntries ?? 100_000;
+
+    const sweepInterval = opts.sweepInterval ?? 60_000;
+    if (sweepInterval > 0 && this.maxAge > 0) {
+      this.timer = setInterval(() => this.sweep(), sweepInterval);
+      this.timer.unref?.();
+    }
+  }
+
+  async get(from: string, key: string): Promise<Record<string, unknown> | undefined> {
+    const entryKey = `${from}:${key}`;
+    const entry = this.responses.get(entryKey);
+    if (!entry) return undefined;
+
+    if (this.expired(entry.storedAt, Date.now())) {
+      this.responses.delete(entryKey);
+      return undefined;
+    }
+
+    return entry.payload;
+  }
+
+  async set(from: string, key: string, payload: Record<string, unknown>): Promise<void> {
+    const entryKey = `${from}:${key}`;
+    this.responses.delete(entryKey); // re-insert at the end of the eviction order
+    this.responses.set(entryKey, { payload, storedAt: Date.now() });
+
+    if (this.maxEntries > 0 && this.responses.size > this.maxEntries) {
+      this.sweep();
+    }
+    while (this.maxEntries > 0 && this.responses.size > this.maxEntries) {
+      this.responses.delete(this.responses.keys().next().value!);
+    }
+  }
+
+  /** Remove expired entries. Runs every `sweepInterval`; returns the number removed. */
+  sweep(): number {
+    if (this.maxAge <= 0) return 0;
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.responses) {
+      if (this.expired(entry.storedAt, now)) {
+        this.responses.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /** Returns the number of entries currently tracked. */
+  get size(): number {
+    return this.responses.size;
+  }
+
+  /** Remove all entries. */
+  clear(): void {
+    this.responses.clear();
+  }
+
+  /** Stop the periodic sweep. */
+  close(): void {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  /** Alias of `close()`. */
+  destroy(): void {
+    this.close();
+  }
+
+  private expired(storedAt: number, now: number): boolean {
+    return this.maxAge > 0 && now - storedAt > this.maxAge;
+  }
+}
@@ -1,22 +1,31 @@
 import type { Task } from '../types/task.js';
-import type { TaskStore } from '../types/plugin.js';
+import type { QueryableTaskStore, TaskPage, TaskQuery } from '../types/plugin.js';
+import { type TaskEntry, writeEntry, listEntries } from './TaskEntry.js';
 
 /** In-memory task store backed by a Map. */
-export class InMemoryTaskStore implements TaskStore {
-  private readonly tasks = new Map<string, Task>();
+export class InMemoryTaskStore implements QueryableTaskStore {
+  private readonly tasks = new Map<string, TaskEntry>();
 
   async get(taskId: string): Promise<Task | undefined> {
-    return this.tasks.get(taskId);
+    return this.tasks.get(taskId)?.task;
   }
 
-  async set(taskId: string, task: Task): Promise<void> {
-    this.tasks.set(taskId, task);
+  async set(taskId: string, task: Task, owner?: string): Promise<void> {
+    this.tasks.set(taskId, writeEntry(this.tasks.get(taskId), task, owner));
+  }
+
+  async getOwner(taskId: string): Promise<string | undefined> {
+    return this.tasks.get(taskId)?.owner;
   }
 
   async delete(taskId: string): Promise<void> {
     this.tasks.delete(taskId);
   }
 
+  async list(query?: TaskQuery): Promise<TaskPage> {
+    return listEntries(this.tasks.values(), query);
+  }
+
   /** Returns the number of tasks currently stored. */
   get size(): number {
     return this.tasks.size;
@@ -0,0 +1,44 @@
+import type { Task } from '../types/task.js';
+import type { QueryableTaskStore, TaskPage, TaskQuery } from '../types/plugin.js';
+import { SnapError } from '../errors/SnapError.js';
+import type { ValidatingTaskStore } from './ValidatingTaskStore.js';
+
+/**
+ * One requester's view of a task store, handed to handlers as `context.taskStore`.
+ * Tasks owned by other addresses read as missing and cannot be written or deleted;
+ * tasks written through the view are recorded as the requester's; `list()` only
+ * sees the requester's tasks. Tasks with no recorded owner stay visible to everyone
+ * when the store records owners.
+ */
+export class ScopedTaskStore implements QueryableTaskStore {
+  /** @param owner Address of the requester. */
+  constructor(readonly inner: ValidatingTaskStore, readonly owner: string) {}
+
+  async get(taskId: string): Promise<Task | undefined> {
+    return (await this.visible(taskId)) ? this.inner.get(taskId) : undefined;
+  }
+
+  /** @throws SnapError TASK_NOT_FOUND if the task belongs to another requester. */
+  async set(taskId: string, task: Task): Promise<void> {
+    if (!(await this.visible(taskId))) throw SnapError.taskNotFound(taskId);
+    await this.inner.set(taskId, task, this.owner);
+  }
+
+  async delete(taskId: string): Promise<void> {
+    if (await this.visible(taskId)) await this.inner.delete(taskId);
+  }
+
+  /** @throws Error if the underlying store is not a QueryableTaskStore. */
+  async list(query?: TaskQuery): Promise<TaskPage> {
+    return this.inner.list({ ...query, owner: this.owner });
+  }
+
+  async getOwner(taskId: string): Promise<string | undefined> {
+    return (await this.visible(taskId)) ? this.inner.getOwner(taskId) : undefined;
+  }
+
+  /** Whether the requester may see a task (see `ValidatingTaskStore.canAccess()`). */
+  async visible(taskId: string): Promise<boolean> {
+    return this.inner.canAccess(taskId, this.owner);
+  }
+}
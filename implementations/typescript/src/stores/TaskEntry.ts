@@ -0,0 +1,80 @@
+import type { Task } from '../types/task.js';
+import type { TaskPage, TaskQuery } from '../types/plugin.js';
+import { SnapError } from '../errors/SnapError.js';
+
+/** A stored task with the bookkeeping `QueryableTaskStore.list()` filters on. Times are ms since epoch. */
+export interface TaskEntry {
+  task: Task;
+  owner?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DEFAULT_LIMIT = 50;
+
+/** The entry a write stores: creation time and owner carry over from the previous entry. */
+export function writeEntry(previous: TaskEntry | undefined, task: Task, owner?: string, now = Date.now()): TaskEntry {
+  const kept = previous?.owner ?? owner;
+  return {
+    task,
+    ...(kept !== undefined ? { owner: kept } : {}),
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * One page of the entries matching `query`, newest created first (ties by task ID).
+ * The cursor names the last task returned, so it survives writes between pages.
+ */
+export function listEntries(entries: Iterable<TaskEntry>, query: TaskQuery = {}): TaskPage {
+  const after = query.cursor !== undefined ? decodeCursor(query.cursor) : undefined;
+  const states = query.state === undefined ? undefined : [query.state].flat();
+  const limit = Math.max(1, query.limit ?? DEFAULT_LIMIT);
+
+  const matches: TaskEntry[] = [];
+  for (const entry of entries) {
+    if (query.owner !== undefined && entry.owner !== query.owner) continue;
+    if (states && !states.includes(entry.task.status.state)) continue;
+    if (query.contextId !== undefined && entry.task.contextId !== query.contextId) continue;
+    if (query.updatedAfter !== undefined && entry.updatedAt < query.updatedAfter) continue;
+    if (query.updatedBefore !== undefined && entry.updatedAt >= query.updatedBefore) continue;
+    if (after && compare(entry, after) <= 0) continue;
+    matches.push(entry);
+  }
+  matches.sort((a, b) => compare(a, { createdAt: b.createdAt, id: b.task.id }));
+
+  const page = matches.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    tasks: page.map((entry) => entry.task),
+    ...(matches.length > limit ? { nextCursor: encodeCursor(last.createdAt, last.task.id) } : {}),
+  };
+}
+
+interface Position {
+  createdAt: number;
+  id: string;
+}
+
+/** Order in a listing: negative if `entry` comes before `position`. */
+function compare(entry: TaskEntry, position: Position): number {
+  if (entry.createdAt !== position.createdAt) return position.createdAt - entry.createdAt;
+  return entry.task.id < position.id ? 1 : entry.task.id > position.id ? -1 : 0;
+}
+
+function encodeCursor(createdAt: number, id: string): string {
+  return Buffer.from(JSON.stringify([createdAt, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): Position {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Number.isFinite(createdAt) && typeof id === 'string') return { createdAt, id };
+  } catch {
+    // fall through
+  }
+  throw SnapError.invalidPayload('Invalid cursor', [
+    { field: 'payload.cursor', constraint: 'format', expected: 'cursor', received: cursor },
+  ]);
+}
@@ -0,0 +1,150 @@
+import type { Task } from '../types/task.js';
+import type { TaskState } from '../types/message.js';
+import type { TaskStore, QueryableTaskStore, TaskPage, TaskQuery } from '../types/plugin.js';
+import { SnapError } from '../errors/SnapError.js';
+
+/** Allowed state transitions (docs/messages.md "State Transitions"). */
+const TASK_TRANSITIONS: Readonly<Record<TaskState, readonly TaskState[]>> = {
+  submitted: ['working', 'failed', 'canceled'],
+  working: ['completed', 'failed', 'canceled', 'input_required'],
+  input_required: ['working', 'failed', 'canceled'],
+  completed: [],
+  failed: [],
+  canceled: [],
+};
+
+/**
+ * TaskStore decorator that enforces the task state machine on every write.
+ * A new task must start in `submitted`. Illegal transitions are rejected with
+ * an INVALID_TASK_STATE SnapError, and `status.timestamp` is stamped whenever
+ * the state changes. A task's `contextId` is fixed once set (a write without
+ * one keeps it). Owners and `list()` pass through to the wrapped store when it
+ * is a QueryableTaskStore, and a task may then only join a context whose tasks
+ * have the same owner (docs/messages.md "Context"). For other stores the owners
+ * are kept here in memory, and `canAccess()` refuses existing tasks whose owner
+ * is unknown, e.g. after a restart.
+ */
+export class ValidatingTaskStore implements QueryableTaskStore {
+  readonly inner: TaskStore;
+  /** Owners of tasks in an inner store that cannot record them. */
+  private readonly owners = new Map<string, string>();
+
+  constructor(inner: TaskStore) {
+    this.inner = inner;
+  }
+
+  /** Wrap a store, returning it unchanged if it already validates. */
+  static wrap(store: TaskStore): ValidatingTaskStore {
+    return store instanceof ValidatingTaskStore ? store : new ValidatingTaskStore(store);
+  }
+
+  /** Whether a state is terminal (no further transitions allowed). */
+  static isTerminal(state: TaskState): boolean {
+    return isKnownState(state) && TASK_TRANSITIONS[state].length === 0;
+  }
+
+  /** Whether `from → to` is allowed. Re-writing the same known state is always allowed. */
+  static canTransition(from: TaskState, to: TaskState): boolean {
+    if (!isKnownState(from) || !isKnownState(to)) return false;
+    return from === to || TASK_TRANSITIONS[from].includes(to);
+  }
+
+  /** Whether a store records owners and supports `list()`. */
+  static isQueryable(store: TaskStore): store is QueryableTaskStore {
+    return typeof (store as Partial<QueryableTaskStore>).list === 'function';
+  }
+
+  /** Whether the wrapped store supports `list()`. */
+  get queryable(): boolean {
+    return ValidatingTaskStore.isQueryable(this.inner);
+  }
+
+  async get(taskId: string): Promise<Task | undefined> {
+    return this.inner.get(taskId);
+  }
+
+  async set(taskId: string, task: Task, owner?: string): Promise<void> {
+    const previous = await this.inner.get(taskId);
+    const from = previous?.status.state;
+    const to = task.status.state;
+
+    if (from === undefined ? to !== 'submitted' : !ValidatingTaskStore.canTransition(from, to)) {
+      throw SnapError.invalidTaskTransition(taskId, from ?? 'none', to);
+    }
+
+    let stamped: Task = from !== to || !task.status.timestamp
+      ? { ...task, status: { ...task.status, timestamp: new Date().toISOString() } }
+      : task;
+
+    if (previous?.contextId !== undefined) {
+      if (stamped.contextId === undefined) {
+        stamped = { ...stamped, contextId: previous.contextId };
+      } else if (stamped.contextId !== previous.contextId) {
+        throw SnapError.invalidPayload('Task contextId cannot change', [
+          { field: 'task.contextId', constraint: 'const', expected: previous.contextId, received: stamped.contextId },
+        ]);
+      }
+    } else if (stamped.contextId !== undefined) {
+      await this.checkContextOwner(taskId, stamped.contextId, owner);
+    }
+
+    if (owner !== undefined && ValidatingTaskStore.isQueryable(this.inner)) {
+      await this.inner.set(taskId, stamped, owner);
+    } else {
+      await this.inner.set(taskId, stamped);
+      if (owner !== undefined && !this.queryable && !this.owners.has(taskId)) this.owners.set(taskId, owner);
+    }
+  }
+
+  async delete(taskId: string): Promise<void> {
+    await this.inner.delete(taskId);
+    this.owners.delete(taskId);
+  }
+
+  /** @throws Error if the wrapped store is not a QueryableTaskStore. */
+  async list(query?: TaskQuery): Promise<TaskPage> {
+    if (!ValidatingTaskStore.isQueryable(this.inner)) {
+      throw new Error('Task store does not support list()');
+    }
+    return this.inner.list(query);
+  }
+
+  /** Owner recorded by the wrapped store, or kept here when it cannot record owners. */
+  async getOwner(taskId: string): Promise<string | undefined> {
+    return ValidatingTaskStore.isQueryable(this.inner) ? this.inner.getOwner(taskId) : this.owners.get(taskId);
+  }
+
+  /**
+   * Whether `requester` may use a task: it owns the task, or the task has no owner.
+   * With a store that cannot record owners, an existing task whose owner is unknown
+   * is refused. Unknown task IDs are always accessible.
+   */
+  async canAccess(taskId: string, requester: string): Promise<boolean> {
+    const owner = await this.getOwner(taskId);
+    if (owner !== undefined) return owner === requester;
+    return this.queryable || (await this.inner.get(taskId)) === undefined;
+  }
+
+  /** Reject joining a context that holds a task owned by someone else. Runs once per task. */
+  private async checkContextOwner(taskId: string, contextId: string, owner?: string): Promise<void> {
+    if (!ValidatingTaskStore.isQueryable(this.inner)) return;
+    const inner = this.inner;
+    const taskOwner = (await inner.getOwner(taskId)) ?? owner;
+
+    let cursor: string | undefined;
+    do {
+      const page = await inner.list({ contextId, cursor, limit: 100 });
+      for (const member of page.tasks) {
+        const memberOwner = await inner.getOwner(member.id);
+        if (memberOwner !== undefined && memberOwner !== taskOwner) {
+          throw SnapError.contextNotOwned(taskId, contextId);
+        }
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+}
+
+function isKnownState(state: string): state is TaskState {
+  return Object.hasOwn(TASK_TRANSITIONS, state);
+}
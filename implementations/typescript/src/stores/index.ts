@@ -1,2 +1,11 @@
 export { InMemoryReplayStore } from './InMemoryReplayStore.js';
+export type { InMemoryReplayStoreOptions } from './InMemoryReplayStore.js';
+export { InMemoryResponseStore } from './InMemoryResponseStore.js';
+export type { InMemoryResponseStoreOptions } from './InMemoryResponseStore.js';
 export { InMemoryTaskStore } from './InMemoryTaskStore.js';
+export { FileTaskStore } from './FileTaskStore.js';
+export type { FileTaskStoreOptions } from './FileTaskStore.js';
+export { FileReplayStore } from './FileReplayStore.js';
+export type { FileReplayStoreOptions } from './FileReplayStore.js';
+export { ValidatingTaskStore } from './ValidatingTaskStore.js';
+export { ScopedTaskStore } from './ScopedTaskStore.js';
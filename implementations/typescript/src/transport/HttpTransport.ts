@@ -3,15 +3,19 @@ import { sha256 } from '@noble/hashes/sha256';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
 import { schnorr } from '@noble/curves/secp256k1.js';
 import type { SnapMessage } from '../types/message.js';
-import type { TransportSendOptions, TransportLogger } from '../types/plugin.js';
+import type { TransportSendOptions, TransportLogger, InboundInfo } from '../types/plugin.js';
 import type { StreamTransportPlugin } from '../types/transport.js';
 import type { AgentCard, SignedAgentCard } from '../types/agent-card.js';
 import type { PrivateKeyHex } from '../types/keys.js';
-import { ErrorCodes } from '../types/errors.js';
+import { ErrorCodes, type SnapErrorData } from '../types/errors.js';
 import { Canonicalizer } from '../crypto/Canonicalizer.js';
 import { KeyManager } from '../crypto/KeyManager.js';
+import { SnapError } from '../errors/SnapError.js';
+import { MessageValidator } from '../messaging/MessageValidator.js';
+import { sizeLimits, readBody, type SizeLimits } from '../messaging/SizeLimits.js';
 
 const WELL_KNOWN_PATH = '/.well-known/snap-agent.json';
+const VERSION_HEADER = 'SNAP-Version';
 
 export interface HttpTransportConfig {
   /** Port to listen on (default: 3000). */
@@ -22,6 +26,8 @@ export interface HttpTransportConfig {
   path?: string;
   /** Request timeout in milliseconds (default: 30000). */
   timeout?: number;
+  /** Size limits; request bodies over `maxMessageBytes` are rejected with 413 while streaming. */
+  limits?: Partial<SizeLimits>;
   /** Optional logger for diagnostic events. */
   logger?: TransportLogger;
 }
@@ -30,10 +36,10 @@ export interface HttpTransportConfig {
 export class HttpTransport implements StreamTransportPlugin {
   readonly name = 'http';
 
-  private readonly config: Required<Omit<HttpTransportConfig, 'logger'>> & { logger?: TransportLogger };
+  private readonly config: Required<Omit<HttpTransportConfig, 'logger' | 'limits'>> & { limits: SizeLimits; logger?: TransportLogger };
   private server: Server | null = null;
-  private handler: ((message: SnapMessage) => Promise<SnapMessage | void>) | null = null;
-  private streamHandler: ((message: SnapMessage) => AsyncIterable<SnapMessage>) | null = null;
+  private handler: ((message: SnapMessage, info?: InboundInfo) => Promise<SnapMessage | void>) | null = null;
+  private streamHandler: ((message: SnapMessage, info?: InboundInfo) => AsyncIterable<SnapMessage>) | null = null;
   private signedCard: SignedAgentCard | null = null;
 
   constructor(config?: HttpTransportConfig) {
@@ -42,6 +48,7 @@ export class HttpTransport implements StreamTransportPlugin {
       host: config?.host ?? '0.0.0.0',
       path: config?.path ?? '/',
       timeout: config?.timeout ?? 30_000,
+      limits: sizeLimits(config?.limits),
       logger: config?.logger,
     };
   }
@@ -57,16 +64,23 @@ export class HttpTransport implements StreamTransportPlugin {
     try {
       const response = await fetch(options.endpoint, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...versionHeader(message.version) },
         body: JSON.stringify(message),
         signal: controller.signal,
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        return await this.readErrorResponse(response);
       }
 
-      return (await response.json()) as SnapMessage;
+      const limit = this.config.limits.maxMessageBytes;
+      const declared = Number(response.headers.get('content-length'));
+      if (declared > limit) {
+        controller.abort();
+        throw SnapError.tooLarge('message', limit, declared);
+      }
+
+      return JSON.parse(await readLimited(response.body, limit, controller)) as SnapMessage;
     } finally {
       clearTimeout(timeoutId);
     }
@@ -85,13 +99,15 @@ export class HttpTransport implements StreamTransportPlugin {
       headers: {
         'Content-Type': 'application/json',
         Accept: 'text/event-stream',
+        ...versionHeader(message.version),
       },
       body: JSON.stringify(message),
       signal: controller.signal,
     });
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      yield await this.readErrorResponse(response);
+      return;
     }
 
     if (!response.body) {
@@ -113,7 +129,7 @@ export class HttpTransport implements StreamTransportPlugin {
 
   /** Start the HTTP server and handle incoming requests. */
   async listen(
-    handler: (message: SnapMessage) => Promise<SnapMessage | void>,
+    handler: (message: SnapMessage, info?: InboundInfo) => Promise<SnapMessage | void>,
   ): Promise<void> {
     this.handler = handler;
     await this.ensureServer();
@@ -121,7 +137,7 @@ export class HttpTransport implements StreamTransportPlugin {
 
   /** Register a stream handler for incoming SSE requests. */
   async listenStream(
-    handler: (message: SnapMessage) => AsyncIterable<SnapMessage>,
+    handler: (message: SnapMessage, info?: InboundInfo) => AsyncIterable<SnapMessage>,
   ): Promise<void> {
     this.streamHandler = handler;
     await this.ensureServer();
@@ -164,15 +180,17 @@ export class HttpTransport implements StreamTransportPlugin {
   /**
    * Fetch and verify an agent card from a well-known URL.
    * @param baseUrl The base URL of the agent (e.g., "https://agent.example.com")
+   * @param limits Card size limits, checked before the signature.
    * @returns The verified AgentCard, or throws if verification fails.
    */
-  static async discoverViaHttp(baseUrl: string): Promise<AgentCard> {
+  static async discoverViaHttp(baseUrl: string, limits?: Partial<SizeLimits>): Promise<AgentCard> {
     const url = baseUrl.replace(/\/$/, '') + WELL_KNOWN_PATH;
     const response = await fetch(url);
     if (!response.ok) {
       throw new Error(`Discovery failed: HTTP ${response.status} from ${url}`);
     }
     const signed = (await response.json()) as SignedAgentCard;
+    MessageValidator.validateCardSize(signed.card, limits);
 
     // Verify signature
     const canonical = Canonicalizer.canonicalize(signed.card);
@@ -197,10 +215,15 @@ export class HttpTransport implements StreamTransportPlugin {
 
     this.server = createServer((req, res) => {
       this.handleRequest(req, res).catch((err) => {
-        this.config.logger?.('error', 'HTTP request handler error', err);
+        if (err instanceof SnapError) {
+          this.config.logger?.('debug', 'HTTP request rejected', err);
+        } else {
+          this.config.logger?.('error', 'HTTP request handler error', err);
+        }
         if (!res.headersSent) {
-          res.writeHead(500, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'Internal server error' }));
+          this.writeError(res, SnapError.from(err));
+        } else {
+          res.end();
         }
       });
     });
@@ -245,58 +268,101 @@ export class HttpTransport implements StreamTransportPlugin {
       return;
     }
 
-    const body = await this.readBody(req);
+    let body: string;
+    try {
+      body = await readBody(req, this.config.limits.maxMessageBytes);
+    } catch (err) {
+      // The rest of an oversized body is never read; drop the connection after answering
+      res.setHeader('Connection', 'close');
+      throw err;
+    }
 
     let message: SnapMessage;
     try {
       message = JSON.parse(body) as SnapMessage;
     } catch {
-      res.writeHead(400, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Malformed JSON' }));
+      this.writeError(res, SnapError.invalidMessage('Malformed JSON'));
+      return;
+    }
+
+    // The SNAP-Version header is advisory but must not contradict the signed body
+    const headerVersion = req.headers[VERSION_HEADER.toLowerCase()];
+    if (typeof headerVersion === 'string' && headerVersion !== message?.version) {
+      this.writeError(res, SnapError.invalidMessage(
+        `${VERSION_HEADER} header ${headerVersion} does not match message version ${String(message?.version)}`,
+      ));
       return;
     }
 
     const acceptSSE = req.headers.accept?.includes('text/event-stream');
+    const info: InboundInfo = { remoteAddress: req.socket.remoteAddress };
 
     if (acceptSSE && this.streamHandler) {
-      // SSE streaming response
+      // Pull the first event before committing to SSE so early failures get a real status code
+      const events = this.streamHandler(message, info)[Symbol.asyncIterator]();
+      let next = await events.next();
+
       res.writeHead(200, {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         Connection: 'keep-alive',
+        ...versionHeader(next.done ? undefined : next.value.version),
       });
 
-      for await (const event of this.streamHandler(message)) {
-        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      try {
+        while (!next.done) {
+          res.write(`data: ${JSON.stringify(next.value)}\n\n`);
+          next = await events.next();
+        }
+      } catch (err) {
+        this.config.logger?.('warn', 'SSE stream handler error', err);
+        res.write(`data: ${JSON.stringify({ error: SnapError.from(err).toJSON() })}\n\n`);
       }
 
       res.end();
     } else if (this.handler) {
-      // Standard request-response
-      const response = await this.handler(message);
+      // Standard request-response; error responses carry the mapped HTTP status
+      const response = await this.handler(message, info);
       if (response) {
-        res.writeHead(200, { 'Content-Type': 'application/json' });
+        const error = response.payload?.error;
+        const status = SnapError.isErrorData(error) ? SnapError.httpStatus(error.code, error.data) : 200;
+        res.writeHead(status, {
+          'Content-Type': 'application/json',
+          ...versionHeader(response.version),
+          ...(SnapError.isErrorData(error) ? retryAfterHeader(error) : {}),
+        });
         res.end(JSON.stringify(response));
       } else {
         res.writeHead(204);
         res.end();
       }
     } else {
-      // No handler — return SNAP error in payload (HTTP 200)
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        error: { code: ErrorCodes.METHOD_NOT_FOUND, message: 'No handler registered' },
-      }));
+      this.writeError(res, new SnapError(ErrorCodes.METHOD_NOT_FOUND, 'No handler registered'));
     }
   }
 
-  private readBody(req: IncomingMessage): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const chunks: Buffer[] = [];
-      req.on('data', (chunk: Buffer) => chunks.push(chunk));
-      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
-      req.on('error', reject);
+  /** Write a bare `{ error }` body with the HTTP status mapped from the error code. */
+  private writeError(res: ServerResponse, error: SnapError): void {
+    res.writeHead(SnapError.httpStatus(error.code, error.data), {
+      'Content-Type': 'application/json',
+      ...retryAfterHeader(error),
     });
+    res.end(JSON.stringify({ error: error.toJSON() }));
+  }
+
+  /**
+   * Interpret a non-2xx reply: a SNAP error response is returned as-is,
+   * a bare `{ error }` body becomes a SnapError, anything else a plain HTTP error.
+   */
+  private async readErrorResponse(response: Response): Promise<SnapMessage> {
+    const body = (await response.json().catch(() => undefined)) as Record<string, unknown> | undefined;
+    if (body?.type === 'response') {
+      return body as unknown as SnapMessage;
+    }
+    if (SnapError.isErrorData(body?.error)) {
+      throw SnapError.fromData(body.error);
+    }
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
   }
 
   private async *parseSSE(
@@ -315,6 +381,9 @@ export class HttpTransport implements StreamTransportPlugin {
         buffer += decoder.decode(value, { stream: true });
         const parts = buffer.split('\n\n');
         buffer = parts.pop()!;
+        if (buffer.length > this.config.limits.maxMessageBytes) {
+          throw SnapError.tooLarge('message', this.config.limits.maxMessageBytes, buffer.length);
+        }
 
         for (const part of parts) {
           const dataLine = part
@@ -322,7 +391,7 @@ export class HttpTransport implements StreamTransportPlugin {
             .find((line) => line.startsWith('data: '));
           if (dataLine) {
             onEvent();
-            yield JSON.parse(dataLine.slice(6)) as SnapMessage;
+            yield parseEvent(dataLine.slice(6));
           }
         }
       }
@@ -334,7 +403,7 @@ export class HttpTransport implements StreamTransportPlugin {
           .find((line) => line.startsWith('data: '));
         if (dataLine) {
           onEvent();
-          yield JSON.parse(dataLine.slice(6)) as SnapMessage;
+          yield parseEvent(dataLine.slice(6));
         }
       }
     } finally {
@@ -342,3 +411,43 @@ export class HttpTransport implements StreamTransportPlugin {
     }
   }
 }
+
+/** Read a response body as UTF-8, aborting once it passes `limit` bytes. */
+async function readLimited(
+  body: ReadableStream<Uint8Array> | null,
+  limit: number,
+  controller: AbortController,
+): Promise<string> {
+  if (!body) return '';
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    received += chunk.byteLength;
+    if (received > limit) {
+      controller.abort();
+      throw SnapError.tooLarge('message', limit);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/** Parse one SSE data frame. A bare `{ error }` frame (stream aborted server-side) throws. */
+function parseEvent(data: string): SnapMessage {
+  const parsed = JSON.parse(data) as SnapMessage & { error?: unknown };
+  if (parsed.type === undefined && SnapError.isErrorData(parsed.error)) {
+    throw SnapError.fromData(parsed.error);
+  }
+  return parsed;
+}
+
+/** `Retry-After` header for errors that carry `data.retryAfter` (seconds), e.g. RATE_LIMIT_EXCEEDED. */
+function retryAfterHeader(error: SnapErrorData): Record<string, string> {
+  const retryAfter = error.data?.retryAfter;
+  return typeof retryAfter === 'number' ? { 'Retry-After': String(Math.ceil(retryAfter)) } : {};
+}
+
+/** `SNAP-Version` header mirroring a message's protocol version (docs/versioning.md "Version in HTTP"). */
+function versionHeader(version: unknown): Record<string, string> {
+  return typeof version === 'string' ? { [VERSION_HEADER]: version } : {};
+}
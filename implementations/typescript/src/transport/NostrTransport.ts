@@ -11,10 +11,13 @@ import * as nip44 from 'nostr-tools/nip44';
 import { hexToBytes } from '@noble/hashes/utils';
 import WebSocket from 'ws';
 import type { SnapMessage } from '../types/message.js';
-import type { TransportPlugin, TransportSendOptions, TransportLogger } from '../types/plugin.js';
+import type { TransportPlugin, TransportSendOptions, TransportLogger, InboundInfo } from '../types/plugin.js';
 import type { P2TRAddress } from '../types/keys.js';
 import type { AgentCard } from '../types/agent-card.js';
 import { KeyManager } from '../crypto/KeyManager.js';
+import { SnapError } from '../errors/SnapError.js';
+import { MessageValidator } from '../messaging/MessageValidator.js';
+import { sizeLimits, type SizeLimits } from '../messaging/SizeLimits.js';
 
 /** Nostr event kind for storable SNAP messages (regular range, persisted by relays). */
 export const SNAP_MESSAGE_KIND = 4339;
@@ -40,6 +43,11 @@ export interface NostrTransportConfig {
   agentCardKind?: number;
   /** Lookback window in seconds for response subscription (default: 5). */
   responseLookbackSeconds?: number;
+  /**
+   * Size limits. Inbound events whose content exceeds `maxNostrContentBytes`
+   * (or `maxCardBytes` for agent cards) are dropped before decryption.
+   */
+  limits?: Partial<SizeLimits>;
   /** Optional logger for diagnostic events. */
   logger?: TransportLogger;
   /** Optional HTTP headers to send with WebSocket connections (e.g. User-Agent). Node.js only. */
@@ -56,7 +64,7 @@ export interface AgentDiscoveryFilter {
 export class NostrTransport implements TransportPlugin {
   readonly name = 'nostr';
 
-  private readonly config: Required<Pick<NostrTransportConfig, 'relays' | 'privateKey' | 'timeout' | 'messageKind' | 'storableMessageKind' | 'agentCardKind' | 'responseLookbackSeconds'>> & { logger?: TransportLogger };
+  private readonly config: Required<Pick<NostrTransportConfig, 'relays' | 'privateKey' | 'timeout' | 'messageKind' | 'storableMessageKind' | 'agentCardKind' | 'responseLookbackSeconds'>> & { limits: SizeLimits; logger?: TransportLogger };
   private readonly pool: SimplePool;
   private readonly pubkey: string;
   private readonly secretKeyBytes: Uint8Array;
@@ -72,6 +80,7 @@ export class NostrTransport implements TransportPlugin {
       storableMessageKind: config.storableMessageKind ?? SNAP_MESSAGE_KIND,
       agentCardKind: config.agentCardKind ?? SNAP_AGENT_CARD_KIND,
       responseLookbackSeconds: config.responseLookbackSeconds ?? 5,
+      limits: sizeLimits(config.limits),
       logger: config.logger,
     };
 
@@ -98,7 +107,8 @@ export class NostrTransport implements TransportPlugin {
    * Send an encrypted SNAP message to another agent via Nostr.
    * The recipient's internal (untweaked) Nostr pubkey is required for NIP-44 encryption.
    * Provide it via options.nostrPubkey, or it will be looked up from the internal cache
-   * (populated by discoverAgents()).
+   * (populated by discoverAgents()). The request goes to `options.relays` when given,
+   * otherwise to the configured relays; `options.endpoint` is ignored.
    */
   async send(message: SnapMessage, options: TransportSendOptions): Promise<SnapMessage> {
     if (!message.to) {
@@ -117,6 +127,9 @@ export class NostrTransport implements TransportPlugin {
 
     const conversationKey = nip44.v2.utils.getConversationKey(this.secretKeyBytes, recipientPubkey);
     const encrypted = nip44.v2.encrypt(JSON.stringify(message), conversationKey);
+    if (Buffer.byteLength(encrypted) > this.config.limits.maxNostrContentBytes) {
+      throw SnapError.tooLarge('content', this.config.limits.maxNostrContentBytes, Buffer.byteLength(encrypted));
+    }
 
     const eventKind = options.persist
       ? this.config.storableMessageKind
@@ -130,6 +143,7 @@ export class NostrTransport implements TransportPlugin {
     };
 
     const signed = finalizeEvent(eventTemplate, this.secretKeyBytes);
+    const relays = options.relays?.length ? options.relays : this.config.relays;
 
     // Subscribe for response FIRST, then publish the request.
     // finalizeEvent() computes the event ID before publishing, so we can
@@ -150,8 +164,9 @@ export class NostrTransport implements TransportPlugin {
         since: Math.floor(Date.now() / 1000) - this.config.responseLookbackSeconds,
       };
 
-      const sub = this.pool.subscribeMany(this.config.relays, filter, {
+      const sub = this.pool.subscribeMany(relays, filter, {
         onevent: (event: NostrEvent) => {
+          if (this.oversized(event, this.config.limits.maxNostrContentBytes)) return;
           try {
             const senderConvKey = nip44.v2.utils.getConversationKey(
               this.secretKeyBytes,
@@ -179,7 +194,7 @@ export class NostrTransport implements TransportPlugin {
       });
 
       // Publish AFTER subscription is set up
-      this.publishToRelays(signed).catch((err) => {
+      this.publishToRelays(signed, relays).catch((err) => {
         clearTimeout(timeout);
         sub.close();
         reject(err);
@@ -189,7 +204,7 @@ export class NostrTransport implements TransportPlugin {
 
   /** Subscribe to incoming SNAP messages. */
   async listen(
-    handler: (message: SnapMessage) => Promise<SnapMessage | void>,
+    handler: (message: SnapMessage, info?: InboundInfo) => Promise<SnapMessage | void>,
   ): Promise<void> {
     const filter: Filter = {
       kinds: [...new Set([this.config.messageKind, this.config.storableMessageKind])],
@@ -199,6 +214,7 @@ export class NostrTransport implements TransportPlugin {
 
     this.subscriptionCloser = this.pool.subscribeMany(this.config.relays, filter, {
       onevent: async (event: NostrEvent) => {
+        if (this.oversized(event, this.config.limits.maxNostrContentBytes)) return;
         try {
           const conversationKey = nip44.v2.utils.getConversationKey(
             this.secretKeyBytes,
@@ -224,6 +240,10 @@ export class NostrTransport implements TransportPlugin {
 
           if (response) {
             const respEncrypted = nip44.v2.encrypt(JSON.stringify(response), conversationKey);
+            if (Buffer.byteLength(respEncrypted) > this.config.limits.maxNostrContentBytes) {
+              this.config.logger?.('warn', `Response ${response.id} exceeds ${this.config.limits.maxNostrContentBytes} bytes; not published`);
+              return;
+            }
 
             const respEvent: EventTemplate = {
               kind: event.kind,  // Mirror the request's kind (ephemeral or storable)
@@ -246,8 +266,15 @@ export class NostrTransport implements TransportPlugin {
     });
   }
 
+  /** Internal Nostr pubkey for a P2TR address, if learned through discoverAgents(). */
+  getNostrPubkey(address: string): string | undefined {
+    return this.internalKeyCache.get(address);
+  }
+
   /** Publish an agent card as a Nostr replaceable event (kind 31337). */
   async publishAgentCard(card: AgentCard): Promise<void> {
+    MessageValidator.validateCardSize(card, this.config.limits);
+
     const tags: string[][] = [
       ['d', card.identity],
       ['name', card.name],
@@ -302,8 +329,10 @@ export class NostrTransport implements TransportPlugin {
     const events = await this.pool.querySync(this.config.relays, nostrFilter);
 
     return events.map((event) => {
+      if (this.oversized(event, this.config.limits.maxCardBytes)) return null;
       try {
         const card = JSON.parse(event.content) as AgentCard;
+        MessageValidator.validateCardSize(card, this.config.limits);
 
         // Cache the P2TR address → internal Nostr pubkey mapping for NIP-44 encryption
         if (card.identity) {
@@ -312,7 +341,7 @@ export class NostrTransport implements TransportPlugin {
 
         return card;
       } catch (err) {
-        this.config.logger?.('warn', 'Failed to parse agent card from Nostr event', err);
+        this.config.logger?.('warn', 'Failed to parse or validate agent card from Nostr event', err);
         return null;
       }
     }).filter((card): card is AgentCard => card !== null);
@@ -330,6 +359,7 @@ export class NostrTransport implements TransportPlugin {
     const messages: SnapMessage[] = [];
 
     for (const event of events) {
+      if (this.oversized(event, this.config.limits.maxNostrContentBytes)) continue;
       try {
         const conversationKey = nip44.v2.utils.getConversationKey(
           this.secretKeyBytes,
@@ -354,13 +384,21 @@ export class NostrTransport implements TransportPlugin {
     return messages;
   }
 
+  /** True (and logged) if an event's content is over `limit` bytes; such events are not decrypted or parsed. */
+  private oversized(event: NostrEvent, limit: number): boolean {
+    const bytes = Buffer.byteLength(event.content);
+    if (bytes <= limit) return false;
+    this.config.logger?.('warn', `Dropping Nostr event ${event.id}: content is ${bytes} bytes (limit ${limit})`);
+    return true;
+  }
+
   /**
-   * Publish a signed Nostr event to all configured relays.
+   * Publish a signed Nostr event to `relays` (default: all configured relays).
    * Throws if no relay accepts the event.
    */
-  private async publishToRelays(event: NostrEvent): Promise<void> {
+  private async publishToRelays(event: NostrEvent, relays = this.config.relays): Promise<void> {
     const results = await Promise.allSettled(
-      this.pool.publish(this.config.relays, event),
+      this.pool.publish(relays, event),
     );
 
     const successes = results.filter(r => r.status === 'fulfilled');
@@ -373,7 +411,7 @@ export class NostrTransport implements TransportPlugin {
       );
     }
 
-    this.config.logger?.('debug', `Published to ${successes.length}/${this.config.relays.length} relays`);
+    this.config.logger?.('debug', `Published to ${successes.length}/${relays.length} relays`);
   }
 
   /** Close all relay connections and subscriptions. */
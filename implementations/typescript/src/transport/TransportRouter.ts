@@ -0,0 +1,235 @@
+import type { SnapMessage } from '../types/message.js';
+import type { TransportPlugin, TransportSendOptions, TransportLogger } from '../types/plugin.js';
+import type { StreamTransportPlugin, RouteProtocol, TransportAttempt } from '../types/transport.js';
+import type { AgentCard } from '../types/agent-card.js';
+import { SnapError } from '../errors/SnapError.js';
+import { ErrorCodes } from '../types/errors.js';
+
+export interface RetryPolicy {
+  /** Retries after the first attempt. */
+  retries: number;
+  /** Delay in ms before the first retry, doubled for each further retry. */
+  backoff: number;
+}
+
+export interface TransportRouterConfig {
+  /** Per-protocol retry policy, merged over `DEFAULT_RETRY_POLICY`. */
+  retry?: Partial<Record<RouteProtocol, RetryPolicy>>;
+  /** Response timeout in ms for the Nostr fallback (default: 30000). */
+  nostrTimeout?: number;
+  /**
+   * Re-sign a request (same `id`, fresh timestamp) before every attempt after the
+   * first, so late retries and fallbacks stay inside the receiver's timestamp window.
+   * `SnapAgent` supplies its own signer.
+   */
+  resign?: (message: SnapMessage) => SnapMessage;
+  /** Without `resign`, stop sending a request once it is this many ms old (default: 50000). */
+  maxRequestAge?: number;
+  /** Optional logger for failed attempts. */
+  logger?: TransportLogger;
+}
+
+/**
+ * Retry guidance from the transport spec: HTTP retries 3 times (1s, 2s, 4s);
+ * WebSocketTransport already reconnects once on its own; Nostr waits for its timeout.
+ */
+export const DEFAULT_RETRY_POLICY: Readonly<Record<RouteProtocol, RetryPolicy>> = {
+  http: { retries: 3, backoff: 1_000 },
+  wss: { retries: 0, backoff: 0 },
+  nostr: { retries: 0, backoff: 0 },
+};
+
+/** Registered transport name serving each card protocol. */
+const TRANSPORT_NAMES: Record<RouteProtocol, string> = {
+  http: 'http',
+  wss: 'websocket',
+  nostr: 'nostr',
+};
+
+/** A declared way to reach an agent, with the registered transport that serves it. */
+export interface Route {
+  protocol: RouteProtocol;
+  /** Endpoint URL, or the comma-joined relay list for Nostr (sent to the transport as `relays`). */
+  endpoint: string;
+  transport?: TransportPlugin;
+}
+
+/**
+ * Delivers messages to a peer using only the routes its AgentCard declares:
+ * each of `endpoints` in order (with that protocol's retry policy), then Nostr
+ * if `nostrRelays` is declared. A SnapError is the peer's answer and is rethrown
+ * as-is; when every route fails the router throws TRANSPORT_UNAVAILABLE listing each attempt.
+ *
+ * Every attempt carries the same message `id`. If an earlier attempt reached the
+ * peer but its answer was lost, a peer with a response store answers the retry
+ * with the original response (`deduplicated: true`). A peer without one answers
+ * DUPLICATE_MESSAGE, which the router rethrows with `retried: true` in its data:
+ * the request was delivered, and only its answer is unknown.
+ */
+export class TransportRouter {
+  private readonly retry: Record<RouteProtocol, RetryPolicy>;
+  private readonly nostrTimeout: number;
+  private readonly resign?: (message: SnapMessage) => SnapMessage;
+  private readonly maxRequestAge: number;
+  private readonly logger?: TransportLogger;
+
+  /** @param transports Registered transports; read on every send, so later additions are picked up. */
+  constructor(private readonly transports: readonly TransportPlugin[], config?: TransportRouterConfig) {
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...config?.retry };
+    this.nostrTimeout = config?.nostrTimeout ?? 30_000;
+    this.resign = config?.resign;
+    this.maxRequestAge = config?.maxRequestAge ?? 50_000;
+    this.logger = config?.logger;
+  }
+
+  /** Routes for a card, in the order they will be tried. Undeclared protocols are never included. */
+  routes(card: AgentCard): Route[] {
+    const routes: Route[] = (card.endpoints ?? []).map((ep) => this.route(ep.protocol, ep.url));
+    if (card.nostrRelays?.length) {
+      routes.push(this.route('nostr', card.nostrRelays.join(',')));
+    }
+    return routes;
+  }
+
+  /**
+   * Send a request along the card's routes.
+   * @throws SnapError TRANSPORT_UNAVAILABLE when every route fails, or the peer's SnapError.
+   */
+  async send(card: AgentCard, message: SnapMessage, options?: Partial<TransportSendOptions>): Promise<SnapMessage> {
+    const attempts: TransportAttempt[] = [];
+    let sent = 0;
+
+    for (const route of this.routes(card)) {
+      const transport = route.transport;
+      if (!transport) {
+        attempts.push(unserved(route));
+        continue;
+      }
+
+      const policy = this.retry[route.protocol];
+      for (let attempt = 1; attempt <= policy.retries + 1; attempt++) {
+        if (attempt > 1) await sleep(policy.backoff * 2 ** (attempt - 2));
+        const resend = sent++ > 0;
+        const outgoing = this.outgoing(message, resend, route, attempt, attempts);
+        if (!outgoing) throw SnapError.transportUnavailable(attempts);
+        try {
+          return await transport.send(outgoing, this.sendOptions(route, options));
+        } catch (err) {
+          if (err instanceof SnapError) throw retried(err, resend);
+          attempts.push(this.failed(route, attempt, err));
+        }
+      }
+    }
+
+    throw SnapError.transportUnavailable(attempts);
+  }
+
+  /**
+   * Stream a request along the card's streaming-capable routes. Failures before the
+   * first event fall back like `send()`; once events flow, errors propagate.
+   * @throws SnapError TRANSPORT_UNAVAILABLE when every route fails, or the peer's SnapError.
+   */
+  async *sendStream(
+    card: AgentCard,
+    message: SnapMessage,
+    options?: Partial<TransportSendOptions>,
+  ): AsyncIterable<SnapMessage> {
+    const attempts: TransportAttempt[] = [];
+    let sent = 0;
+
+    for (const route of this.routes(card)) {
+      const transport = route.transport as StreamTransportPlugin | undefined;
+      if (!transport) {
+        attempts.push(unserved(route));
+        continue;
+      }
+      if (typeof transport.sendStream !== 'function') {
+        attempts.push({ protocol: route.protocol, endpoint: route.endpoint, attempt: 1, error: 'Transport does not support streaming' });
+        continue;
+      }
+
+      const policy = this.retry[route.protocol];
+      for (let attempt = 1; attempt <= policy.retries + 1; attempt++) {
+        if (attempt > 1) await sleep(policy.backoff * 2 ** (attempt - 2));
+        const resend = sent++ > 0;
+        const outgoing = this.outgoing(message, resend, route, attempt, attempts);
+        if (!outgoing) throw SnapError.transportUnavailable(attempts);
+        let started = false;
+        try {
+          for await (const event of transport.sendStream(outgoing, this.sendOptions(route, options))) {
+            started = true;
+            yield event;
+          }
+          return;
+        } catch (err) {
+          if (started) throw err;
+          if (err instanceof SnapError) throw retried(err, resend);
+          attempts.push(this.failed(route, attempt, err));
+        }
+      }
+    }
+
+    throw SnapError.transportUnavailable(attempts);
+  }
+
+  /**
+   * The message for this attempt: the original for the first send, then a re-signed
+   * copy. Without `resign`, undefined (recorded as a failed attempt) once the
+   * request is too old for the peer to accept.
+   */
+  private outgoing(
+    message: SnapMessage,
+    resend: boolean,
+    route: Route,
+    attempt: number,
+    attempts: TransportAttempt[],
+  ): SnapMessage | undefined {
+    if (!resend) return message;
+    if (this.resign) return this.resign(message);
+    if (Date.now() - message.timestamp * 1000 <= this.maxRequestAge) return message;
+    attempts.push(this.failed(route, attempt, new Error('Request too old to resend without re-signing')));
+    return undefined;
+  }
+
+  private route(protocol: RouteProtocol, endpoint: string): Route {
+    const transport = this.transports.find((tp) => tp.name === TRANSPORT_NAMES[protocol]);
+    return { protocol, endpoint, transport };
+  }
+
+  private sendOptions(route: Route, options?: Partial<TransportSendOptions>): TransportSendOptions {
+    return route.protocol === 'nostr'
+      ? {
+        ...options,
+        endpoint: route.endpoint,
+        relays: route.endpoint.split(','),
+        timeout: options?.timeout ?? this.nostrTimeout,
+      }
+      : { ...options, endpoint: route.endpoint };
+  }
+
+  private failed(route: Route, attempt: number, err: unknown): TransportAttempt {
+    const error = err instanceof Error ? err.message : String(err);
+    this.logger?.('debug', `${route.protocol} attempt ${attempt} to ${route.endpoint} failed: ${error}`);
+    return { protocol: route.protocol, endpoint: route.endpoint, attempt, error };
+  }
+}
+
+function unserved(route: Route): TransportAttempt {
+  return {
+    protocol: route.protocol,
+    endpoint: route.endpoint,
+    attempt: 1,
+    error: `No ${TRANSPORT_NAMES[route.protocol]} transport registered`,
+  };
+}
+
+/** Mark a DUPLICATE_MESSAGE answering a resend: the request reached the peer earlier. */
+function retried(err: SnapError, resend: boolean): SnapError {
+  return resend && err.code === ErrorCodes.DUPLICATE_MESSAGE
+    ? new SnapError(err.code, err.message, { ...err.data, retried: true })
+    : err;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,18 +1,40 @@
 import { WebSocketServer, WebSocket as WsWebSocket } from 'ws';
 import { createServer, type Server as HttpServer } from 'node:http';
 import type { SnapMessage } from '../types/message.js';
-import type { TransportSendOptions, TransportLogger } from '../types/plugin.js';
+import type { TransportSendOptions, TransportLogger, InboundInfo } from '../types/plugin.js';
 import type { StreamTransportPlugin } from '../types/transport.js';
+import { SnapError } from '../errors/SnapError.js';
+import { sizeLimits, type SizeLimits } from '../messaging/SizeLimits.js';
+
+/** Close code sent by `ws` when a frame exceeds `maxPayload` (RFC 6455 "Message Too Big"). */
+const CLOSE_TOO_BIG = 1009;
+
+/** `ws` error code for an inbound frame over `maxPayload`. */
+const ERR_TOO_BIG = 'WS_ERR_UNSUPPORTED_MESSAGE_LENGTH';
 
 export interface WebSocketTransportConfig {
   /** Port to listen on (default: 8080). */
   port?: number;
   /** Hostname to bind to (default: '0.0.0.0'). */
   host?: string;
-  /** Heartbeat interval in ms (default: 30000). Set to 0 to disable. */
+  /**
+   * Heartbeat interval in ms (default: 30000). Set to 0 to disable. Applies to both the
+   * server and pooled client sockets: a socket that misses a pong is terminated.
+   */
   heartbeatInterval?: number;
   /** Request timeout in ms (default: 30000). */
   timeout?: number;
+  /** Reconnect retries after an established client connection drops (default: 1). */
+  reconnectAttempts?: number;
+  /** Base delay in ms between reconnect retries, doubled on each retry (default: 1000). */
+  reconnectDelay?: number;
+  /**
+   * Close a pooled client socket after this many ms with no exchange in flight (default: 5000).
+   * The next send reconnects. Set to 0 to keep sockets open until `close()`.
+   */
+  idleTimeout?: number;
+  /** Size limits; frames over `maxMessageBytes` close the connection with 1009. */
+  limits?: Partial<SizeLimits>;
   /** Optional logger for diagnostic events. */
   logger?: TransportLogger;
 }
@@ -34,12 +56,17 @@ interface PendingStream {
 export class WebSocketTransport implements StreamTransportPlugin {
   readonly name = 'websocket';
 
-  private readonly config: Required<Omit<WebSocketTransportConfig, 'logger'>> & { logger?: TransportLogger };
+  private readonly config: Required<Omit<WebSocketTransportConfig, 'logger' | 'limits'>> & {
+    limits: SizeLimits;
+    logger?: TransportLogger;
+  };
   private httpServer: HttpServer | null = null;
   private wss: WebSocketServer | null = null;
-  private handler: ((message: SnapMessage) => Promise<SnapMessage | void>) | null = null;
-  private streamHandler: ((message: SnapMessage) => AsyncIterable<SnapMessage>) | null = null;
+  private handler: ((message: SnapMessage, info?: InboundInfo) => Promise<SnapMessage | void>) | null = null;
+  private streamHandler: ((message: SnapMessage, info?: InboundInfo) => AsyncIterable<SnapMessage>) | null = null;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  /** Long-lived client connections, one per endpoint. */
+  private readonly connections = new Map<string, ClientConnection>();
 
   constructor(config?: WebSocketTransportConfig) {
     this.config = {
@@ -47,50 +74,35 @@ export class WebSocketTransport implements StreamTransportPlugin {
       host: config?.host ?? '0.0.0.0',
       heartbeatInterval: config?.heartbeatInterval ?? 30_000,
       timeout: config?.timeout ?? 30_000,
+      reconnectAttempts: config?.reconnectAttempts ?? 1,
+      reconnectDelay: config?.reconnectDelay ?? 1_000,
+      idleTimeout: config?.idleTimeout ?? 5_000,
+      limits: sizeLimits(config?.limits),
       logger: config?.logger,
     };
   }
 
-  /** Send a request and wait for a single response. */
+  /** Send a request over the pooled connection and wait for the response correlated with it. */
   async send(message: SnapMessage, options: TransportSendOptions): Promise<SnapMessage> {
-    const ws = await this.connect(options.endpoint);
+    const connection = this.connection(options.endpoint);
     const timeout = options.timeout ?? this.config.timeout;
 
-    try {
-      return await new Promise<SnapMessage>((resolve, reject) => {
-        const timer = setTimeout(() => {
-          reject(new Error('WebSocket request timed out'));
-        }, timeout);
-
-        const onMessage = (data: WsWebSocket.Data) => {
-          clearTimeout(timer);
-          ws.off('message', onMessage);
-          try {
-            resolve(JSON.parse(data.toString()) as SnapMessage);
-          } catch (err) {
-            reject(err);
-          }
-        };
-
-        ws.on('message', onMessage);
-        ws.on('error', (err) => {
-          clearTimeout(timer);
-          reject(err);
-        });
+    return new Promise<SnapMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        connection.forget(message.id);
+        reject(new Error('WebSocket request timed out'));
+      }, timeout);
 
-        ws.send(JSON.stringify(message));
-      });
-    } finally {
-      ws.close();
-    }
+      connection.request(message, { resolve, reject, timer });
+    });
   }
 
-  /** Send a request and receive a stream of responses. */
+  /** Send a request over the pooled connection and receive the stream of events correlated with it. */
   async *sendStream(
     message: SnapMessage,
     options: TransportSendOptions,
   ): AsyncIterable<SnapMessage> {
-    const ws = await this.connect(options.endpoint);
+    const connection = this.connection(options.endpoint);
     const timeout = options.timeout ?? this.config.timeout;
 
     const queue: SnapMessage[] = [];
@@ -98,45 +110,35 @@ export class WebSocketTransport implements StreamTransportPlugin {
     let error: Error | null = null;
     let resolveWait: (() => void) | null = null;
 
-    const resetTimer = () => {
-      clearTimeout(timer);
-      timer = setTimeout(() => {
-        error = new Error('WebSocket stream timed out');
-        done = true;
-        resolveWait?.();
-      }, timeout);
-    };
-
-    let timer = setTimeout(() => {
+    const onTimeout = () => {
+      connection.forget(message.id);
       error = new Error('WebSocket stream timed out');
       done = true;
       resolveWait?.();
-    }, timeout);
+    };
 
-    ws.on('message', (data: WsWebSocket.Data) => {
-      resetTimer();
-      const msg = JSON.parse(data.toString()) as SnapMessage;
-      queue.push(msg);
-      if (msg.type === 'response') {
+    const pending: PendingStream = {
+      push: (msg) => {
+        clearTimeout(pending.timer);
+        pending.timer = setTimeout(onTimeout, timeout);
+        queue.push(msg);
+        resolveWait?.();
+      },
+      end: () => {
+        clearTimeout(pending.timer);
         done = true;
-      }
-      resolveWait?.();
-    });
-
-    ws.on('error', (err) => {
-      clearTimeout(timer);
-      error = err instanceof Error ? err : new Error(String(err));
-      done = true;
-      resolveWait?.();
-    });
-
-    ws.on('close', () => {
-      clearTimeout(timer);
-      done = true;
-      resolveWait?.();
-    });
+        resolveWait?.();
+      },
+      error: (err) => {
+        clearTimeout(pending.timer);
+        error = err;
+        done = true;
+        resolveWait?.();
+      },
+      timer: setTimeout(onTimeout, timeout),
+    };
 
-    ws.send(JSON.stringify(message));
+    connection.stream(message, pending);
 
     try {
       while (true) {
@@ -149,14 +151,14 @@ export class WebSocketTransport implements StreamTransportPlugin {
         resolveWait = null;
       }
     } finally {
-      clearTimeout(timer);
-      ws.close();
+      clearTimeout(pending.timer);
+      connection.forget(message.id);
     }
   }
 
   /** Start the WebSocket server and handle incoming messages. */
   async listen(
-    handler: (message: SnapMessage) => Promise<SnapMessage | void>,
+    handler: (message: SnapMessage, info?: InboundInfo) => Promise<SnapMessage | void>,
   ): Promise<void> {
     this.handler = handler;
     await this.ensureServer();
@@ -164,14 +166,19 @@ export class WebSocketTransport implements StreamTransportPlugin {
 
   /** Register a stream handler for incoming requests. */
   async listenStream(
-    handler: (message: SnapMessage) => AsyncIterable<SnapMessage>,
+    handler: (message: SnapMessage, info?: InboundInfo) => AsyncIterable<SnapMessage>,
   ): Promise<void> {
     this.streamHandler = handler;
     await this.ensureServer();
   }
 
-  /** Stop the WebSocket server. */
+  /** Stop the WebSocket server and close all pooled client connections. */
   async close(): Promise<void> {
+    for (const connection of this.connections.values()) {
+      connection.close();
+    }
+    this.connections.clear();
+
     if (this.heartbeatTimer) {
       clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
@@ -202,43 +209,59 @@ export class WebSocketTransport implements StreamTransportPlugin {
     return undefined;
   }
 
-  private connect(endpoint: string): Promise<WsWebSocket> {
-    return new Promise((resolve, reject) => {
-      const ws = new WsWebSocket(endpoint);
-      ws.once('open', () => resolve(ws));
-      ws.once('error', reject);
-    });
+  private connection(endpoint: string): ClientConnection {
+    let connection = this.connections.get(endpoint);
+    if (!connection) {
+      connection = new ClientConnection(endpoint, this.config);
+      this.connections.set(endpoint, connection);
+    }
+    return connection;
   }
 
   private async ensureServer(): Promise<void> {
     if (this.wss) return;
 
     this.httpServer = createServer();
-    this.wss = new WebSocketServer({ server: this.httpServer });
+    this.wss = new WebSocketServer({ server: this.httpServer, maxPayload: this.config.limits.maxMessageBytes });
 
-    this.wss.on('connection', (ws) => {
+    this.wss.on('connection', (ws, req) => {
+      const info: InboundInfo = { remoteAddress: req.socket.remoteAddress };
       (ws as any).isAlive = true;
       ws.on('pong', () => { (ws as any).isAlive = true; });
+      // Oversized frames are rejected by `ws` itself, which then closes with 1009
+      ws.on('error', (err) => this.config.logger?.('warn', 'WebSocket server error', err));
 
       ws.on('message', async (data) => {
+        let requestId: unknown;
         try {
-          const message = JSON.parse(data.toString()) as SnapMessage;
+          let message: SnapMessage;
+          try {
+            message = JSON.parse(data.toString()) as SnapMessage;
+          } catch {
+            throw SnapError.invalidMessage('Malformed JSON');
+          }
+          requestId = message?.id;
           const isStreamRequest =
             message.method === 'message/stream' ||
             message.method === 'tasks/resubscribe';
 
           if (isStreamRequest && this.streamHandler) {
-            for await (const event of this.streamHandler(message)) {
+            for await (const event of this.streamHandler(message, info)) {
               ws.send(JSON.stringify(event));
             }
           } else if (this.handler) {
-            const response = await this.handler(message);
+            const response = await this.handler(message, info);
             if (response) {
               ws.send(JSON.stringify(response));
             }
           }
         } catch (err) {
           this.config.logger?.('warn', 'Failed to process WebSocket message', err);
+          // Answer with a bare `{ error }` frame so the caller fails fast instead of timing out
+          if (ws.readyState === WsWebSocket.OPEN) {
+            const inReplyTo = typeof requestId === 'string' ? { inReplyTo: requestId } : {};
+            ws.send(JSON.stringify({ error: SnapError.from(err).toJSON(), ...inReplyTo }));
+          }
         }
       });
     });
@@ -262,3 +285,279 @@ export class WebSocketTransport implements StreamTransportPlugin {
     });
   }
 }
+
+interface ClientConnectionConfig {
+  heartbeatInterval: number;
+  reconnectAttempts: number;
+  reconnectDelay: number;
+  idleTimeout: number;
+  limits: SizeLimits;
+  logger?: TransportLogger;
+}
+
+/**
+ * A long-lived client connection to one endpoint, multiplexing concurrent
+ * requests and streams. Replies are matched to requests by `payload.inReplyTo`
+ * (or the top-level `inReplyTo` of a bare error frame); uncorrelated frames are dropped.
+ *
+ * Frames sent while (re)connecting are buffered and flushed once the socket opens.
+ * The socket is pinged every `heartbeatInterval` and terminated when a pong is missed,
+ * and closed once no exchange has been in flight for `idleTimeout`.
+ * When an established connection drops, exchanges already on the wire (streams
+ * included) fail, and the next send reconnects with `reconnectAttempts` retries.
+ */
+class ClientConnection {
+  private ws: WsWebSocket | null = null;
+  private opening: Promise<void> | null = null;
+  private everOpened = false;
+  private closed = false;
+  private readonly outbox: SnapMessage[] = [];
+  private readonly requests = new Map<string, PendingRequest>();
+  private readonly streams = new Map<string, PendingStream>();
+  /** IDs of requests already written to the current socket. */
+  private readonly sent = new Set<string>();
+  /** Set when the current socket received a frame over our own size limit. */
+  private rejectedFrame = false;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private idle: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly config: ClientConnectionConfig,
+  ) {}
+
+  request(message: SnapMessage, pending: PendingRequest): void {
+    this.requests.set(message.id, pending);
+    this.write(message);
+  }
+
+  stream(message: SnapMessage, pending: PendingStream): void {
+    this.streams.set(message.id, pending);
+    this.write(message);
+  }
+
+  /** Stop tracking an exchange (timed out or abandoned); late replies are dropped. */
+  forget(id: string): void {
+    this.requests.delete(id);
+    this.streams.delete(id);
+    this.sent.delete(id);
+    const index = this.outbox.findIndex((m) => m.id === id);
+    if (index !== -1) this.outbox.splice(index, 1);
+    this.scheduleIdleClose();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.stopHeartbeat();
+    this.cancelIdleClose();
+    this.ws?.close();
+    this.ws = null;
+    this.fail(new Error('WebSocket transport closed'), [...this.requests.keys(), ...this.streams.keys()]);
+  }
+
+  private write(message: SnapMessage): void {
+    this.cancelIdleClose();
+    if (this.ws?.readyState === WsWebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+      this.sent.add(message.id);
+      return;
+    }
+    this.outbox.push(message);
+    this.open();
+  }
+
+  private open(): void {
+    if (this.opening || this.closed) return;
+
+    const attempts = this.everOpened ? 1 + this.config.reconnectAttempts : 1;
+    this.opening = this.connect(attempts).then(
+      () => {
+        this.opening = null;
+        this.flush();
+        this.scheduleIdleClose();
+      },
+      (err: Error) => {
+        this.opening = null;
+        this.fail(err, this.outbox.splice(0).map((m) => m.id));
+      },
+    );
+  }
+
+  private async connect(attempts: number): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        this.ws = await this.dial();
+        this.everOpened = true;
+        return;
+      } catch (err) {
+        if (attempt + 1 >= attempts || this.closed) throw err;
+        this.config.logger?.('debug', `Reconnecting to ${this.endpoint}`, err);
+        await new Promise((r) => setTimeout(r, this.config.reconnectDelay * 2 ** attempt));
+      }
+    }
+  }
+
+  private dial(): Promise<WsWebSocket> {
+    return new Promise((resolve, reject) => {
+      const ws = new WsWebSocket(this.endpoint, { maxPayload: this.config.limits.maxMessageBytes });
+      ws.once('open', () => {
+        ws.off('error', reject);
+        ws.on('error', (err) => {
+          if ((err as NodeJS.ErrnoException).code === ERR_TOO_BIG) this.rejectedFrame = true;
+          this.config.logger?.('warn', 'WebSocket client error', err);
+        });
+        ws.on('message', (data) => this.route(data));
+        ws.once('close', (code) => this.onClose(ws, code));
+        this.startHeartbeat(ws);
+        resolve(ws);
+      });
+      ws.once('error', reject);
+    });
+  }
+
+  /** Terminate the socket if a ping goes unanswered for a whole interval, so it is not reused half-open. */
+  private startHeartbeat(ws: WsWebSocket): void {
+    if (this.config.heartbeatInterval <= 0) return;
+    let alive = true;
+    ws.on('pong', () => { alive = true; });
+    this.heartbeat = setInterval(() => {
+      if (!alive) {
+        this.config.logger?.('debug', `WebSocket to ${this.endpoint} missed a heartbeat`);
+        ws.terminate();
+        return;
+      }
+      alive = false;
+      ws.ping();
+    }, this.config.heartbeatInterval);
+    this.heartbeat.unref?.();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+
+  /** Close the socket once it has stayed idle for `idleTimeout`, so a finished client can exit. */
+  private scheduleIdleClose(): void {
+    if (this.idle || !this.ws || this.config.idleTimeout <= 0 || this.busy()) return;
+    this.idle = setTimeout(() => {
+      this.idle = null;
+      const ws = this.ws;
+      if (!ws || this.busy()) return;
+      this.config.logger?.('debug', `Closing idle WebSocket to ${this.endpoint}`);
+      this.ws = null;
+      this.stopHeartbeat();
+      this.sent.clear();
+      ws.close();
+    }, this.config.idleTimeout);
+    this.idle.unref?.();
+  }
+
+  private cancelIdleClose(): void {
+    if (this.idle) clearTimeout(this.idle);
+    this.idle = null;
+  }
+
+  private busy(): boolean {
+    return this.requests.size + this.streams.size + this.outbox.length > 0;
+  }
+
+  private flush(): void {
+    for (const message of this.outbox.splice(0)) {
+      this.write(message);
+    }
+  }
+
+  private onClose(ws: WsWebSocket, code: number): void {
+    if (this.ws !== ws) return;
+    this.ws = null;
+    this.stopHeartbeat();
+
+    // Replies to exchanges already on the wire are lost with the socket
+    const inFlight = [...this.sent];
+    this.sent.clear();
+    const rejectedFrame = this.rejectedFrame;
+    this.rejectedFrame = false;
+    if (rejectedFrame || code === CLOSE_TOO_BIG) {
+      // A frame was over our limit, or (1009 from the peer) over theirs; fail streams too
+      const limit = rejectedFrame ? this.config.limits.maxMessageBytes : undefined;
+      this.fail(SnapError.tooLarge('message', limit), inFlight);
+    } else {
+      // Streams fail too: ending them would pass a truncated stream off as complete
+      this.fail(new Error('WebSocket connection closed'), inFlight);
+    }
+
+    if (this.outbox.length > 0) this.open();
+  }
+
+  private route(data: WsWebSocket.Data): void {
+    let frame: Frame;
+    try {
+      frame = parseFrame(data);
+    } catch (err) {
+      this.config.logger?.('warn', 'Malformed WebSocket frame', err);
+      return;
+    }
+
+    const id = frame.inReplyTo;
+    const request = id !== undefined ? this.requests.get(id) : undefined;
+    const stream = id !== undefined ? this.streams.get(id) : undefined;
+    if (!request && !stream) {
+      this.config.logger?.('debug', 'Dropping uncorrelated WebSocket frame');
+      return;
+    }
+
+    if (request) {
+      this.forget(id!);
+      clearTimeout(request.timer);
+      if (frame.error) request.reject(frame.error);
+      else request.resolve(frame.message!);
+      return;
+    }
+
+    if (frame.error) {
+      this.forget(id!);
+      stream!.error(frame.error);
+      return;
+    }
+    stream!.push(frame.message!);
+    if (frame.message!.type === 'response') {
+      this.forget(id!);
+      stream!.end();
+    }
+  }
+
+  private fail(err: Error, ids: string[]): void {
+    for (const id of ids) {
+      const request = this.requests.get(id);
+      const stream = this.streams.get(id);
+      this.forget(id);
+      if (request) {
+        clearTimeout(request.timer);
+        request.reject(err);
+      }
+      stream?.error(err);
+    }
+  }
+}
+
+interface Frame {
+  message?: SnapMessage;
+  /** Set for a bare `{ error }` frame (request rejected server-side). */
+  error?: SnapError;
+  /** ID of the request this frame answers, when the peer says so. */
+  inReplyTo?: string;
+}
+
+/** Parse one inbound frame and extract its correlation reference. */
+function parseFrame(data: WsWebSocket.Data): Frame {
+  const parsed = JSON.parse(data.toString()) as SnapMessage & { error?: unknown; inReplyTo?: unknown };
+  if (parsed.type === undefined && SnapError.isErrorData(parsed.error)) {
+    return {
+      error: SnapError.fromData(parsed.error),
+      ...(typeof parsed.inReplyTo === 'string' ? { inReplyTo: parsed.inReplyTo } : {}),
+    };
+  }
+  const inReplyTo = parsed.payload?.inReplyTo;
+  return { message: parsed, ...(typeof inReplyTo === 'string' ? { inReplyTo } : {}) };
+}
@@ -6,3 +6,6 @@ export type { WebSocketTransportConfig } from './WebSocketTransport.js';
 
 export { NostrTransport, SNAP_MESSAGE_KIND, SNAP_EPHEMERAL_MESSAGE_KIND, SNAP_AGENT_CARD_KIND } from './NostrTransport.js';
 export type { NostrTransportConfig, AgentDiscoveryFilter } from './NostrTransport.js';
+
+export { TransportRouter, DEFAULT_RETRY_POLICY } from './TransportRouter.js';
+export type { TransportRouterConfig, RetryPolicy, Route } from './TransportRouter.js';
@@ -4,6 +4,19 @@ export interface SnapErrorData {
   data?: Record<string, unknown>;
 }
 
+/**
+ * One invalid field, in the shape of docs/constraints.md "Error Responses".
+ * `received` is omitted when the field is missing.
+ */
+export interface FieldViolation {
+  /** Dotted path of the field, e.g. `id` or `payload.message.parts`. */
+  field: string;
+  /** Violated rule: `required`, `type`, `pattern`, `enum`, `minimum`, `maxBytes`, ... */
+  constraint: string;
+  expected: unknown;
+  received?: unknown;
+}
+
 export const ErrorCodes = {
   // 1xxx — Task / Message
   TASK_NOT_FOUND: 1001,
@@ -13,6 +26,7 @@ export const ErrorCodes = {
   CONTENT_TYPE_NOT_SUPPORTED: 1005,
   PUSH_NOTIFICATION_ERROR: 1006,
   METHOD_NOT_FOUND: 1007,
+  INVALID_TASK_STATE: 1008,
 
   // 2xxx — Authentication
   SIGNATURE_INVALID: 2001,
@@ -21,6 +35,7 @@ export const ErrorCodes = {
   TIMESTAMP_EXPIRED: 2004,
   IDENTITY_INVALID: 2005,
   DUPLICATE_MESSAGE: 2006,
+  UNAUTHORIZED: 2007,
 
   // 3xxx — Discovery
   AGENT_NOT_FOUND: 3001,
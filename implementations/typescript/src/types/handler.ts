@@ -5,9 +5,40 @@ import type {
   TasksGetResponse,
   TasksCancelRequest,
   TasksCancelResponse,
+  TasksListRequest,
+  TasksListResponse,
+  ServiceCallRequest,
+  ServiceCallResponse,
 } from './payloads.js';
 import type { SnapMessage } from './message.js';
 import type { TaskStore } from './plugin.js';
+import type { Task, InnerMessage } from './task.js';
+import type { Part } from './part.js';
+
+/** Request/response payload types of one method. */
+export interface MethodTypes<Req = Record<string, unknown>, Res = Record<string, unknown>> {
+  request: Req;
+  response: Res;
+}
+
+/**
+ * Method name → payload types, for declaring custom methods. Pass one as the
+ * SnapAgent type parameter to type `handle()`, `handleStream()` and `call()`.
+ *
+ * ```ts
+ * interface WeatherMethods {
+ *   'weather/get': MethodTypes<{ city: string }, { tempC: number }>;
+ * }
+ * const agent = new SnapAgent<WeatherMethods>({ privateKey, card });
+ * ```
+ */
+export type MethodMap<T> = { [M in keyof T]: MethodTypes<unknown, unknown> };
+
+/** Request payload type of a method in a method map. */
+export type MethodRequest<Methods, M extends keyof Methods> = (Methods[M] & MethodTypes<unknown, unknown>)['request'];
+
+/** Response payload type of a method in a method map. */
+export type MethodResponse<Methods, M extends keyof Methods> = (Methods[M] & MethodTypes<unknown, unknown>)['response'];
 
 /** Maps method names to their request/response payload types. */
 export interface MethodPayloadMap {
@@ -16,24 +47,66 @@ export interface MethodPayloadMap {
   'tasks/get': { request: TasksGetRequest; response: TasksGetResponse };
   'tasks/cancel': { request: TasksCancelRequest; response: TasksCancelResponse };
   'tasks/resubscribe': { request: TasksGetRequest; response: TasksGetResponse };
+  'tasks/list': { request: TasksListRequest; response: TasksListResponse };
+  'service/call': { request: ServiceCallRequest; response: ServiceCallResponse };
 }
 
 /** Context passed to every handler. */
 export interface HandlerContext {
   /** The full inbound SNAP message (already validated). */
   message: SnapMessage;
-  /** The task store, if configured. */
+  /**
+   * The task store, if configured, scoped to the requester (a `ScopedTaskStore`):
+   * tasks owned by other senders read as missing.
+   */
   taskStore?: TaskStore;
+  /** The task tracked for this message/send, when a TaskManager is configured. */
+  task?: Task;
+  /**
+   * Turns of the earlier tasks in `task`'s context, oldest first, when a TaskManager with a
+   * queryable store is configured. Empty for the first task of a context.
+   */
+  contextHistory?: InnerMessage[];
 }
 
 /** Request-response handler for a specific method. */
-export type MethodHandler<M extends keyof MethodPayloadMap> = (
-  payload: MethodPayloadMap[M]['request'],
+export type MethodHandler<M extends keyof Methods, Methods = MethodPayloadMap> = (
+  payload: MethodRequest<Methods, M>,
   context: HandlerContext,
-) => Promise<MethodPayloadMap[M]['response']> | MethodPayloadMap[M]['response'];
+) => Promise<MethodResponse<Methods, M>> | MethodResponse<Methods, M>;
+
+/** Context of a conversation handler. `message` is the request that started the conversation. */
+export interface ConversationContext extends HandlerContext {
+  /** The conversation's task as of its first turn. */
+  task: Task;
+  /**
+   * Ask the requester for more input. Stores the prompt as an agent turn and the task as
+   * `input_required`, answers the pending message/send, and resolves with the user turn
+   * of the next message/send carrying this task's ID.
+   */
+  ask(prompt: string | Part[]): Promise<InnerMessage>;
+}
+
+/**
+ * message/send handler that can pause for input with `context.ask()`. Returning ends the
+ * conversation; a response without a `task` marks the task `completed`.
+ */
+export type ConversationHandler = (
+  payload: MessageSendRequest,
+  context: ConversationContext,
+) => Promise<MessageSendResponse | void>;
 
 /** Streaming handler — yields events and a final response. */
-export type StreamMethodHandler<M extends keyof MethodPayloadMap> = (
-  payload: MethodPayloadMap[M]['request'],
+export type StreamMethodHandler<M extends keyof Methods, Methods = MethodPayloadMap> = (
+  payload: MethodRequest<Methods, M>,
   context: HandlerContext,
 ) => AsyncIterable<SnapMessage>;
+
+/**
+ * Handler for one service/call tool. Receives the call's `arguments` and returns
+ * its result, which is sent back as `{ result }`.
+ */
+export type ToolHandler<Args = Record<string, unknown>, Result = unknown> = (
+  args: Args,
+  context: HandlerContext,
+) => Promise<Result> | Result;
@@ -17,7 +17,7 @@ export type {
   SigningIntermediates,
 } from './message.js';
 
-export type { SnapErrorData, ErrorCode } from './errors.js';
+export type { SnapErrorData, ErrorCode, FieldViolation } from './errors.js';
 export { ErrorCodes } from './errors.js';
 
 export type {
@@ -25,10 +25,16 @@ export type {
   TransportPlugin,
   TransportSendOptions,
   ReplayStore,
+  ResponseStore,
   TaskStore,
+  QueryableTaskStore,
+  TaskQuery,
+  TaskPage,
   Middleware,
   MiddlewareContext,
   NextFn,
+  PeerInfo,
+  InboundInfo,
 } from './plugin.js';
 
 export type {
@@ -66,17 +72,30 @@ export type {
   TasksGetResponse,
   TasksCancelRequest,
   TasksCancelResponse,
+  TasksListRequest,
+  TasksListResponse,
+  ServiceCallRequest,
+  ServiceCallResponse,
 } from './payloads.js';
 
 export type {
   MethodPayloadMap,
+  MethodTypes,
+  MethodMap,
+  MethodRequest,
+  MethodResponse,
   HandlerContext,
   MethodHandler,
   StreamMethodHandler,
+  ToolHandler,
+  ConversationContext,
+  ConversationHandler,
 } from './handler.js';
 
 export type {
   StreamTransportPlugin,
+  RouteProtocol,
+  TransportAttempt,
   TaskProgressEvent,
   TaskArtifactEvent,
 } from './transport.js';
@@ -8,6 +8,7 @@ export type MethodName =
   | 'tasks/get'
   | 'tasks/cancel'
   | 'tasks/resubscribe'
+  | 'tasks/list'
   | 'service/call'
   | (string & {});
 
@@ -1,6 +1,7 @@
 import type { InnerMessage } from './task.js';
 import type { Task } from './task.js';
 import type { SnapErrorData } from './errors.js';
+import type { TaskState } from './message.js';
 
 // ---------- message/send ----------
 
@@ -44,3 +45,48 @@ export interface TasksCancelResponse {
   task?: Task;
   error?: SnapErrorData;
 }
+
+// ---------- tasks/list ----------
+
+/** Payload for tasks/list requests. Lists the requester's own tasks, newest first. */
+export interface TasksListRequest {
+  /** One state, or any of several. */
+  state?: TaskState | TaskState[];
+  contextId?: string;
+  /** Only tasks updated at or after this time (ISO 8601). */
+  updatedAfter?: string;
+  /** Only tasks updated before this time (ISO 8601). */
+  updatedBefore?: string;
+  /** Maximum tasks per page (1–100). Default: 50. */
+  limit?: number;
+  /** `nextCursor` of the previous page. */
+  cursor?: string;
+  /** Max history turns per task; 0 omits history. */
+  historyLength?: number;
+}
+
+/** Payload for tasks/list responses. */
+export interface TasksListResponse {
+  tasks?: Task[];
+  /** Present when more tasks match. */
+  nextCursor?: string;
+  error?: SnapErrorData;
+}
+
+// ---------- service/call ----------
+
+/** Payload for service/call requests (Agent-to-Service). */
+export interface ServiceCallRequest {
+  /** Name of the service capability (tool) to invoke. */
+  name: string;
+  arguments?: Record<string, unknown>;
+}
+
+/**
+ * Payload for service/call responses. The protocol leaves the result format to
+ * the service; SnapService answers `{ result }` or `{ error }`.
+ */
+export interface ServiceCallResponse {
+  result?: unknown;
+  error?: SnapErrorData;
+}
@@ -1,5 +1,6 @@
-import type { SnapMessage } from './message.js';
+import type { SnapMessage, TaskState } from './message.js';
 import type { Task } from './task.js';
+import type { AgentCard } from './agent-card.js';
 
 // ---------- Transport Logger ----------
 
@@ -15,33 +16,117 @@ export interface TransportSendOptions {
   nostrPubkey?: string;
   /** When true, use storable Nostr event kind (4339) instead of ephemeral (21339). Enables offline message retrieval. Default: false. */
   persist?: boolean;
+  /** Relays the recipient declares (`AgentCard.nostrRelays`). Nostr publishes the request and awaits the reply there instead of its own relays. */
+  relays?: string[];
+}
+
+/** Where an inbound message came from. Transports fill in what they know. */
+export interface InboundInfo {
+  /** Name of the transport that received the message (set by SnapAgent). */
+  transport?: string;
+  /** Network address of the remote end (e.g. IP), when the transport knows it. */
+  remoteAddress?: string;
 }
 
 export interface TransportPlugin {
   readonly name: string;
   send(message: SnapMessage, options: TransportSendOptions): Promise<SnapMessage>;
-  listen?(handler: (message: SnapMessage) => Promise<SnapMessage | void>): Promise<void>;
+  listen?(handler: (message: SnapMessage, info?: InboundInfo) => Promise<SnapMessage | void>): Promise<void>;
   close?(): Promise<void>;
 }
 
 // ---------- Storage Plugin (future) ----------
 
 export interface ReplayStore {
-  hasSeen(from: string, id: string): Promise<boolean>;
+  /**
+   * Whether a message ID was already seen from this sender. Callers pass the signed
+   * `timestamp` (Unix seconds) so a store can reject messages too old to check.
+   */
+  hasSeen(from: string, id: string, timestamp?: number): Promise<boolean>;
   markSeen(from: string, id: string, timestamp: number): Promise<void>;
 }
 
+/**
+ * Remembers response payloads per sender so duplicates can be answered
+ * with the original result. Keys are namespaced by the caller
+ * (e.g. `id:<messageId>`, `key:<idempotencyKey>`).
+ */
+export interface ResponseStore {
+  get(from: string, key: string): Promise<Record<string, unknown> | undefined>;
+  set(from: string, key: string, payload: Record<string, unknown>): Promise<void>;
+}
+
 export interface TaskStore {
   get(taskId: string): Promise<Task | undefined>;
   set(taskId: string, task: Task): Promise<void>;
   delete(taskId: string): Promise<void>;
 }
 
-// ---------- Middleware (future) ----------
+/** Filters and paging for `QueryableTaskStore.list()`. Every filter given must match. */
+export interface TaskQuery {
+  /** Address of the requester the task was created for. */
+  owner?: string;
+  /** One state, or any of several. */
+  state?: TaskState | TaskState[];
+  contextId?: string;
+  /** Only tasks last written at or after this time (ms since epoch). */
+  updatedAfter?: number;
+  /** Only tasks last written before this time (ms since epoch). */
+  updatedBefore?: number;
+  /** Maximum tasks per page. Default: 50. */
+  limit?: number;
+  /** `nextCursor` of the previous page. */
+  cursor?: string;
+}
+
+/** One page of `QueryableTaskStore.list()`, newest task first. */
+export interface TaskPage {
+  tasks: Task[];
+  /** Present when more tasks match; pass it as `cursor` to get the next page. */
+  nextCursor?: string;
+}
+
+/**
+ * TaskStore that records who each task belongs to and can list tasks.
+ * Cursors stay valid while tasks are added, updated or deleted.
+ */
+export interface QueryableTaskStore extends TaskStore {
+  /** @param owner Address the task belongs to. Only the first write that gives one records it. */
+  set(taskId: string, task: Task, owner?: string): Promise<void>;
+  /** Address the task belongs to; undefined if the task is unknown or has no recorded owner. */
+  getOwner(taskId: string): Promise<string | undefined>;
+  /** @throws SnapError INVALID_PAYLOAD if `cursor` is malformed. */
+  list(query?: TaskQuery): Promise<TaskPage>;
+}
+
+// ---------- Middleware ----------
+
+/** The other side of an exchange. */
+export interface PeerInfo {
+  /** SNAP identity: `from` of an inbound request, `to` of an outbound one. */
+  address?: string;
+  /** Network address reported by the transport (inbound only). */
+  remoteAddress?: string;
+}
 
 export interface MiddlewareContext {
   message: SnapMessage;
   direction: 'inbound' | 'outbound';
+  /** Card of the agent running the middleware (set by SnapAgent). */
+  card?: AgentCard;
+  /** Transport that delivered an inbound message; unset when `processMessage()` is called directly. */
+  transport?: string;
+  peer: PeerInfo;
+  /** Per-exchange state shared by all middleware, across the inbound and outbound passes. */
+  state: Record<string, unknown>;
+  /**
+   * Response payload. Inbound: holds the handler's payload once `next()` returns and may be
+   * replaced; setting it without calling `next()` answers early and skips the handler.
+   * Outbound: the payload of the response being sent.
+   */
+  response?: Record<string, unknown>;
+  /** When the exchange started (ms since epoch). */
+  startedAt: number;
 }
 
 export type NextFn = () => Promise<void>;
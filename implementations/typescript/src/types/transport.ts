@@ -1,5 +1,5 @@
 import type { SnapMessage } from './message.js';
-import type { TransportPlugin, TransportSendOptions } from './plugin.js';
+import type { TransportPlugin, TransportSendOptions, InboundInfo } from './plugin.js';
 import type { Artifact } from './artifact.js';
 
 /** Extends TransportPlugin with streaming capability. */
@@ -12,10 +12,23 @@ export interface StreamTransportPlugin extends TransportPlugin {
 
   /** Listen for incoming stream requests. Handler returns a stream of responses. */
   listenStream?(
-    handler: (message: SnapMessage) => AsyncIterable<SnapMessage>,
+    handler: (message: SnapMessage, info?: InboundInfo) => AsyncIterable<SnapMessage>,
   ): Promise<void>;
 }
 
+/** Transport routes an AgentCard can declare: its `endpoints` protocols plus Nostr relays. */
+export type RouteProtocol = 'http' | 'wss' | 'nostr';
+
+/** One failed delivery attempt, as reported in TRANSPORT_UNAVAILABLE. */
+export interface TransportAttempt {
+  protocol: RouteProtocol;
+  /** Endpoint URL, or the relay list for Nostr. */
+  endpoint: string;
+  /** 1-based attempt number for this endpoint (retries count up). */
+  attempt: number;
+  error: string;
+}
+
 /** Progress update during streaming. */
 export interface TaskProgressEvent {
   taskId: string;
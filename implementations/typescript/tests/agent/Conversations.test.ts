@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TaskManager } from '../../src/agent/TaskManager.js';
+import { Conversations } from '../../src/agent/Conversations.js';
+import type { ConversationHandler, HandlerContext } from '../../src/types/handler.js';
+import type { InnerMessage } from '../../src/types/task.js';
+import type { MessageSendRequest } from '../../src/types/payloads.js';
+
+const turn = (text: string): InnerMessage => ({ messageId: `m-${text}`, role: 'user', parts: [{ text }] });
+const textOf = (message: InnerMessage) => (message.parts[0] as { text: string }).text;
+
+const context = { message: { from: 'bc1powner' } } as HandlerContext;
+
+describe('Conversations', () => {
+  let manager: TaskManager;
+
+  beforeEach(() => {
+    manager = new TaskManager();
+  });
+
+  function converse(handler: ConversationHandler, idleTimeout?: number) {
+    const conversations = new Conversations(manager, handler, { idleTimeout });
+    const send = (payload: MessageSendRequest) => manager.run(payload, context, conversations.handle);
+    return { conversations, send };
+  }
+
+  it('pauses in input_required at ask() and resumes with the next turn', async () => {
+    const { conversations, send } = converse(async (payload, ctx) => {
+      const name = await ctx.ask('What is your name?');
+      const city = await ctx.ask([{ text: 'Which city?' }]);
+      expect(textOf(payload.message)).toBe('hello');
+      return {
+        task: {
+          ...ctx.task,
+          artifacts: [{ artifactId: 'a1', parts: [{ text: `${textOf(name)} from ${textOf(city)}` }] }],
+          status: { state: 'completed', timestamp: new Date().toISOString() },
+        },
+      };
+    });
+
+    const first = await send({ message: turn('hello') });
+    const taskId = first.task!.id;
+    expect(first.task!.status).toMatchObject({ state: 'input_required', message: 'What is your name?' });
+    expect(first.task!.history!.map((m) => m.role)).toEqual(['user', 'agent']);
+    expect(conversations.size).toBe(1);
+
+    const second = await send({ taskId, message: turn('Ada') });
+    expect(second.task!.status.state).toBe('input_required');
+    expect(second.task!.status.message).toBeUndefined();
+
+    const third = await send({ taskId, message: turn('London') });
+    expect(third.task!.status.state).toBe('completed');
+    expect(third.task!.artifacts![0].parts).toEqual([{ text: 'Ada from London' }]);
+    expect(third.task!.history!.map(textOf)).toEqual(['hello', 'What is your name?', 'Ada', 'Which city?', 'London']);
+    expect(conversations.size).toBe(0);
+  });
+
+  it('completes the task when the handler returns no task', async () => {
+    const { send } = converse(async (_payload, ctx) => {
+      await ctx.ask('Sure?');
+    });
+
+    const first = await send({ message: turn('start') });
+    const done = await send({ taskId: first.task!.id, message: turn('yes') });
+    expect(done.task!.status.state).toBe('completed');
+  });
+
+  it('fails the task when the handler throws after resuming', async () => {
+    const { conversations, send } = converse(async (_payload, ctx) => {
+      const answer = await ctx.ask('Number?');
+      throw new Error(`not a number: ${textOf(answer)}`);
+    });
+
+    const first = await send({ message: turn('start') });
+    await expect(send({ taskId: first.task!.id, message: turn('abc') })).rejects.toThrow('not a number: abc');
+    expect((await manager.get(first.task!.id)).status.state).toBe('failed');
+    expect(conversations.size).toBe(0);
+  });
+
+  it('hands a turn that arrives mid-turn to the next ask()', async () => {
+    let release!: () => void;
+    const busy = new Promise<void>((resolve) => { release = resolve; });
+    const { send } = converse(async (_payload, ctx) => {
+      const a = await ctx.ask('First?');
+      await busy;
+      const b = await ctx.ask('Second?');
+      return { task: { ...ctx.task, status: { state: 'completed', timestamp: new Date().toISOString() }, artifacts: [{ artifactId: 'r', parts: [{ text: textOf(a) + textOf(b) }] }] } };
+    });
+
+    const first = await send({ message: turn('start') });
+    const taskId = first.task!.id;
+    const answerA = send({ taskId, message: turn('A') });
+    const answerB = send({ taskId, message: turn('B') });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    release();
+
+    const [a, b] = await Promise.all([answerA, answerB]);
+    expect(a.task!.status.state).toBe('completed');
+    expect(b.task!.artifacts![0].parts).toEqual([{ text: 'AB' }]);
+  });
+
+  it('drops an idle flow and restarts the handler with the history on the next turn', async () => {
+    const starts: Array<string | undefined> = [];
+    let timedOut: unknown;
+    const { conversations, send } = converse(async (payload, ctx) => {
+      starts.push(payload.taskId);
+      if (payload.taskId) {
+        return { task: { ...ctx.task, status: { state: 'completed', timestamp: new Date().toISOString() } } };
+      }
+      try {
+        await ctx.ask('Still there?');
+      } catch (err) {
+        timedOut = err;
+      }
+    }, 20);
+
+    const first = await send({ message: turn('start') });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(conversations.size).toBe(0);
+    expect(String(timedOut)).toContain('timed out');
+    expect((await manager.get(first.task!.id)).status.state).toBe('input_required');
+
+    const resumed = await send({ taskId: first.task!.id, message: turn('yes') });
+    expect(starts).toEqual([undefined, first.task!.id]);
+    expect(resumed.task!.status.state).toBe('completed');
+    expect(resumed.task!.history!.map(textOf)).toEqual(['start', 'Still there?', 'yes']);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DiscoveryCache } from '../../src/agent/DiscoveryCache.js';
+import type { AgentCard } from '../../src/types/agent-card.js';
+
+const IDENTITY = 'bc1p5d7rjq7g6rdk2yhzqnt9dp8wvscrplqk0zwy63lmgreu9jzyt0mqf3xvn8';
+
+function makeCard(version = '1.0.0'): AgentCard {
+  return {
+    name: 'Peer',
+    description: 'Peer agent',
+    version,
+    identity: IDENTITY,
+    skills: [],
+    defaultInputModes: ['text/plain'],
+    defaultOutputModes: ['text/plain'],
+  };
+}
+
+describe('DiscoveryCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns cached cards by identity', () => {
+    const cache = new DiscoveryCache();
+    expect(cache.get(IDENTITY)).toBeUndefined();
+
+    cache.set(makeCard(), 'ab'.repeat(32));
+    expect(cache.get(IDENTITY)).toMatchObject({ card: { name: 'Peer' }, nostrPubkey: 'ab'.repeat(32) });
+    expect(cache.size).toBe(1);
+  });
+
+  it('keeps a known Nostr pubkey when a card is refreshed without one', () => {
+    const cache = new DiscoveryCache();
+    cache.set(makeCard('1.0.0'), 'ab'.repeat(32));
+    cache.set(makeCard('1.1.0'));
+
+    expect(cache.get(IDENTITY)).toMatchObject({ card: { version: '1.1.0' }, nostrPubkey: 'ab'.repeat(32) });
+  });
+
+  it('expires entries after ttl', () => {
+    vi.useFakeTimers();
+    const cache = new DiscoveryCache(60_000);
+    cache.set(makeCard());
+
+    vi.advanceTimersByTime(30_000);
+    expect(cache.get(IDENTITY)).toBeDefined();
+
+    vi.advanceTimersByTime(60_000);
+    expect(cache.get(IDENTITY)).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('delete() and clear() remove entries', () => {
+    const cache = new DiscoveryCache();
+    cache.set(makeCard());
+    cache.delete(IDENTITY);
+    expect(cache.get(IDENTITY)).toBeUndefined();
+
+    cache.set(makeCard());
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+});
@@ -5,9 +5,14 @@ import { KeyManager } from '../../src/crypto/KeyManager.js';
 import type { SnapMessage } from '../../src/types/message.js';
 import type { AgentCard } from '../../src/types/agent-card.js';
 import type { MessageSendRequest } from '../../src/types/payloads.js';
-import type { Middleware, MiddlewareContext, NextFn } from '../../src/types/plugin.js';
+import type { MethodTypes } from '../../src/types/handler.js';
+import type { Middleware, MiddlewareContext, NextFn, TransportSendOptions } from '../../src/types/plugin.js';
 import { InMemoryReplayStore } from '../../src/stores/InMemoryReplayStore.js';
 import { InMemoryTaskStore } from '../../src/stores/InMemoryTaskStore.js';
+import { InMemoryResponseStore } from '../../src/stores/InMemoryResponseStore.js';
+import { TaskManager } from '../../src/agent/TaskManager.js';
+import { DiscoveryCache } from '../../src/agent/DiscoveryCache.js';
+import { SnapError } from '../../src/errors/SnapError.js';
 
 // Two deterministic key pairs
 const AGENT_A_KEY = 'a'.repeat(64).replace(/a{64}/, '0000000000000000000000000000000000000000000000000000000000000001');
@@ -26,7 +31,7 @@ function makeCard(name: string): AgentCard {
 }
 
 describe('SnapAgent', () => {
-  const agents: SnapAgent[] = [];
+  const agents: SnapAgent<any>[] = [];
 
   function createAgent(key: string, name: string, transport?: HttpTransport): SnapAgent {
     const agent = new SnapAgent({ privateKey: key, card: makeCard(name) });
@@ -75,7 +80,7 @@ describe('SnapAgent', () => {
       {
         messageId: 'msg-001',
         role: 'user',
-        parts: [{ type: 'text', text: 'Hello!' }],
+        parts: [{ text: 'Hello!' }],
       },
     );
 
@@ -84,6 +89,156 @@ describe('SnapAgent', () => {
     expect(response.task.status.state).toBe('completed');
   });
 
+  it('sends to an AgentCard over its declared endpoints', async () => {
+    const serverTransport = new HttpTransport({ port: 0 });
+    const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+    agentA.handle('tasks/get', async ({ taskId }) => ({
+      task: { id: taskId, status: { state: 'working', timestamp: new Date().toISOString() } },
+    }));
+    await agentA.start();
+
+    const agentB = createAgent(AGENT_B_KEY, 'Agent B', new HttpTransport());
+    agentB.routing({ retry: { http: { retries: 0, backoff: 0 } } });
+    const peer: AgentCard = {
+      ...agentA.card,
+      endpoints: [
+        { protocol: 'wss', url: 'ws://127.0.0.1:1' },
+        { protocol: 'http', url: `http://127.0.0.1:${serverTransport.port}` },
+      ],
+    };
+
+    const response = await agentB.send(peer, 'tasks/get', { taskId: 'task-007' });
+    expect(response.payload.task).toMatchObject({ id: 'task-007' });
+
+    await expect(agentB.send({ ...peer, endpoints: [{ protocol: 'http', url: 'http://127.0.0.1:1' }] }, 'tasks/get', { taskId: 'x' }))
+      .rejects.toMatchObject({ code: 4001, data: { tried: ['http'] } });
+  });
+
+  it('convenience methods accept a card or a cached address instead of an endpoint', async () => {
+    const serverTransport = new HttpTransport({ port: 0 });
+    const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+    agentA
+      .handle('message/send', async () => ({
+        task: { id: 'task-card', status: { state: 'completed', timestamp: new Date().toISOString() } },
+      }))
+      .handle('tasks/get', async ({ taskId }) => ({
+        task: { id: taskId, status: { state: 'working', timestamp: new Date().toISOString() } },
+      }));
+    await agentA.start();
+
+    const peer: AgentCard = {
+      ...agentA.card,
+      endpoints: [{ protocol: 'http', url: `http://127.0.0.1:${serverTransport.port}` }],
+    };
+    const cache = new DiscoveryCache();
+    cache.set(peer);
+    const agentB = createAgent(AGENT_B_KEY, 'Agent B', new HttpTransport());
+    agentB.discoveryCache(cache);
+
+    const sent = await agentB.sendMessage(peer, { messageId: 'm1', role: 'user', parts: [{ text: 'hi' }] });
+    expect(sent.task.id).toBe('task-card');
+
+    const task = await agentB.getTask(agentA.address, 'task-42');
+    expect(task.task.id).toBe('task-42');
+
+    const unknown = KeyManager.publicKeyToP2TR(KeyManager.getPublicKey('0000000000000000000000000000000000000000000000000000000000000009'));
+    await expect(agentB.getTask(unknown, 'task-42')).rejects.toMatchObject({ code: 3001, data: { identity: unknown } });
+  });
+
+  it('resolves unknown addresses through a discovery transport and reuses its Nostr pubkey', async () => {
+    const agentA = createAgent(AGENT_A_KEY, 'Agent A');
+    agentA.handle('tasks/get', async ({ taskId }) => ({
+      task: { id: taskId, status: { state: 'working', timestamp: new Date().toISOString() } },
+    }));
+
+    const sendOptions: TransportSendOptions[] = [];
+    let discoveries = 0;
+    const nostrLike = {
+      name: 'nostr',
+      async send(message: SnapMessage, options: TransportSendOptions) {
+        sendOptions.push(options);
+        return agentA.processMessage(message);
+      },
+      async discoverAgents() {
+        discoveries++;
+        return [{ ...agentA.card, nostrRelays: ['wss://relay.example'] }];
+      },
+      getNostrPubkey: () => 'cd'.repeat(32),
+    };
+    const agentB = createAgent(AGENT_B_KEY, 'Agent B');
+    agentB.transport(nostrLike);
+
+    await agentB.getTask(agentA.address, 'task-1');
+    await agentB.getTask(agentA.address, 'task-2');
+
+    expect(discoveries).toBe(1);
+    expect(sendOptions.map((o) => o.nostrPubkey)).toEqual(['cd'.repeat(32), 'cd'.repeat(32)]);
+    expect(sendOptions[0].endpoint).toBe('wss://relay.example');
+  });
+
+  describe('version negotiation', () => {
+    function versionedAgent(key: string, name: string, versions: string[]): SnapAgent {
+      const agent = new SnapAgent({
+        privateKey: key,
+        card: { ...makeCard(name), protocolVersion: versions[versions.length - 1], supportedVersions: versions },
+      });
+      agents.push(agent);
+      return agent;
+    }
+
+    it('sends the highest version both cards support and answers in it', async () => {
+      const agentA = versionedAgent(AGENT_A_KEY, 'Agent A', ['0.1', '0.2']);
+      agentA.handle('tasks/get', async ({ taskId }) => ({
+        task: { id: taskId, status: { state: 'working', timestamp: new Date().toISOString() } },
+      }));
+      const agentB = versionedAgent(AGENT_B_KEY, 'Agent B', ['0.1', '0.2', '0.3']);
+      const sent: SnapMessage[] = [];
+      agentB.transport({
+        name: 'http',
+        async send(message: SnapMessage) {
+          sent.push(message);
+          return agentA.processMessage(message);
+        },
+      });
+
+      const response = await agentB.send({ ...agentA.card, endpoints: [{ protocol: 'http', url: 'http://a' }] }, 'tasks/get', { taskId: 't1' });
+      expect(sent[0].version).toBe('0.2');
+      expect(response.version).toBe('0.2');
+    });
+
+    it('refuses to send when the peer card shares no version', async () => {
+      const agentB = versionedAgent(AGENT_B_KEY, 'Agent B', ['0.1']);
+      const peer: AgentCard = { ...makeCard('Future'), identity: agentB.address, protocolVersion: '1.0', supportedVersions: ['1.0'] };
+      await expect(agentB.send(peer, 'tasks/get', { taskId: 't1' }))
+        .rejects.toMatchObject({ code: 5004, data: { requested: '1.0', supported: ['0.1'] } });
+    });
+
+    it('answers unsupported inbound versions with VERSION_NOT_SUPPORTED', async () => {
+      const agentA = createAgent(AGENT_A_KEY, 'Agent A');
+      agentA.handle('tasks/get', async () => ({} as any));
+      const { MessageSigner } = await import('../../src/messaging/MessageSigner.js');
+      const { MessageBuilder } = await import('../../src/messaging/MessageBuilder.js');
+      const signer = new MessageSigner(AGENT_B_KEY);
+      const signed = signer.sign(new MessageBuilder()
+        .id('future-1')
+        .version('2.0')
+        .from(signer.getAddress())
+        .to(agentA.address)
+        .method('tasks/get')
+        .payload({ taskId: 't1' })
+        .timestamp(Math.floor(Date.now() / 1000))
+        .build());
+
+      const response = await agentA.processMessage(signed);
+      expect(response.version).toBe('0.1');
+      expect(response.payload.error).toEqual({
+        code: 5004,
+        message: 'Version not supported',
+        data: { requested: '2.0', supported: ['0.1'] },
+      });
+    });
+  });
+
   it('rejects messages not addressed to this agent', async () => {
     const serverTransport = new HttpTransport({ port: 0 });
     const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
@@ -140,7 +295,7 @@ describe('SnapAgent', () => {
     await agentB.sendMessage(
       agentA.address,
       `http://127.0.0.1:${serverTransport.port}`,
-      { messageId: 'msg-001', role: 'user', parts: [{ type: 'text', text: 'test' }] },
+      { messageId: 'msg-001', role: 'user', parts: [{ text: 'test' }] },
     );
 
     expect(directions).toContain('inbound');
@@ -168,14 +323,14 @@ describe('SnapAgent', () => {
     await agentB.sendMessage(
       agentA.address,
       endpoint,
-      { messageId: 'msg-001', role: 'user', parts: [{ type: 'text', text: 'first' }] },
+      { messageId: 'msg-001', role: 'user', parts: [{ text: 'first' }] },
     );
 
     // Second request with same agent should also succeed (different message ID via randomUUID)
     await agentB.sendMessage(
       agentA.address,
       endpoint,
-      { messageId: 'msg-002', role: 'user', parts: [{ type: 'text', text: 'second' }] },
+      { messageId: 'msg-002', role: 'user', parts: [{ text: 'second' }] },
     );
 
     // This verifies the replay store is being used without triggering false positives
@@ -205,7 +360,7 @@ describe('SnapAgent', () => {
     await agentB.sendMessage(
       agentA.address,
       `http://127.0.0.1:${serverTransport.port}`,
-      { messageId: 'msg-001', role: 'user', parts: [{ type: 'text', text: 'test' }] },
+      { messageId: 'msg-001', role: 'user', parts: [{ text: 'test' }] },
     );
 
     expect(handlerHadTaskStore).toBe(true);
@@ -223,7 +378,7 @@ describe('SnapAgent', () => {
       agentB.sendMessage(
         agentA.address,
         `http://127.0.0.1:${serverTransport.port}`,
-        { messageId: 'msg-001', role: 'user', parts: [{ type: 'text', text: 'test' }] },
+        { messageId: 'msg-001', role: 'user', parts: [{ text: 'test' }] },
       ),
     ).rejects.toThrow();
   });
@@ -275,6 +430,291 @@ describe('SnapAgent', () => {
     expect(result.task.status.state).toBe('canceled');
   });
 
+  it('task manager tracks message/send and serves tasks/get + tasks/cancel', async () => {
+    const serverTransport = new HttpTransport({ port: 0 });
+    const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+    const manager = new TaskManager();
+    agentA.taskManager(manager);
+
+    let ctxTaskId: string | undefined;
+    agentA.handle('message/send', async (_payload, ctx) => {
+      ctxTaskId = ctx.task?.id;
+      return { task: { ...ctx.task!, status: { state: 'input_required', timestamp: new Date().toISOString() } } };
+    });
+
+    await agentA.start();
+
+    const agentB = createAgent(AGENT_B_KEY, 'Agent B', new HttpTransport());
+    const endpoint = `http://127.0.0.1:${serverTransport.port}`;
+
+    const sent = await agentB.sendMessage(agentA.address, endpoint, {
+      messageId: 'msg-1', role: 'user', parts: [{ text: 'first' }],
+    });
+    expect(sent.task!.id).toBe(ctxTaskId);
+    expect(sent.task!.status.state).toBe('input_required');
+
+    const fetched = await agentB.send(agentA.address, endpoint, 'tasks/get', { taskId: sent.task!.id, historyLength: 0 });
+    expect((fetched.payload as any).task.id).toBe(sent.task!.id);
+    expect((fetched.payload as any).task.history).toBeUndefined();
+
+    const canceled = await agentB.cancelTask(agentA.address, endpoint, sent.task!.id);
+    expect(canceled.task!.status.state).toBe('canceled');
+    expect((await manager.get(sent.task!.id)).status.state).toBe('canceled');
+  });
+
+  it('task manager tasks/get rejects unknown tasks with TASK_NOT_FOUND', async () => {
+    const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('Tasks') });
+    agentA.taskManager(new TaskManager());
+    agents.push(agentA);
+
+    const { MessageSigner } = await import('../../src/messaging/MessageSigner.js');
+    const { MessageBuilder } = await import('../../src/messaging/MessageBuilder.js');
+
+    const signerB = new MessageSigner(AGENT_B_KEY);
+    const signed = signerB.sign(new MessageBuilder()
+      .id('get-missing')
+      .from(signerB.getAddress())
+      .to(agentA.address)
+      .method('tasks/get')
+      .payload({ taskId: 'nope' })
+      .timestamp(Math.floor(Date.now() / 1000))
+      .build());
+
+    const response = await agentA.processMessage(signed);
+    expect((response.payload as any).error).toEqual({ code: 1001, message: 'Task not found', data: { taskId: 'nope' } });
+  });
+
+  it('task manager serves tasks/list with only the requester\'s tasks', async () => {
+    const serverTransport = new HttpTransport({ port: 0 });
+    const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+    const manager = new TaskManager();
+    agentA.taskManager(manager);
+    agentA.handle('message/send', async (_payload, ctx) => ({ task: ctx.task }));
+    await agentA.start();
+
+    // A task created for someone else
+    await manager.store.set('other-task', { id: 'other-task', status: { state: 'submitted', timestamp: '' } }, 'bc1pother');
+
+    const agentB = createAgent(AGENT_B_KEY, 'Agent B', new HttpTransport());
+    const endpoint = `http://127.0.0.1:${serverTransport.port}`;
+    const ids: string[] = [];
+    for (const text of ['one', 'two', 'three']) {
+      const sent = await agentB.sendMessage(agentA.address, endpoint, { messageId: text, role: 'user', parts: [{ text }] });
+      ids.push(sent.task!.id);
+    }
+
+    const first = await agentB.listTasks(agentA.address, endpoint, { limit: 2, historyLength: 0 });
+    expect(first.tasks!.map((t) => t.id)).toEqual([ids[2], ids[1]]);
+    expect(first.tasks![0].history).toBeUndefined();
+
+    const second = await agentB.listTasks(agentA.address, endpoint, { limit: 2, cursor: first.nextCursor });
+    expect(second.tasks!.map((t) => t.id)).toEqual([ids[0]]);
+    expect(second.nextCursor).toBeUndefined();
+
+    const none = await agentB.listTasks(agentA.address, endpoint, { state: ['completed', 'failed'] });
+    expect(none.tasks).toEqual([]);
+  });
+
+  it('converse() pauses a task for input and continueTask() resumes it', async () => {
+    const serverTransport = new HttpTransport({ port: 0 });
+    const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+    agentA.converse(async (_payload, ctx) => {
+      const reply = await ctx.ask('Which city?');
+      return {
+        task: {
+          ...ctx.task,
+          artifacts: [{ artifactId: 'forecast', parts: reply.parts }],
+          status: { state: 'completed', timestamp: new Date().toISOString() },
+        },
+      };
+    });
+    await agentA.start();
+
+    const agentB = createAgent(AGENT_B_KEY, 'Agent B', new HttpTransport());
+    const endpoint = `http://127.0.0.1:${serverTransport.port}`;
+    const asked = await agentB.sendMessage(agentA.address, endpoint, { messageId: 'q', role: 'user', parts: [{ text: 'Weather?' }] });
+    expect(asked.task!.status).toMatchObject({ state: 'input_required', message: 'Which city?' });
+
+    const done = await agentB.continueTask(agentA.address, endpoint, asked.task!.id, { messageId: 'a', role: 'user', parts: [{ text: 'Paris' }] });
+    expect(done.task!.id).toBe(asked.task!.id);
+    expect(done.task!.status.state).toBe('completed');
+    expect(done.task!.artifacts![0].parts).toEqual([{ text: 'Paris' }]);
+    expect(done.task!.history!.map((m) => m.role)).toEqual(['user', 'agent', 'user']);
+  });
+
+  it('task manager hides tasks from agents that did not create them', async () => {
+    const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('Tasks') });
+    agentA.taskManager(new TaskManager());
+    let handlerStore: unknown;
+    agentA.handle('message/send', async (_payload, ctx) => {
+      handlerStore = ctx.taskStore;
+      return { task: ctx.task };
+    });
+    agents.push(agentA);
+
+    const { MessageSigner } = await import('../../src/messaging/MessageSigner.js');
+    const { MessageBuilder } = await import('../../src/messaging/MessageBuilder.js');
+    const { ScopedTaskStore } = await import('../../src/stores/ScopedTaskStore.js');
+    const request = (key: string, id: string, method: string, payload: Record<string, unknown>) => {
+      const signer = new MessageSigner(key);
+      return signer.sign(new MessageBuilder()
+        .id(id)
+        .from(signer.getAddress())
+        .to(agentA.address)
+        .method(method)
+        .payload(payload)
+        .timestamp(Math.floor(Date.now() / 1000))
+        .build());
+    };
+    const AGENT_C_KEY = '0000000000000000000000000000000000000000000000000000000000000003';
+
+    const created = await agentA.processMessage(request(AGENT_B_KEY, 'send-1', 'message/send', {
+      message: { messageId: 'm1', role: 'user', parts: [{ text: 'hi' }] },
+    }));
+    const taskId = (created.payload as any).task.id;
+    expect(handlerStore).toBeInstanceOf(ScopedTaskStore);
+    expect((handlerStore as InstanceType<typeof ScopedTaskStore>).owner).toBe(created.to);
+
+    for (const [id, method] of [['get-c', 'tasks/get'], ['cancel-c', 'tasks/cancel']]) {
+      const response = await agentA.processMessage(request(AGENT_C_KEY, id, method, { taskId }));
+      expect((response.payload as any).error).toEqual({ code: 1001, message: 'Task not found', data: { taskId } });
+    }
+    const continued = await agentA.processMessage(request(AGENT_C_KEY, 'send-c', 'message/send', {
+      taskId,
+      message: { messageId: 'm2', role: 'user', parts: [{ text: 'hijack' }] },
+    }));
+    expect((continued.payload as any).error.code).toBe(1001);
+
+    const own = await agentA.processMessage(request(AGENT_B_KEY, 'get-b', 'tasks/get', { taskId }));
+    expect((own.payload as any).task.history).toHaveLength(1);
+  });
+
+  it('answers tasks/list with METHOD_NOT_FOUND when the task store cannot list', async () => {
+    const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('Tasks') });
+    const store = { get: async () => undefined, set: async () => {}, delete: async () => {} };
+    agentA.taskManager(new TaskManager(store));
+    agents.push(agentA);
+
+    const { MessageSigner } = await import('../../src/messaging/MessageSigner.js');
+    const { MessageBuilder } = await import('../../src/messaging/MessageBuilder.js');
+
+    const signerB = new MessageSigner(AGENT_B_KEY);
+    const signed = signerB.sign(new MessageBuilder()
+      .id('list-unsupported')
+      .from(signerB.getAddress())
+      .to(agentA.address)
+      .method('tasks/list')
+      .payload({})
+      .timestamp(Math.floor(Date.now() / 1000))
+      .build());
+
+    const response = await agentA.processMessage(signed);
+    expect((response.payload as any).error.code).toBe(1007);
+  });
+
+  describe('payload validation', () => {
+    async function request(agent: SnapAgent, method: string, payload: Record<string, unknown>): Promise<SnapMessage> {
+      const { MessageSigner } = await import('../../src/messaging/MessageSigner.js');
+      const { MessageBuilder } = await import('../../src/messaging/MessageBuilder.js');
+      const signer = new MessageSigner(AGENT_B_KEY);
+      return agent.processMessage(signer.sign(new MessageBuilder()
+        .id(`req-${Math.random().toString(36).slice(2)}`)
+        .from(signer.getAddress())
+        .to(agent.address)
+        .method(method as any)
+        .payload(payload)
+        .timestamp(Math.floor(Date.now() / 1000))
+        .build()));
+    }
+
+    it('rejects an invalid built-in payload before the handler runs', async () => {
+      const agentA = createAgent(AGENT_A_KEY, 'Validating');
+      let called = false;
+      agentA.handle('message/send', async () => {
+        called = true;
+        return {};
+      });
+
+      const response = await request(agentA, 'message/send', {
+        message: { messageId: 'm1', role: 'user', parts: [{ text: 'hi', url: 'https://x.example' }] },
+      });
+
+      expect(called).toBe(false);
+      expect((response.payload as any).error).toMatchObject({
+        code: 1004,
+        message: 'Invalid payload',
+        data: { field: 'payload.message.parts[0]', constraint: 'oneOf', received: ['text', 'url'] },
+      });
+    });
+
+    it('checks custom methods against a registered schema', async () => {
+      const agentA = createAgent(AGENT_A_KEY, 'Custom');
+      agentA.handle('weather/get' as any, async (payload: any) => ({ forecast: `sunny in ${payload.city}` }));
+      agentA.payloadSchema('weather/get', (payload) =>
+        typeof payload.city === 'string' ? [] : [{ field: 'payload.city', constraint: 'required', expected: 'string' }],
+      );
+
+      expect((await request(agentA, 'weather/get', { city: 'Oslo' })).payload.forecast).toBe('sunny in Oslo');
+      expect((await request(agentA, 'weather/get', {})).payload.error).toMatchObject({
+        code: 1004,
+        data: { field: 'payload.city', constraint: 'required' },
+      });
+    });
+  });
+
+  describe('typed custom methods', () => {
+    interface WeatherMethods {
+      'weather/get': MethodTypes<{ city: string }, { tempC: number }>;
+    }
+
+    function citySchema(payload: Record<string, unknown>) {
+      return typeof payload.city === 'string' ? [] : [{ field: 'payload.city', constraint: 'required', expected: 'string' }];
+    }
+
+    async function startWeatherAgent(): Promise<{ server: SnapAgent<WeatherMethods>; endpoint: string }> {
+      const transport = new HttpTransport({ port: 0 });
+      const server = new SnapAgent<WeatherMethods>({ privateKey: AGENT_A_KEY, card: makeCard('Weather') });
+      server.transport(transport);
+      agents.push(server);
+      server.handle('weather/get', async ({ city }) => ({ tempC: city.length }), citySchema);
+      await server.start();
+      return { server, endpoint: `http://127.0.0.1:${transport.port}` };
+    }
+
+    it('calls a custom method and returns its response payload', async () => {
+      const { server, endpoint } = await startWeatherAgent();
+      const client = new SnapAgent<WeatherMethods>({ privateKey: AGENT_B_KEY, card: makeCard('Client') });
+      client.transport(new HttpTransport());
+      agents.push(client);
+
+      const forecast = await client.call(server.address, endpoint, 'weather/get', { city: 'Oslo' });
+      expect(forecast.tempC).toBe(4);
+    });
+
+    it('validates against the schema passed to handle()', async () => {
+      const { server, endpoint } = await startWeatherAgent();
+      const client = new SnapAgent<WeatherMethods>({ privateKey: AGENT_B_KEY, card: makeCard('Client') });
+      client.transport(new HttpTransport());
+      agents.push(client);
+
+      await expect(client.call(server.address, endpoint, 'weather/get', {} as any)).rejects.toMatchObject({
+        code: 1004,
+        data: { field: 'payload.city', constraint: 'required' },
+      });
+    });
+
+    it('calls built-in methods through the same API', async () => {
+      const { server, endpoint } = await startWeatherAgent();
+      server.handle('tasks/get', async ({ taskId }) => ({
+        task: { id: taskId, status: { state: 'working', timestamp: new Date().toISOString() } },
+      }));
+      const client = createAgent(AGENT_B_KEY, 'Client', new HttpTransport());
+
+      const { task } = await client.call(server.address, endpoint, 'tasks/get', { taskId: 'task-7' });
+      expect(task.id).toBe('task-7');
+    });
+  });
+
   // --- Edge case tests ---
 
   it('send() throws when no transports are configured', async () => {
@@ -364,7 +804,7 @@ describe('SnapAgent', () => {
     await agentB.sendMessage(
       agentA.address,
       `http://127.0.0.1:${serverTransport.port}`,
-      { messageId: 'msg-001', role: 'user', parts: [{ type: 'text', text: 'test' }] },
+      { messageId: 'msg-001', role: 'user', parts: [{ text: 'test' }] },
     );
 
     // Inbound middleware runs in order, then outbound middleware runs in order
@@ -427,7 +867,7 @@ describe('SnapAgent', () => {
       agentA.address,
       `http://127.0.0.1:${serverTransport.port}`,
       'message/send',
-      { message: { messageId: 'msg-001', role: 'user', parts: [{ type: 'text', text: 'hi' }] } },
+      { message: { messageId: 'msg-001', role: 'user', parts: [{ text: 'hi' }] } },
     );
 
     // Response should be from Agent A and addressed to Agent B
@@ -461,7 +901,7 @@ describe('SnapAgent', () => {
       serverAgent.address,
       `http://127.0.0.1:${serverTransport.port}`,
       'message/send',
-      { message: { messageId: 'msg-001', role: 'user', parts: [{ type: 'text', text: 'hi' }] } },
+      { message: { messageId: 'msg-001', role: 'user', parts: [{ text: 'hi' }] } },
     );
 
     expect((response.payload as any).task.id).toBe('task-fallback');
@@ -485,11 +925,155 @@ describe('SnapAgent', () => {
       agentB.sendMessage(
         agentA.address,
         `http://127.0.0.1:${serverTransport.port}`,
-        { messageId: 'msg-err', role: 'user', parts: [{ type: 'text', text: 'boom' }] },
+        { messageId: 'msg-err', role: 'user', parts: [{ text: 'boom' }] },
       ),
     ).rejects.toThrow();
   });
 
+  it('handler SnapError reaches the sender with its code and HTTP status', async () => {
+    const serverTransport = new HttpTransport({ port: 0 });
+    const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+
+    agentA.handle('tasks/get', async (payload) => {
+      throw SnapError.taskNotFound(payload.taskId);
+    });
+
+    await agentA.start();
+
+    const agentB = createAgent(AGENT_B_KEY, 'Agent B', new HttpTransport());
+    const err = await agentB
+      .getTask(agentA.address, `http://127.0.0.1:${serverTransport.port}`, 'task-x')
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(SnapError);
+    expect(err.code).toBe(1001);
+    expect(err.data).toEqual({ taskId: 'task-x' });
+  });
+
+  it('unknown handler errors become INTERNAL_ERROR without leaking details', async () => {
+    const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('Internal') });
+    agentA.handle('message/send', async () => {
+      throw new Error('database password is hunter2');
+    });
+    agents.push(agentA);
+
+    const { MessageSigner } = await import('../../src/messaging/MessageSigner.js');
+    const { MessageBuilder } = await import('../../src/messaging/MessageBuilder.js');
+
+    const signerB = new MessageSigner(AGENT_B_KEY);
+    const signed = signerB.sign(new MessageBuilder()
+      .id('internal-err')
+      .from(signerB.getAddress())
+      .to(agentA.address)
+      .method('message/send')
+      .payload({ message: { messageId: 'msg-1', role: 'user', parts: [{ text: 'hi' }] } })
+      .timestamp(Math.floor(Date.now() / 1000))
+      .build());
+
+    const response = await agentA.processMessage(signed);
+    expect(response.to).toBe(signerB.getAddress());
+    expect(response.payload).toEqual({ error: { code: 5001, message: 'Internal error' }, inReplyTo: 'internal-err' });
+  });
+
+  describe('response verification', () => {
+    const AGENT_C_KEY = '0000000000000000000000000000000000000000000000000000000000000003';
+
+    /** Transport that answers from agent A, letting a test tamper with the reply. */
+    function relayTransport(agentA: SnapAgent, tamper: (response: SnapMessage) => SnapMessage) {
+      return {
+        name: 'relay',
+        send: async (message: SnapMessage) => tamper(await agentA.processMessage(message)),
+        async *sendStream(message: SnapMessage) {
+          for await (const event of agentA.processStream(message)) yield tamper(event);
+        },
+      };
+    }
+
+    function setup(tamper: (response: SnapMessage) => SnapMessage) {
+      const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('A') });
+      agentA.handle('message/send', async () => ({ ok: true } as any));
+      agentA.handleStream('message/stream', async function* () {
+        yield { type: 'event', payload: { n: 1 } } as any;
+      });
+      const agentB = new SnapAgent({ privateKey: AGENT_B_KEY, card: makeCard('B') });
+      agentB.transport(relayTransport(agentA, tamper));
+      return { agentA, agentB };
+    }
+
+    const msg = { messageId: 'm1', role: 'user' as const, parts: [{ text: 'hi' }] };
+
+    it('accepts a genuine signed response', async () => {
+      const { agentA, agentB } = setup((r) => r);
+      const response = await agentB.send(agentA.address, 'relay://a', 'message/send', { message: msg });
+      expect(response.from).toBe(agentA.address);
+    });
+
+    it('binds responses to the request id via payload.inReplyTo', async () => {
+      const { agentA, agentB } = setup((r) => r);
+      const events: SnapMessage[] = [];
+      const response = await agentB.send(agentA.address, 'relay://a', 'message/send', { message: msg });
+      for await (const e of agentB.sendStream(agentA.address, 'relay://a', 'message/stream', { message: msg })) {
+        events.push(e);
+      }
+
+      expect(response.payload.inReplyTo).toBeTypeOf('string');
+      expect(events).toHaveLength(1);
+      expect(events[0].payload).toEqual({ n: 1, inReplyTo: expect.any(String) });
+    });
+
+    it('rejects a genuine response swapped in from another request', async () => {
+      let first: SnapMessage | undefined;
+      const { agentA, agentB } = setup((r) => {
+        first ??= r;
+        return first;
+      });
+      await agentB.send(agentA.address, 'relay://a', 'message/send', { message: msg });
+      await expect(agentB.send(agentA.address, 'relay://a', 'message/send', { message: msg }))
+        .rejects.toMatchObject({ code: 1003, data: { field: 'payload.inReplyTo', received: first!.payload.inReplyTo } });
+    });
+
+    it('rejects a tampered payload with SIGNATURE_INVALID', async () => {
+      const { agentA, agentB } = setup((r) => ({ ...r, payload: { ok: false } }));
+      await expect(agentB.send(agentA.address, 'relay://a', 'message/send', { message: msg }))
+        .rejects.toMatchObject({ code: 2001 });
+    });
+
+    it('rejects a reply re-signed by another identity with IDENTITY_MISMATCH', async () => {
+      const { MessageSigner } = await import('../../src/messaging/MessageSigner.js');
+      const spoofer = new MessageSigner(AGENT_C_KEY);
+      const { agentA, agentB } = setup(({ sig: _sig, ...r }) =>
+        spoofer.sign({ ...r, from: spoofer.getAddress() }));
+      await expect(agentB.send(agentA.address, 'relay://a', 'message/send', { message: msg }))
+        .rejects.toMatchObject({ code: 2003, data: { field: 'from', expected: agentA.address } });
+    });
+
+    it('rejects stripped signatures only when signatures are required', async () => {
+      const { agentA, agentB } = setup(({ sig: _sig, ...r }) => r as SnapMessage);
+      await expect(agentB.send(agentA.address, 'relay://a', 'message/send', { message: msg })).resolves.toBeDefined();
+
+      agentB.responseSignatures('required');
+      await expect(agentB.send(agentA.address, 'relay://a', 'message/send', { message: msg }))
+        .rejects.toMatchObject({ code: 2002 });
+
+      const tampering = setup((r) => ({ ...r, payload: { ok: false } }));
+      tampering.agentB.responseSignatures('off');
+      await expect(tampering.agentB.send(tampering.agentA.address, 'relay://a', 'message/send', { message: msg }))
+        .resolves.toMatchObject({ payload: { ok: false } });
+    });
+
+    it('verifies every stream event', async () => {
+      const { agentA, agentB } = setup((r) => (r.type === 'event' ? { ...r, payload: { n: 2 } } : r));
+      const events: SnapMessage[] = [];
+      const consume = async () => {
+        for await (const e of agentB.sendStream(agentA.address, 'relay://a', 'message/stream', { message: msg })) {
+          events.push(e);
+        }
+      };
+      await expect(consume()).rejects.toMatchObject({ code: 2001 });
+      expect(events).toHaveLength(0);
+    });
+  });
+
   it('middleware throwing prevents handler from executing', async () => {
     const serverTransport = new HttpTransport({ port: 0 });
     const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
@@ -520,13 +1104,157 @@ describe('SnapAgent', () => {
       agentB.sendMessage(
         agentA.address,
         `http://127.0.0.1:${serverTransport.port}`,
-        { messageId: 'msg-mw', role: 'user', parts: [{ type: 'text', text: 'test' }] },
+        { messageId: 'msg-mw', role: 'user', parts: [{ text: 'test' }] },
       ),
     ).rejects.toThrow();
 
     expect(handlerCalled).toBe(false);
   });
 
+  describe('middleware context', () => {
+    const completed = () => ({
+      task: { id: 'task-001', status: { state: 'completed', timestamp: new Date().toISOString() } },
+    });
+
+    function sendTo(agentA: SnapAgent, transport: HttpTransport) {
+      const agentB = createAgent(AGENT_B_KEY, 'Agent B', new HttpTransport());
+      return agentB.sendMessage(
+        agentA.address,
+        `http://127.0.0.1:${transport.port}`,
+        { messageId: 'msg-ctx', role: 'user', parts: [{ text: 'test' }] },
+      );
+    }
+
+    it('exposes transport, peer and timing, and shares state with the outbound pass', async () => {
+      const serverTransport = new HttpTransport({ port: 0 });
+      const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+      const seen: MiddlewareContext[] = [];
+
+      agentA.use({
+        name: 'audit',
+        async handle(ctx, next) {
+          if (ctx.direction === 'inbound') ctx.state.audited = true;
+          await next();
+          seen.push({ ...ctx });
+        },
+      });
+      agentA.handle('message/send', async () => completed());
+      await agentA.start();
+
+      await sendTo(agentA, serverTransport);
+
+      const [inbound, outbound] = seen;
+      expect(inbound.transport).toBe('http');
+      expect(inbound.peer.address).toBe(createAgent(AGENT_B_KEY, 'B').address);
+      expect(inbound.peer.remoteAddress).toMatch(/127\.0\.0\.1/);
+      expect(inbound.startedAt).toBeLessThanOrEqual(Date.now());
+      expect(inbound.response).toMatchObject({ task: { id: 'task-001' } });
+
+      expect(outbound.direction).toBe('outbound');
+      expect(outbound.state).toEqual({ audited: true });
+      expect(outbound.response).toEqual(outbound.message.payload);
+    });
+
+    it('answers early when middleware sets a response without calling next', async () => {
+      const serverTransport = new HttpTransport({ port: 0 });
+      const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+      let handlerCalled = false;
+
+      agentA.use({
+        name: 'cache',
+        async handle(ctx, next) {
+          if (ctx.direction === 'inbound') {
+            ctx.response = { task: { id: 'cached', status: { state: 'completed', timestamp: 'x' } } };
+            return;
+          }
+          await next();
+        },
+      });
+      agentA.handle('message/send', async () => {
+        handlerCalled = true;
+        return completed();
+      });
+      await agentA.start();
+
+      const response = await sendTo(agentA, serverTransport);
+      expect(response.task.id).toBe('cached');
+      expect(handlerCalled).toBe(false);
+    });
+
+    it('lets middleware replace the handler response', async () => {
+      const serverTransport = new HttpTransport({ port: 0 });
+      const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+
+      agentA.use({
+        name: 'rewrite',
+        async handle(ctx, next) {
+          await next();
+          if (ctx.direction === 'inbound') {
+            ctx.response = { ...ctx.response, rewritten: true };
+          }
+        },
+      });
+      agentA.handle('message/send', async () => completed());
+      await agentA.start();
+
+      const response = await sendTo(agentA, serverTransport);
+      expect(response).toMatchObject({ task: { id: 'task-001' }, rewritten: true });
+    });
+
+    it('still runs the handler when middleware neither calls next nor responds', async () => {
+      const serverTransport = new HttpTransport({ port: 0 });
+      const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+
+      agentA.use({
+        name: 'swallow',
+        async handle(ctx, next) {
+          if (ctx.direction === 'outbound') await next();
+        },
+      });
+      agentA.handle('message/send', async () => completed());
+      await agentA.start();
+
+      const response = await sendTo(agentA, serverTransport);
+      expect(response).toMatchObject({ task: { id: 'task-001' } });
+    });
+
+    it('signs the error response without re-entering outbound middleware that threw', async () => {
+      const serverTransport = new HttpTransport({ port: 0 });
+      const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+
+      let outboundCalls = 0;
+      agentA.use({
+        name: 'broken-audit',
+        async handle(ctx, next) {
+          if (ctx.direction === 'inbound') return next();
+          outboundCalls++;
+          throw new Error('audit sink down');
+        },
+      });
+      agentA.handle('message/send', async () => completed());
+      await agentA.start();
+
+      await expect(sendTo(agentA, serverTransport)).rejects.toMatchObject({ code: 5001 });
+      expect(outboundCalls).toBe(1);
+    });
+
+    it('signs the error response as-is when its outbound pass fails too', async () => {
+      const serverTransport = new HttpTransport({ port: 0 });
+      const agentA = createAgent(AGENT_A_KEY, 'Agent A', serverTransport);
+
+      agentA.use({
+        name: 'reject-errors',
+        async handle(ctx, next) {
+          if (ctx.direction === 'outbound' && ctx.response?.error) throw new Error('no errors allowed');
+          await next();
+        },
+      });
+      await agentA.start();
+
+      await expect(sendTo(agentA, serverTransport)).rejects.toMatchObject({ code: 1007 });
+    });
+  });
+
   it('processMessage throws for duplicate message with replay store', async () => {
     const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('Replay') });
     agentA.replayStore(new InMemoryReplayStore());
@@ -556,11 +1284,210 @@ describe('SnapAgent', () => {
     // First call should succeed
     await agentA.processMessage(signed);
 
-    // Second call with same message should throw duplicate
-    await expect(agentA.processMessage(signed)).rejects.toThrow('Duplicate');
+    // Second call with same message gets a signed DUPLICATE_MESSAGE error response
+    const duplicate = await agentA.processMessage(signed);
+    expect(duplicate.type).toBe('response');
+    expect(duplicate.sig).toHaveLength(128);
+    expect((duplicate.payload as any).error.code).toBe(2006);
   });
 
-  it('processStream throws for unregistered stream handler', async () => {
+  it('processMessage returns the original response for a replayed message id', async () => {
+    const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('Dedup') });
+    agentA.replayStore(new InMemoryReplayStore()).responseStore(new InMemoryResponseStore());
+    let calls = 0;
+    agentA.handle('message/send', async () => {
+      calls++;
+      return { task: { id: `t${calls}`, status: { state: 'completed', timestamp: new Date().toISOString() } } };
+    });
+    agents.push(agentA);
+
+    const { MessageSigner } = await import('../../src/messaging/MessageSigner.js');
+    const { MessageBuilder } = await import('../../src/messaging/MessageBuilder.js');
+
+    const signerB = new MessageSigner(AGENT_B_KEY);
+    const signed = signerB.sign(new MessageBuilder()
+      .id('replayed-msg')
+      .from(signerB.getAddress())
+      .to(agentA.address)
+      .method('message/send')
+      .payload({ message: { messageId: 'msg-1', role: 'user', parts: [{ text: 'hello' }] } })
+      .timestamp(Math.floor(Date.now() / 1000))
+      .build());
+
+    const first = await agentA.processMessage(signed);
+    const second = await agentA.processMessage(signed);
+
+    expect(calls).toBe(1);
+    expect(first.payload.deduplicated).toBeUndefined();
+    expect(second.payload).toEqual({ ...first.payload, deduplicated: true });
+    expect(second.id).not.toBe(first.id);
+    expect(second.sig).toHaveLength(128);
+  });
+
+  it('processMessage runs a handler once per idempotencyKey', async () => {
+    const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('Idempotent') });
+    agentA.responseStore(new InMemoryResponseStore());
+    let calls = 0;
+    agentA.handle('message/send', async () => {
+      calls++;
+      await new Promise((r) => setTimeout(r, 20));
+      return { task: { id: `t${calls}`, status: { state: 'completed', timestamp: new Date().toISOString() } } };
+    });
+    agents.push(agentA);
+
+    const { MessageSigner } = await import('../../src/messaging/MessageSigner.js');
+    const { MessageBuilder } = await import('../../src/messaging/MessageBuilder.js');
+
+    const signerB = new MessageSigner(AGENT_B_KEY);
+    const signerC = new MessageSigner('0000000000000000000000000000000000000000000000000000000000000003');
+    const build = (signer: typeof signerB, id: string) => signer.sign(new MessageBuilder()
+      .id(id)
+      .from(signer.getAddress())
+      .to(agentA.address)
+      .method('message/send')
+      .payload({ idempotencyKey: 'key-1', message: { messageId: id, role: 'user', parts: [{ text: 'hi' }] } })
+      .timestamp(Math.floor(Date.now() / 1000))
+      .build());
+
+    // Concurrent retries share the in-flight execution
+    const [a, b] = await Promise.all([
+      agentA.processMessage(build(signerB, 'retry-1')),
+      agentA.processMessage(build(signerB, 'retry-2')),
+    ]);
+    const later = await agentA.processMessage(build(signerB, 'retry-3'));
+    // Another sender using the same key is independent
+    const other = await agentA.processMessage(build(signerC, 'other-1'));
+
+    expect(calls).toBe(2);
+    expect((a.payload as any).task.id).toBe('t1');
+    expect(b.payload).toEqual({ ...a.payload, deduplicated: true, inReplyTo: 'retry-2' });
+    expect(later.payload).toEqual({ ...a.payload, deduplicated: true, inReplyTo: 'retry-3' });
+    expect((other.payload as any).task.id).toBe('t2');
+    expect(other.payload.deduplicated).toBeUndefined();
+  });
+
+  it('does not record failed idempotent runs', async () => {
+    const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('Retry') });
+    agentA.responseStore(new InMemoryResponseStore());
+    let calls = 0;
+    agentA.handle('message/send', async () => {
+      calls++;
+      if (calls === 1) throw new Error('transient');
+      return { task: { id: 't-ok', status: { state: 'completed', timestamp: new Date().toISOString() } } };
+    });
+    agents.push(agentA);
+
+    const { MessageSigner } = await import('../../src/messaging/MessageSigner.js');
+    const { MessageBuilder } = await import('../../src/messaging/MessageBuilder.js');
+
+    const signerB = new MessageSigner(AGENT_B_KEY);
+    const build = (id: string) => signerB.sign(new MessageBuilder()
+      .id(id)
+      .from(signerB.getAddress())
+      .to(agentA.address)
+      .method('message/send')
+      .payload({ idempotencyKey: 'key-1', message: { messageId: id, role: 'user', parts: [{ text: 'hi' }] } })
+      .timestamp(Math.floor(Date.now() / 1000))
+      .build());
+
+    const failed = await agentA.processMessage(build('attempt-1'));
+    expect((failed.payload as any).error.code).toBe(5001);
+    const retry = await agentA.processMessage(build('attempt-2'));
+
+    expect(calls).toBe(2);
+    expect(retry.payload.deduplicated).toBeUndefined();
+  });
+
+  describe('stream middleware', () => {
+    async function streamRequest(agentA: SnapAgent, id: string) {
+      const { MessageSigner } = await import('../../src/messaging/MessageSigner.js');
+      const { MessageBuilder } = await import('../../src/messaging/MessageBuilder.js');
+      const signerB = new MessageSigner(AGENT_B_KEY);
+      return signerB.sign(new MessageBuilder()
+        .id(id)
+        .from(signerB.getAddress())
+        .to(agentA.address)
+        .method('message/stream')
+        .payload({ message: { messageId: 'm1', role: 'user', parts: [{ text: 'hi' }] } })
+        .timestamp(Math.floor(Date.now() / 1000))
+        .build());
+    }
+
+    it('resumes inbound middleware after the last event', async () => {
+      const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('Stream') });
+      agents.push(agentA);
+      const log: string[] = [];
+      agentA.use({
+        name: 'timing',
+        async handle(ctx, next) {
+          log.push(`before ${ctx.direction}`);
+          await next();
+          log.push(`after ${ctx.direction}`);
+        },
+      });
+      agentA.handleStream('message/stream', async function* () {
+        log.push('event 1');
+        yield { type: 'event', payload: { n: 1 } } as unknown as SnapMessage;
+        log.push('event 2');
+        yield { type: 'response', payload: { n: 2 } } as unknown as SnapMessage;
+      });
+
+      for await (const event of agentA.processStream(await streamRequest(agentA, 'stream-1'))) {
+        log.push(`got ${(event.payload as { n: number }).n}`);
+      }
+      expect(log).toEqual(['before inbound', 'event 1', 'got 1', 'event 2', 'got 2', 'after inbound']);
+    });
+
+    it('passes error and early responses through outbound middleware', async () => {
+      const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('Stream') });
+      agents.push(agentA);
+      const outbound: Array<Record<string, unknown> | undefined> = [];
+      agentA.use({
+        name: 'gate',
+        async handle(ctx, next) {
+          if (ctx.direction === 'outbound') {
+            outbound.push(ctx.response);
+            return next();
+          }
+          if (ctx.message.id === 'cached') {
+            ctx.response = { cached: true };
+            return;
+          }
+          await next();
+        },
+      });
+
+      const failed: SnapMessage[] = [];
+      for await (const event of agentA.processStream(await streamRequest(agentA, 'no-handler'))) failed.push(event);
+      const early: SnapMessage[] = [];
+      for await (const event of agentA.processStream(await streamRequest(agentA, 'cached'))) early.push(event);
+
+      expect((failed[0].payload as any).error.code).toBe(1007);
+      expect(early.map((e) => e.payload)).toMatchObject([{ cached: true, inReplyTo: 'cached' }]);
+      expect(outbound).toMatchObject([{ error: { code: 1007 } }, { cached: true }]);
+    });
+
+    it('stops the handler when the caller abandons the stream', async () => {
+      const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('Stream') });
+      agents.push(agentA);
+      let finished = false;
+      agentA.handleStream('message/stream', async function* () {
+        try {
+          for (let n = 0; ; n++) yield { type: 'event', payload: { n } } as unknown as SnapMessage;
+        } finally {
+          finished = true;
+        }
+      });
+
+      for await (const event of agentA.processStream(await streamRequest(agentA, 'stream-2'))) {
+        if ((event.payload as { n: number }).n === 2) break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(finished).toBe(true);
+    });
+  });
+
+  it('processStream answers an unregistered stream method with an error response', async () => {
     const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('NoStream') });
     agents.push(agentA);
 
@@ -581,11 +1508,14 @@ describe('SnapAgent', () => {
       .build();
     const signed = signerB.sign(unsigned);
 
-    await expect(async () => {
-      for await (const _ of agentA.processStream(signed)) {
-        // should not reach here
-      }
-    }).rejects.toThrow('Method not found');
+    const events: SnapMessage[] = [];
+    for await (const event of agentA.processStream(signed)) {
+      events.push(event);
+    }
+
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toBe('response');
+    expect((events[0].payload as any).error.code).toBe(1007);
   });
 
   it('processMessage validates message structure', async () => {
@@ -615,7 +1545,7 @@ describe('SnapAgent', () => {
     const result = await agentB.sendMessage(
       agentA.address,
       `http://127.0.0.1:${serverTransport.port}`,
-      { messageId: 'msg-1', role: 'user', parts: [{ type: 'text', text: 'test' }] },
+      { messageId: 'msg-1', role: 'user', parts: [{ text: 'test' }] },
     );
 
     expect(result.task.id).toBe('second-handler');
@@ -639,7 +1569,7 @@ describe('SnapAgent', () => {
     await agentB.sendMessage(
       agentA.address,
       `http://127.0.0.1:${serverTransport.port}`,
-      { messageId: 'msg-ctx', role: 'user', parts: [{ type: 'text', text: 'check ctx' }] },
+      { messageId: 'msg-ctx', role: 'user', parts: [{ text: 'check ctx' }] },
     );
 
     expect(contextMessage).not.toBeNull();
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { SnapService } from '../../src/agent/SnapService.js';
+import { MessageBuilder } from '../../src/messaging/MessageBuilder.js';
+import { MessageSigner } from '../../src/messaging/MessageSigner.js';
+import { InMemoryReplayStore } from '../../src/stores/InMemoryReplayStore.js';
+import { Allowlist } from '../../src/middleware/Allowlist.js';
+import { AllowlistMiddleware } from '../../src/middleware/AllowlistMiddleware.js';
+import { ErrorCodes } from '../../src/types/errors.js';
+import type { P2TRAddress } from '../../src/types/keys.js';
+import type { Middleware } from '../../src/types/plugin.js';
+
+const SIGNER = new MessageSigner('0000000000000000000000000000000000000000000000000000000000000001');
+const OTHER = new MessageSigner('0000000000000000000000000000000000000000000000000000000000000002');
+
+let seq = 0;
+function call(payload: Record<string, unknown>, opts: { method?: string; to?: P2TRAddress; signer?: MessageSigner } = {}) {
+  const signer = opts.signer ?? SIGNER;
+  const builder = new MessageBuilder()
+    .id(`svc-${++seq}`)
+    .from(signer.getAddress())
+    .method((opts.method ?? 'service/call') as any)
+    .payload(payload)
+    .timestamp(Math.floor(Date.now() / 1000));
+  if (opts.to) builder.to(opts.to);
+  return signer.sign(builder.build());
+}
+
+function citySchema(args: Record<string, unknown>) {
+  return typeof args.city === 'string' ? [] : [{ field: 'payload.arguments.city', constraint: 'required', expected: 'string' }];
+}
+
+describe('SnapService', () => {
+  const service = new SnapService()
+    .tool<{ city: string }, { tempC: number }>('weather', ({ city }) => ({ tempC: city.length }), citySchema)
+    .tool('whoami', (_args, ctx) => ctx.message.from);
+
+  it('runs the named tool and answers { result }', async () => {
+    expect(await service.processMessage(call({ name: 'weather', arguments: { city: 'Oslo' } }))).toEqual({ result: { tempC: 4 } });
+    expect(await service.processMessage(call({ name: 'whoami' }))).toEqual({ result: SIGNER.getAddress() });
+    expect(service.toolNames).toEqual(['weather', 'whoami']);
+  });
+
+  it('answers METHOD_NOT_FOUND for unknown tools and methods', async () => {
+    expect(await service.processMessage(call({ name: 'drop_database' }))).toEqual({
+      error: {
+        code: ErrorCodes.METHOD_NOT_FOUND,
+        message: 'Tool not found: drop_database',
+        data: { method: 'service/call', name: 'drop_database' },
+      },
+    });
+    const { error } = await service.processMessage(call({ taskId: 't1' }, { method: 'tasks/get' }));
+    expect(error).toMatchObject({ code: ErrorCodes.METHOD_NOT_FOUND, data: { method: 'tasks/get' } });
+  });
+
+  it('answers INVALID_PAYLOAD for a malformed payload or bad arguments', async () => {
+    const malformed = await service.processMessage(call({ arguments: {} }));
+    expect(malformed.error).toMatchObject({ code: ErrorCodes.INVALID_PAYLOAD, data: { field: 'payload.name', constraint: 'required' } });
+
+    const badArgs = await service.processMessage(call({ name: 'weather', arguments: { town: 'Oslo' } }));
+    expect(badArgs.error).toMatchObject({
+      code: ErrorCodes.INVALID_PAYLOAD,
+      message: 'Invalid arguments',
+      data: { field: 'payload.arguments.city', constraint: 'required' },
+    });
+  });
+
+  it('rejects unsigned, tampered and agent-addressed messages', async () => {
+    const tampered = { ...call({ name: 'whoami' }), payload: { name: 'weather' } };
+    expect((await service.processMessage(tampered)).error?.code).toBe(ErrorCodes.SIGNATURE_INVALID);
+    expect((await service.processMessage({ not: 'a message' })).error?.code).toBe(ErrorCodes.INVALID_PAYLOAD);
+
+    const addressed = await service.processMessage(call({ name: 'whoami' }, { to: OTHER.getAddress() }));
+    expect(addressed.error).toMatchObject({ code: ErrorCodes.INVALID_MESSAGE });
+  });
+
+  it('rejects replayed message IDs when a replay store is set', async () => {
+    const guarded = new SnapService().replayStore(new InMemoryReplayStore()).tool('ping', () => 'pong');
+    const message = call({ name: 'ping' });
+    expect(await guarded.processMessage(message)).toEqual({ result: 'pong' });
+    expect((await guarded.processMessage(message)).error?.code).toBe(ErrorCodes.DUPLICATE_MESSAGE);
+  });
+
+  it('runs middleware before the tool', async () => {
+    const allowlist = new Allowlist({ entries: [{ address: SIGNER.getAddress(), methods: ['service/call'], skills: ['ping'] }] });
+    const guarded = new SnapService().use(new AllowlistMiddleware(allowlist)).tool('ping', () => 'pong').tool('admin', () => 'ok');
+
+    expect(await guarded.processMessage(call({ name: 'ping' }))).toEqual({ result: 'pong' });
+    expect((await guarded.processMessage(call({ name: 'admin' }))).error?.code).toBe(ErrorCodes.UNAUTHORIZED);
+    expect((await guarded.processMessage(call({ name: 'ping' }, { signer: OTHER }))).error?.code).toBe(ErrorCodes.UNAUTHORIZED);
+  });
+
+  it('lets middleware answer early', async () => {
+    const cached: Middleware = { name: 'cache', async handle(ctx) { ctx.response = { result: 'cached' }; } };
+    const early = new SnapService().use(cached).tool('ping', () => 'pong');
+    expect(await early.processMessage(call({ name: 'ping' }))).toEqual({ result: 'cached' });
+  });
+});
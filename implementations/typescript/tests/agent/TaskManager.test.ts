@@ -0,0 +1,339 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TaskManager } from '../../src/agent/TaskManager.js';
+import { InMemoryTaskStore } from '../../src/stores/InMemoryTaskStore.js';
+import { ValidatingTaskStore } from '../../src/stores/ValidatingTaskStore.js';
+import { SnapError } from '../../src/errors/SnapError.js';
+import { ErrorCodes } from '../../src/types/errors.js';
+import type { InnerMessage, Task } from '../../src/types/task.js';
+import type { HandlerContext } from '../../src/types/handler.js';
+
+const turn = (messageId: string, role: 'user' | 'agent' = 'user'): InnerMessage => ({
+  messageId,
+  role,
+  parts: [{ text: messageId }],
+});
+
+const OWNER = 'bc1powner';
+const context = { message: { from: OWNER } } as HandlerContext;
+
+describe('TaskManager', () => {
+  let store: InMemoryTaskStore;
+  let manager: TaskManager;
+
+  beforeEach(() => {
+    store = new InMemoryTaskStore();
+    manager = new TaskManager(store);
+  });
+
+  it('wraps its store in a ValidatingTaskStore', () => {
+    expect(manager.store).toBeInstanceOf(ValidatingTaskStore);
+    expect(manager.store.inner).toBe(store);
+    expect(new TaskManager().store.inner).toBeInstanceOf(InMemoryTaskStore);
+  });
+
+  it('creates a submitted task with the first turn in history', async () => {
+    const task = await manager.create(turn('m1'));
+    expect(task.status.state).toBe('submitted');
+    expect(task.history).toEqual([turn('m1')]);
+    expect(await store.get(task.id)).toEqual(task);
+  });
+
+  it('get() throws TASK_NOT_FOUND for unknown tasks', async () => {
+    await expect(manager.get('missing')).rejects.toMatchObject({
+      code: ErrorCodes.TASK_NOT_FOUND,
+      data: { taskId: 'missing' },
+    });
+  });
+
+  it('get() honours historyLength', async () => {
+    const task = await manager.create(turn('m1'));
+    await manager.appendMessage(task.id, turn('m2'));
+    await manager.appendMessage(task.id, turn('m3'));
+
+    expect((await manager.get(task.id)).history).toHaveLength(3);
+    expect((await manager.get(task.id, 2)).history!.map((m) => m.messageId)).toEqual(['m2', 'm3']);
+    expect(await manager.get(task.id, 0)).not.toHaveProperty('history');
+    // Trimming must not affect the stored record
+    expect((await store.get(task.id))!.history).toHaveLength(3);
+  });
+
+  it('cancels a non-terminal task', async () => {
+    const task = await manager.create(turn('m1'));
+    const canceled = await manager.cancel(task.id);
+    expect(canceled.status.state).toBe('canceled');
+    expect((await store.get(task.id))!.status.state).toBe('canceled');
+  });
+
+  it('cancel() throws TASK_NOT_CANCELABLE for terminal tasks', async () => {
+    const task = await manager.create(turn('m1'));
+    await manager.updateStatus(task.id, 'working');
+    await manager.updateStatus(task.id, 'completed');
+
+    const err = await manager.cancel(task.id).catch((e) => e);
+    expect(err).toBeInstanceOf(SnapError);
+    expect(err.code).toBe(ErrorCodes.TASK_NOT_CANCELABLE);
+    expect(err.data).toEqual({ taskId: task.id, state: 'completed' });
+  });
+
+  it('list() filters, pages and trims history', async () => {
+    const a = await manager.create(turn('m1'), OWNER);
+    const b = await manager.create(turn('m2'), OWNER);
+    await manager.create(turn('m3'), 'bc1pother');
+    await manager.updateStatus(b.id, 'working');
+
+    const working = await manager.list({ owner: OWNER, state: 'working' }, 0);
+    expect(working.tasks.map((t) => t.id)).toEqual([b.id]);
+    expect(working.tasks[0].history).toBeUndefined();
+
+    const all = await manager.list({ owner: OWNER });
+    expect(all.tasks.map((t) => t.id).sort()).toEqual([a.id, b.id].sort());
+    expect(all.tasks[0].history).toHaveLength(1);
+  });
+
+  it('handleList() lists only the requester\'s tasks', async () => {
+    const { task } = await manager.run({ message: turn('m1') }, context, async (_p, ctx) => ({ task: ctx.task }));
+    await manager.create(turn('m2'), 'bc1pother');
+
+    const page = await manager.handleList({ updatedAfter: new Date(Date.now() - 60_000).toISOString() }, context);
+    expect(page.tasks!.map((t) => t.id)).toEqual([task!.id]);
+    expect(page.nextCursor).toBeUndefined();
+
+    const later = await manager.handleList({ updatedAfter: new Date(Date.now() + 60_000).toISOString() }, context);
+    expect(later.tasks).toEqual([]);
+  });
+
+  describe('ownership', () => {
+    const stranger = { message: { from: 'bc1pstranger' } } as HandlerContext;
+
+    it('answers TASK_NOT_FOUND to tasks/get and tasks/cancel from non-owners', async () => {
+      const task = await manager.create(turn('m1'), OWNER);
+
+      await expect(manager.handleGet({ taskId: task.id }, stranger)).rejects.toMatchObject({ code: ErrorCodes.TASK_NOT_FOUND });
+      await expect(manager.handleCancel({ taskId: task.id }, stranger)).rejects.toMatchObject({ code: ErrorCodes.TASK_NOT_FOUND });
+      expect((await manager.get(task.id)).status.state).toBe('submitted');
+
+      expect((await manager.handleGet({ taskId: task.id }, context)).task!.id).toBe(task.id);
+      expect((await manager.handleCancel({ taskId: task.id }, context)).task!.status.state).toBe('canceled');
+    });
+
+    it('rejects continuing another requester\'s task without touching it', async () => {
+      const { task } = await manager.run({ message: turn('m1') }, context, async (_p, ctx) => ({
+        task: { ...ctx.task!, status: { state: 'input_required', timestamp: new Date().toISOString() } },
+      }));
+
+      await expect(
+        manager.run({ taskId: task!.id, message: turn('m2') }, stranger, async () => ({})),
+      ).rejects.toMatchObject({ code: ErrorCodes.TASK_NOT_FOUND });
+
+      const stored = await manager.get(task!.id);
+      expect(stored.status.state).toBe('input_required');
+      expect(stored.history!.map((m) => m.messageId)).toEqual(['m1']);
+    });
+
+    it('enforces ownership with a store that cannot record owners', async () => {
+      const tasks = new Map<string, Task>();
+      manager = new TaskManager({
+        get: async (id) => tasks.get(id),
+        set: async (id, task) => { tasks.set(id, task); },
+        delete: async (id) => { tasks.delete(id); },
+      });
+      const { task } = await manager.run({ message: turn('m1') }, context, async (_p, ctx) => ({ task: ctx.task }));
+
+      await expect(manager.handleGet({ taskId: task!.id }, stranger)).rejects.toMatchObject({ code: ErrorCodes.TASK_NOT_FOUND });
+      await expect(manager.handleCancel({ taskId: task!.id }, stranger)).rejects.toMatchObject({ code: ErrorCodes.TASK_NOT_FOUND });
+      expect((await manager.handleGet({ taskId: task!.id }, context)).task!.id).toBe(task!.id);
+    });
+
+    it('serves tasks with no recorded owner to anyone', async () => {
+      const task = await manager.create(turn('m1'));
+      expect((await manager.handleGet({ taskId: task.id }, stranger)).task!.id).toBe(task.id);
+    });
+  });
+
+  describe('contexts', () => {
+    const other = { message: { from: 'bc1pother' } } as HandlerContext;
+    const complete = (ctx: HandlerContext) => ({
+      task: { ...ctx.task!, status: { state: 'completed' as const, timestamp: new Date().toISOString() } },
+    });
+
+    // Listings order tasks by creation time, so give each task its own millisecond
+    beforeEach(() => {
+      vi.useFakeTimers({ now: 1_000_000_000 });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const later = () => vi.advanceTimersByTime(1000);
+
+    it('mints a context ID for every new task', async () => {
+      const task = await manager.create(turn('m1'));
+      expect(task.contextId).toMatch(/^[a-zA-Z0-9_-]+$/);
+      expect((await manager.create(turn('m2'))).contextId).not.toBe(task.contextId);
+    });
+
+    it('groups a requester\'s follow-up tasks into their live context', async () => {
+      const first = await manager.run({ message: turn('m1') }, context, async (_p, ctx) => complete(ctx));
+      later();
+      const second = await manager.run({ message: turn('m2') }, context, async (_p, ctx) => complete(ctx));
+      const foreign = await manager.run({ message: turn('m3') }, other, async (_p, ctx) => complete(ctx));
+
+      expect(second.task!.contextId).toBe(first.task!.contextId);
+      expect(foreign.task!.contextId).not.toBe(first.task!.contextId);
+      const members = await manager.list({ contextId: first.task!.contextId });
+      expect(members.tasks.map((t) => t.id)).toEqual([second.task!.id, first.task!.id]);
+    });
+
+    it('passes the turns of earlier tasks in the context to handlers', async () => {
+      await manager.run({ message: turn('m1') }, context, async (_p, ctx) => {
+        expect(ctx.contextHistory).toEqual([]);
+        return { task: { ...complete(ctx).task, history: [turn('a1', 'agent')] } };
+      });
+      later();
+
+      let seen: InnerMessage[] | undefined;
+      await manager.run({ message: turn('m2') }, context, async (_p, ctx) => {
+        seen = ctx.contextHistory;
+        return complete(ctx);
+      });
+      expect(seen?.map((m) => m.messageId)).toEqual(['m1', 'a1']);
+    });
+
+    it('starts a new context once the latest one is idle past idleTimeout', async () => {
+      manager = new TaskManager(store, { contexts: { idleTimeout: 60_000 } });
+      const first = await manager.create(turn('m1'), OWNER);
+      vi.advanceTimersByTime(30_000);
+      expect((await manager.create(turn('m2'), OWNER)).contextId).toBe(first.contextId);
+      vi.advanceTimersByTime(70_000);
+      expect((await manager.create(turn('m3'), OWNER)).contextId).not.toBe(first.contextId);
+    });
+
+    it('starts a new context once the latest one holds maxTasks tasks', async () => {
+      manager = new TaskManager(store, { contexts: { maxTasks: 2 } });
+      const a = await manager.create(turn('m1'), OWNER);
+      later();
+      const b = await manager.create(turn('m2'), OWNER);
+      later();
+      const c = await manager.create(turn('m3'), OWNER);
+      expect(b.contextId).toBe(a.contextId);
+      expect(c.contextId).not.toBe(a.contextId);
+    });
+
+    it('limits context history to historyLength turns', async () => {
+      manager = new TaskManager(store, { contexts: { historyLength: 1 } });
+      await manager.create(turn('m1'), OWNER);
+      later();
+      await manager.create(turn('m2'), OWNER);
+      later();
+      let seen: InnerMessage[] | undefined;
+      await manager.run({ message: turn('m3') }, context, async (_p, ctx) => {
+        seen = ctx.contextHistory;
+        return complete(ctx);
+      });
+      expect(seen?.map((m) => m.messageId)).toEqual(['m2']);
+    });
+
+    it('stops paging through the context once historyLength turns are collected', async () => {
+      manager = new TaskManager(store, { contexts: { maxTasks: 150, historyLength: 2 } });
+      for (let i = 1; i <= 120; i++) {
+        await manager.create(turn(`m${i}`), OWNER);
+        later();
+      }
+      const list = vi.spyOn(manager.store, 'list');
+      let seen: InnerMessage[] | undefined;
+      await manager.run({ message: turn('m121') }, context, async (_p, ctx) => {
+        seen = ctx.contextHistory;
+        return complete(ctx);
+      });
+      expect(seen?.map((m) => m.messageId)).toEqual(['m119', 'm120']);
+      expect(list.mock.calls.filter(([query]) => query.limit === 100)).toHaveLength(1);
+    });
+
+    it('keeps the assigned context when a handler returns another one', async () => {
+      const response = await manager.run({ message: turn('m1') }, context, async (_p, ctx) => ({
+        task: { ...complete(ctx).task, contextId: 'elsewhere' },
+      }));
+      expect(response.task!.contextId).not.toBe('elsewhere');
+      expect(response.task!.status.state).toBe('completed');
+    });
+  });
+
+  describe('run()', () => {
+    it('creates a task, exposes it to the handler and merges the result', async () => {
+      let seenState: string | undefined;
+      const response = await manager.run({ message: turn('m1') }, context, async (_payload, ctx) => {
+        seenState = ctx.task?.status.state;
+        return {
+          task: {
+            ...ctx.task!,
+            status: { state: 'completed', timestamp: new Date().toISOString() },
+            artifacts: [{ artifactId: 'a1', parts: [{ text: 'done' }] }],
+            history: [turn('r1', 'agent')],
+          },
+        };
+      });
+
+      expect(seenState).toBe('working');
+      expect(response.task!.status.state).toBe('completed');
+      expect(response.task!.artifacts).toHaveLength(1);
+      expect(response.task!.history!.map((m) => m.messageId)).toEqual(['m1', 'r1']);
+      expect(await store.get(response.task!.id)).toEqual(response.task);
+    });
+
+    it('continues an existing task when taskId is given', async () => {
+      const first = await manager.run({ message: turn('m1') }, context, async (_p, ctx) => ({
+        task: { ...ctx.task!, status: { state: 'input_required', timestamp: new Date().toISOString() } },
+      }));
+
+      const second = await manager.run(
+        { message: turn('m2'), taskId: first.task!.id },
+        context,
+        async (_p, ctx) => ({ task: ctx.task }),
+      );
+
+      expect(second.task!.id).toBe(first.task!.id);
+      expect(second.task!.history!.map((m) => m.messageId)).toEqual(['m1', 'm2']);
+    });
+
+    it('throws TASK_NOT_FOUND when continuing an unknown task', async () => {
+      await expect(
+        manager.run({ message: turn('m1'), taskId: 'missing' }, context, async () => ({})),
+      ).rejects.toMatchObject({ code: ErrorCodes.TASK_NOT_FOUND });
+    });
+
+    it('rejects continuing a terminal task without touching its history', async () => {
+      const first = await manager.run({ message: turn('m1') }, context, async (_p, ctx) => ({
+        task: { ...ctx.task!, status: { state: 'completed', timestamp: new Date().toISOString() } },
+      }));
+
+      await expect(
+        manager.run({ message: turn('m2'), taskId: first.task!.id }, context, async () => ({})),
+      ).rejects.toMatchObject({ code: ErrorCodes.INVALID_TASK_STATE });
+      expect((await manager.get(first.task!.id)).history!.map((m) => m.messageId)).toEqual(['m1']);
+    });
+
+    it('does not let a handler revive a task canceled mid-flight', async () => {
+      await expect(
+        manager.run({ message: turn('m1') }, context, async (_p, ctx) => {
+          await manager.cancel(ctx.task!.id);
+          return { task: { ...ctx.task!, status: { state: 'working', timestamp: new Date().toISOString() } } };
+        }),
+      ).rejects.toMatchObject({ code: ErrorCodes.INVALID_TASK_STATE, data: { from: 'canceled', to: 'working' } });
+    });
+
+    it('marks the task failed when the handler throws', async () => {
+      let taskId = '';
+      await expect(
+        manager.run({ message: turn('m1') }, context, async (_p, ctx) => {
+          taskId = ctx.task!.id;
+          throw new Error('boom');
+        }),
+      ).rejects.toThrow('boom');
+
+      const task = await manager.get(taskId);
+      expect(task.status.state).toBe('failed');
+      expect(task.status.message).toBe('boom');
+    });
+  });
+});
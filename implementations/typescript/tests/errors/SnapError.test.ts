@@ -94,6 +94,16 @@ describe('SnapError', () => {
       expect(err).toBeInstanceOf(SnapError);
       expect(err.code).toBe(ErrorCodes.INVALID_PAYLOAD);
       expect(err.message).toBe('missing field');
+      expect(err.data).toBeUndefined();
+    });
+
+    it('invalidPayload() with violations leads with the first and lists them all', () => {
+      const violations = [
+        { field: 'id', constraint: 'pattern', expected: '^[a-zA-Z0-9_-]+$', received: 'msg@001' },
+        { field: 'method', constraint: 'required', expected: 'string' },
+      ];
+      const err = SnapError.invalidPayload('Invalid payload', violations);
+      expect(err.data).toEqual({ ...violations[0], violations });
     });
 
     it('duplicateMessage() creates error with code 2006 and id/from data', () => {
@@ -112,6 +122,62 @@ describe('SnapError', () => {
       expect(err.data).toEqual({ address: 'bc1qinvalid' });
     });
 
+    it('identityMismatch() creates error with code 2003 and field/expected/received data', () => {
+      const err = SnapError.identityMismatch('from', 'bc1p...expected', 'bc1p...actual');
+      expect(err).toBeInstanceOf(SnapError);
+      expect(err.code).toBe(ErrorCodes.IDENTITY_MISMATCH);
+      expect(err.message).toBe('Identity mismatch');
+      expect(err.data).toEqual({ field: 'from', expected: 'bc1p...expected', received: 'bc1p...actual' });
+    });
+
+    it('correlationMismatch() creates error with code 1003 and inReplyTo data', () => {
+      const err = SnapError.correlationMismatch('req-1', 'req-2');
+      expect(err.code).toBe(ErrorCodes.INVALID_MESSAGE);
+      expect(err.message).toBe('Response does not correlate with request');
+      expect(err.data).toEqual({ field: 'payload.inReplyTo', expected: 'req-1', received: 'req-2' });
+    });
+
+    it('unauthorized() creates error with code 2007 and from/method/skill data', () => {
+      const err = SnapError.unauthorized('bc1p...', 'service/call', 'query_database');
+      expect(err.code).toBe(ErrorCodes.UNAUTHORIZED);
+      expect(err.message).toBe('Unauthorized');
+      expect(err.data).toEqual({ from: 'bc1p...', method: 'service/call', skill: 'query_database' });
+      expect(SnapError.unauthorized('bc1p...', 'tasks/get').data).toEqual({ from: 'bc1p...', method: 'tasks/get' });
+    });
+
+    it('rateLimitExceeded() creates error with code 5002 and retryAfter data', () => {
+      const err = SnapError.rateLimitExceeded(60, 60, 45);
+      expect(err.code).toBe(ErrorCodes.RATE_LIMIT_EXCEEDED);
+      expect(err.message).toBe('Rate limit exceeded');
+      expect(err.data).toEqual({ limit: 60, window: '60s', retryAfter: 45 });
+    });
+
+    it('agentNotFound() creates error with code 3001 and identity data', () => {
+      const err = SnapError.agentNotFound('bc1pabc');
+      expect(err.code).toBe(ErrorCodes.AGENT_NOT_FOUND);
+      expect(err.message).toBe('Agent not found');
+      expect(err.data).toEqual({ identity: 'bc1pabc' });
+    });
+
+    it('versionNotSupported() creates error with code 5004 listing supported versions', () => {
+      const err = SnapError.versionNotSupported('1.0', ['0.1']);
+      expect(err.code).toBe(ErrorCodes.VERSION_NOT_SUPPORTED);
+      expect(err.message).toBe('Version not supported');
+      expect(err.data).toEqual({ requested: '1.0', supported: ['0.1'] });
+    });
+
+    it('transportUnavailable() creates error with code 4001 and the attempt report', () => {
+      const attempts = [
+        { protocol: 'http' as const, endpoint: 'https://a', attempt: 1, error: 'down' },
+        { protocol: 'http' as const, endpoint: 'https://a', attempt: 2, error: 'down' },
+        { protocol: 'nostr' as const, endpoint: 'wss://relay', attempt: 1, error: 'timeout' },
+      ];
+      const err = SnapError.transportUnavailable(attempts);
+      expect(err.code).toBe(ErrorCodes.TRANSPORT_UNAVAILABLE);
+      expect(err.message).toBe('No transport available');
+      expect(err.data).toEqual({ tried: ['http', 'nostr'], attempts });
+    });
+
     it('methodNotFound() creates error with code 1007 and method data', () => {
       const err = SnapError.methodNotFound('tasks/get');
       expect(err).toBeInstanceOf(SnapError);
@@ -119,6 +185,80 @@ describe('SnapError', () => {
       expect(err.message).toBe('Method not found: tasks/get');
       expect(err.data).toEqual({ method: 'tasks/get' });
     });
+
+    it('taskNotFound() creates error with code 1001 and taskId data', () => {
+      const err = SnapError.taskNotFound('task-123');
+      expect(err).toBeInstanceOf(SnapError);
+      expect(err.code).toBe(ErrorCodes.TASK_NOT_FOUND);
+      expect(err.message).toBe('Task not found');
+      expect(err.data).toEqual({ taskId: 'task-123' });
+    });
+
+    it('taskNotCancelable() creates error with code 1002 and state data', () => {
+      const err = SnapError.taskNotCancelable('task-123', 'completed');
+      expect(err).toBeInstanceOf(SnapError);
+      expect(err.code).toBe(ErrorCodes.TASK_NOT_CANCELABLE);
+      expect(err.message).toBe('Task cannot be canceled in state: completed');
+      expect(err.data).toEqual({ taskId: 'task-123', state: 'completed' });
+    });
+
+    it('tooLarge() creates INVALID_MESSAGE with the violated limit', () => {
+      const err = SnapError.tooLarge('payload', 1024, 2048);
+      expect(err.code).toBe(ErrorCodes.INVALID_MESSAGE);
+      expect(err.message).toBe('payload exceeds 1024 bytes');
+      expect(err.data).toEqual({ field: 'payload', constraint: 'maxBytes', expected: 1024, received: 2048 });
+      expect(SnapError.tooLarge('card.skills', 100, 101, 'maxItems').message).toBe('card.skills exceeds 100 items');
+    });
+  });
+
+  describe('wire conversion', () => {
+    it('fromData() round-trips toJSON()', () => {
+      const original = SnapError.taskNotFound('task-1');
+      const rebuilt = SnapError.fromData(original.toJSON());
+      expect(rebuilt).toBeInstanceOf(SnapError);
+      expect(rebuilt.code).toBe(original.code);
+      expect(rebuilt.message).toBe(original.message);
+      expect(rebuilt.data).toEqual(original.data);
+    });
+
+    it('from() passes SnapErrors through', () => {
+      const err = SnapError.invalidPayload('bad');
+      expect(SnapError.from(err)).toBe(err);
+    });
+
+    it('from() maps unknown errors to INTERNAL_ERROR without details', () => {
+      const err = SnapError.from(new Error('secret detail'));
+      expect(err.code).toBe(ErrorCodes.INTERNAL_ERROR);
+      expect(err.message).toBe('Internal error');
+      expect(SnapError.from('string thrown').code).toBe(ErrorCodes.INTERNAL_ERROR);
+    });
+
+    it('isErrorData() checks the code/message shape', () => {
+      expect(SnapError.isErrorData({ code: 1001, message: 'x' })).toBe(true);
+      expect(SnapError.isErrorData({ code: '1001', message: 'x' })).toBe(false);
+      expect(SnapError.isErrorData('Internal server error')).toBe(false);
+      expect(SnapError.isErrorData(null)).toBe(false);
+    });
+
+    it('httpStatus() follows the docs/errors.md mapping', () => {
+      expect(SnapError.httpStatus(ErrorCodes.TASK_NOT_FOUND)).toBe(400);
+      expect(SnapError.httpStatus(ErrorCodes.METHOD_NOT_FOUND)).toBe(400);
+      expect(SnapError.httpStatus(ErrorCodes.SIGNATURE_INVALID)).toBe(401);
+      expect(SnapError.httpStatus(ErrorCodes.DUPLICATE_MESSAGE)).toBe(401);
+      expect(SnapError.httpStatus(ErrorCodes.UNAUTHORIZED)).toBe(403);
+      expect(SnapError.httpStatus(ErrorCodes.AGENT_NOT_FOUND)).toBe(404);
+      expect(SnapError.httpStatus(ErrorCodes.TRANSPORT_UNAVAILABLE)).toBe(502);
+      expect(SnapError.httpStatus(ErrorCodes.INTERNAL_ERROR)).toBe(500);
+      expect(SnapError.httpStatus(ErrorCodes.RATE_LIMIT_EXCEEDED)).toBe(429);
+      expect(SnapError.httpStatus(ErrorCodes.SERVICE_UNAVAILABLE)).toBe(503);
+      expect(SnapError.httpStatus(ErrorCodes.VERSION_NOT_SUPPORTED)).toBe(400);
+      expect(SnapError.httpStatus(ErrorCodes.MAINTENANCE)).toBe(503);
+    });
+
+    it('httpStatus() maps size-limit rejections to 413', () => {
+      expect(SnapError.httpStatus(ErrorCodes.INVALID_MESSAGE)).toBe(400);
+      expect(SnapError.httpStatus(ErrorCodes.INVALID_MESSAGE, SnapError.tooLarge('message', 10).data)).toBe(413);
+    });
   });
 
   describe('ErrorCodes values', () => {
@@ -130,6 +270,7 @@ describe('SnapError', () => {
       expect(ErrorCodes.CONTENT_TYPE_NOT_SUPPORTED).toBe(1005);
       expect(ErrorCodes.PUSH_NOTIFICATION_ERROR).toBe(1006);
       expect(ErrorCodes.METHOD_NOT_FOUND).toBe(1007);
+      expect(ErrorCodes.INVALID_TASK_STATE).toBe(1008);
     });
 
     it('has correct authentication codes (2xxx)', () => {
@@ -139,6 +280,7 @@ describe('SnapError', () => {
       expect(ErrorCodes.TIMESTAMP_EXPIRED).toBe(2004);
       expect(ErrorCodes.IDENTITY_INVALID).toBe(2005);
       expect(ErrorCodes.DUPLICATE_MESSAGE).toBe(2006);
+      expect(ErrorCodes.UNAUTHORIZED).toBe(2007);
     });
 
     it('has correct discovery codes (3xxx)', () => {
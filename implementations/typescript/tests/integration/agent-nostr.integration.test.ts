@@ -83,7 +83,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
           status: { state: 'completed' as const, timestamp: new Date().toISOString() },
           history: [
             msg,
-            { messageId: 'resp-1', role: 'agent' as const, parts: [{ type: 'text' as const, text: `Nostr echo: ${text}` }] },
+            { messageId: 'resp-1', role: 'agent' as const, parts: [{ text: `Nostr echo: ${text}` }] },
           ],
         },
       };
@@ -100,7 +100,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
     const result = await agentB.sendMessage(
       agentA.address,
       'nostr',
-      { messageId: 'msg-nostr-001', role: 'user', parts: [{ type: 'text', text: 'Hello via Nostr!' }] },
+      { messageId: 'msg-nostr-001', role: 'user', parts: [{ text: 'Hello via Nostr!' }] },
       { nostrPubkey: keyA.publicKey },
     );
 
@@ -155,7 +155,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
     const result = await agentB.sendMessage(
       agentA.address,
       'nostr',
-      { messageId: 'msg-disco', role: 'user', parts: [{ type: 'text', text: 'Found you!' }] },
+      { messageId: 'msg-disco', role: 'user', parts: [{ text: 'Found you!' }] },
     );
 
     expect(result.task!.id).toBe('task-discovered');
@@ -190,7 +190,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
       .to(agentA.address)
       .method('message/send')
       .timestamp(Math.floor(Date.now() / 1000))
-      .payload({ message: { messageId: 'msg-dup', role: 'user', parts: [{ type: 'text', text: 'test' }] } })
+      .payload({ message: { messageId: 'msg-dup', role: 'user', parts: [{ text: 'test' }] } })
       .build();
     const signed = signerB.sign(unsigned);
 
@@ -271,7 +271,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
     await agentB.sendMessage(
       agentA.address,
       'nostr',
-      { messageId: 'msg-mw', role: 'user', parts: [{ type: 'text', text: 'middleware test' }] },
+      { messageId: 'msg-mw', role: 'user', parts: [{ text: 'middleware test' }] },
       { nostrPubkey: keyA.publicKey },
     );
 
@@ -351,7 +351,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
           status: { state: 'completed' as const, timestamp: new Date().toISOString() },
           history: [
             msg,
-            { messageId: 'resp-a', role: 'agent' as const, parts: [{ type: 'text' as const, text: `A says: ${text}` }] },
+            { messageId: 'resp-a', role: 'agent' as const, parts: [{ text: `A says: ${text}` }] },
           ],
         },
       };
@@ -368,7 +368,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
           status: { state: 'completed' as const, timestamp: new Date().toISOString() },
           history: [
             msg,
-            { messageId: 'resp-b', role: 'agent' as const, parts: [{ type: 'text' as const, text: `B says: ${text}` }] },
+            { messageId: 'resp-b', role: 'agent' as const, parts: [{ text: `B says: ${text}` }] },
           ],
         },
       };
@@ -385,7 +385,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
     const resultFromA = await agentB.sendMessage(
       agentA.address,
       'nostr',
-      { messageId: 'msg-b2a', role: 'user', parts: [{ type: 'text', text: 'Hello from B' }] },
+      { messageId: 'msg-b2a', role: 'user', parts: [{ text: 'Hello from B' }] },
       { nostrPubkey: keyA.publicKey },
     );
     expect(resultFromA.task!.id).toBe('task-from-a');
@@ -397,7 +397,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
     const resultFromB = await agentA.sendMessage(
       agentB.address,
       'nostr',
-      { messageId: 'msg-a2b', role: 'user', parts: [{ type: 'text', text: 'Hello from A' }] },
+      { messageId: 'msg-a2b', role: 'user', parts: [{ text: 'Hello from A' }] },
       { nostrPubkey: keyB.publicKey },
     );
     expect(resultFromB.task!.id).toBe('task-from-b');
@@ -429,7 +429,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
       agentB.sendMessage(
         agentA.address,
         'nostr',
-        { messageId: 'msg-err', role: 'user', parts: [{ type: 'text', text: 'trigger error' }] },
+        { messageId: 'msg-err', role: 'user', parts: [{ text: 'trigger error' }] },
         { nostrPubkey: keyA.publicKey },
       ),
     ).rejects.toThrow('Nostr response timed out');
@@ -452,7 +452,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
           status: { state: 'completed' as const, timestamp: new Date().toISOString() },
           history: [
             msg,
-            { messageId: `resp-${text}`, role: 'agent' as const, parts: [{ type: 'text' as const, text: `ack: ${text}` }] },
+            { messageId: `resp-${text}`, role: 'agent' as const, parts: [{ text: `ack: ${text}` }] },
           ],
         },
       };
@@ -477,7 +477,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
         agent.sendMessage(
           agentServer.address,
           'nostr',
-          { messageId: `msg-${label}`, role: 'user', parts: [{ type: 'text', text: label }] },
+          { messageId: `msg-${label}`, role: 'user', parts: [{ text: label }] },
           { nostrPubkey: keyServer.publicKey },
         ),
       ),
@@ -544,7 +544,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
     const createResult = await agentB.sendMessage(
       agentA.address,
       'nostr',
-      { messageId: 'msg-lifecycle', role: 'user', parts: [{ type: 'text', text: 'Start a task' }] },
+      { messageId: 'msg-lifecycle', role: 'user', parts: [{ text: 'Start a task' }] },
       { nostrPubkey: keyA.publicKey },
     );
     expect(createResult.task!.id).toBe('lifecycle-task-001');
@@ -631,7 +631,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
           status: { state: 'completed' as const, timestamp: new Date().toISOString() },
           history: [
             msg,
-            { messageId: 'resp-p', role: 'agent' as const, parts: [{ type: 'text' as const, text: `ack: ${text}` }] },
+            { messageId: 'resp-p', role: 'agent' as const, parts: [{ text: `ack: ${text}` }] },
           ],
         },
       };
@@ -649,7 +649,7 @@ describe.skipIf(!RELAY_URL)('Agent-to-Agent via Nostr relay', () => {
     const result = await agentB.sendMessage(
       agentA.address,
       'nostr',
-      { messageId: 'msg-persist', role: 'user', parts: [{ type: 'text', text: 'store me' }] },
+      { messageId: 'msg-persist', role: 'user', parts: [{ text: 'store me' }] },
       { nostrPubkey: keyA.publicKey, persist: true },
     );
 
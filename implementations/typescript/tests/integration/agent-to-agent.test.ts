@@ -53,10 +53,13 @@ describe('Agent-to-Agent Integration', () => {
           {
             messageId: 'resp-001',
             role: 'agent' as const,
-            parts: [{ type: 'text' as const, text: `Echo: ${(msg.parts[0] as any).text}` }],
+            parts: [{ text: `Echo: ${(msg.parts[0] as any).text}` }],
           },
         ],
       };
+      for (const state of ['submitted', 'working'] as const) {
+        await taskStore.set(task.id, { ...task, status: { ...task.status, state } });
+      }
       await taskStore.set(task.id, task);
       return { task };
     });
@@ -74,7 +77,7 @@ describe('Agent-to-Agent Integration', () => {
       {
         messageId: 'msg-001',
         role: 'user',
-        parts: [{ type: 'text', text: 'Hello, Agent A!' }],
+        parts: [{ text: 'Hello, Agent A!' }],
       },
     );
 
@@ -113,7 +116,7 @@ describe('Agent-to-Agent Integration', () => {
       {
         messageId: 'msg-ws-001',
         role: 'user',
-        parts: [{ type: 'text', text: 'Hello via WebSocket!' }],
+        parts: [{ text: 'Hello via WebSocket!' }],
       },
     );
 
@@ -139,7 +142,7 @@ describe('Agent-to-Agent Integration', () => {
         .to(to)
         .type('event')
         .method('message/stream')
-        .payload({ progress: 0.5, message: 'Processing...' })
+        .payload({ progress: 0.5, message: 'Processing...', inReplyTo: ctx.message.id })
         .timestamp(Math.floor(Date.now() / 1000))
         .build();
       yield signerA.sign(evt1);
@@ -151,7 +154,7 @@ describe('Agent-to-Agent Integration', () => {
         .to(to)
         .type('event')
         .method('message/stream')
-        .payload({ progress: 1.0, message: 'Done!' })
+        .payload({ progress: 1.0, message: 'Done!', inReplyTo: ctx.message.id })
         .timestamp(Math.floor(Date.now() / 1000))
         .build();
       yield signerA.sign(evt2);
@@ -168,6 +171,7 @@ describe('Agent-to-Agent Integration', () => {
             id: 'task-stream-001',
             status: { state: 'completed', timestamp: new Date().toISOString() },
           },
+          inReplyTo: ctx.message.id,
         })
         .timestamp(Math.floor(Date.now() / 1000))
         .build();
@@ -186,7 +190,7 @@ describe('Agent-to-Agent Integration', () => {
       agentA.address,
       `ws://127.0.0.1:${wsA.port}`,
       'message/stream',
-      { message: { messageId: 'msg-s1', role: 'user', parts: [{ type: 'text', text: 'Stream me' }] } },
+      { message: { messageId: 'msg-s1', role: 'user', parts: [{ text: 'Stream me' }] } },
     )) {
       messages.push(msg);
     }
@@ -250,7 +254,7 @@ describe('Agent-to-Agent Integration', () => {
       agentA.address,
       `http://127.0.0.1:${httpA.port}`,
       'message/stream',
-      { message: { messageId: 'msg-sse-1', role: 'user', parts: [{ type: 'text', text: 'SSE me' }] } },
+      { message: { messageId: 'msg-sse-1', role: 'user', parts: [{ text: 'SSE me' }] } },
     )) {
       messages.push(msg);
     }
@@ -344,7 +348,7 @@ describe('Agent-to-Agent Integration', () => {
     await agentB.sendMessage(
       agentA.address,
       `http://127.0.0.1:${httpA.port}`,
-      { messageId: 'msg-mw', role: 'user', parts: [{ type: 'text', text: 'mw test' }] },
+      { messageId: 'msg-mw', role: 'user', parts: [{ text: 'mw test' }] },
     );
 
     // Agent A should have: inbound (request), outbound (response)
@@ -369,7 +373,7 @@ describe('Agent-to-Agent Integration', () => {
           status: { state: 'completed' as const, timestamp: new Date().toISOString() },
           history: [
             msg,
-            { messageId: 'resp-a', role: 'agent' as const, parts: [{ type: 'text' as const, text: `A says: ${(msg.parts[0] as any).text}` }] },
+            { messageId: 'resp-a', role: 'agent' as const, parts: [{ text: `A says: ${(msg.parts[0] as any).text}` }] },
           ],
         },
       };
@@ -385,7 +389,7 @@ describe('Agent-to-Agent Integration', () => {
           status: { state: 'completed' as const, timestamp: new Date().toISOString() },
           history: [
             msg,
-            { messageId: 'resp-b', role: 'agent' as const, parts: [{ type: 'text' as const, text: `B says: ${(msg.parts[0] as any).text}` }] },
+            { messageId: 'resp-b', role: 'agent' as const, parts: [{ text: `B says: ${(msg.parts[0] as any).text}` }] },
           ],
         },
       };
@@ -399,7 +403,7 @@ describe('Agent-to-Agent Integration', () => {
     const resultFromA = await agentB.sendMessage(
       agentA.address,
       `http://127.0.0.1:${httpA.port}`,
-      { messageId: 'msg-b2a', role: 'user', parts: [{ type: 'text', text: 'Hello from B' }] },
+      { messageId: 'msg-b2a', role: 'user', parts: [{ text: 'Hello from B' }] },
     );
     expect(resultFromA.task.id).toBe('task-from-a');
     expect((resultFromA.task.history![1].parts[0] as any).text).toBe('A says: Hello from B');
@@ -408,7 +412,7 @@ describe('Agent-to-Agent Integration', () => {
     const resultFromB = await agentA.sendMessage(
       agentB.address,
       `http://127.0.0.1:${httpB.port}`,
-      { messageId: 'msg-a2b', role: 'user', parts: [{ type: 'text', text: 'Hello from A' }] },
+      { messageId: 'msg-a2b', role: 'user', parts: [{ text: 'Hello from A' }] },
     );
     expect(resultFromB.task.id).toBe('task-from-b');
     expect((resultFromB.task.history![1].parts[0] as any).text).toBe('B says: Hello from A');
@@ -452,7 +456,7 @@ describe('Agent-to-Agent Integration', () => {
     const resultFromA = await agentB.sendMessage(
       agentA.address,
       `ws://127.0.0.1:${wsA.port}`,
-      { messageId: 'ws-b2a', role: 'user', parts: [{ type: 'text', text: 'WS Hello from B' }] },
+      { messageId: 'ws-b2a', role: 'user', parts: [{ text: 'WS Hello from B' }] },
     );
     expect(resultFromA.task.id).toBe('ws-task-from-a');
 
@@ -460,7 +464,7 @@ describe('Agent-to-Agent Integration', () => {
     const resultFromB = await agentA.sendMessage(
       agentB.address,
       `ws://127.0.0.1:${wsB.port}`,
-      { messageId: 'ws-a2b', role: 'user', parts: [{ type: 'text', text: 'WS Hello from A' }] },
+      { messageId: 'ws-a2b', role: 'user', parts: [{ text: 'WS Hello from A' }] },
     );
     expect(resultFromB.task.id).toBe('ws-task-from-b');
   });
@@ -481,17 +485,17 @@ describe('Agent-to-Agent Integration', () => {
     agentB.transport(new HttpTransport());
     agents.push(agentB);
 
-    // processMessage throws → HTTP 500 → agentB.send rejects
+    // Handler throws → signed INTERNAL_ERROR response (HTTP 500) → agentB.send rejects
     await expect(
       agentB.sendMessage(
         agentA.address,
         `http://127.0.0.1:${httpA.port}`,
-        { messageId: 'msg-err', role: 'user', parts: [{ type: 'text', text: 'trigger error' }] },
+        { messageId: 'msg-err', role: 'user', parts: [{ text: 'trigger error' }] },
       ),
     ).rejects.toThrow();
   });
 
-  it('handler exception propagates error via WebSocket (client times out)', async () => {
+  it('handler exception propagates error via WebSocket without waiting for timeout', async () => {
     const wsA = new WebSocketTransport({ port: 0, heartbeatInterval: 0 });
     const agentA = new SnapAgent({ privateKey: AGENT_A_KEY, card: makeCard('WS Error Agent') });
     agentA.transport(wsA);
@@ -504,16 +508,18 @@ describe('Agent-to-Agent Integration', () => {
     agents.push(agentA);
 
     const agentB = new SnapAgent({ privateKey: AGENT_B_KEY, card: makeCard('WS Error Caller') });
-    agentB.transport(new WebSocketTransport({ heartbeatInterval: 0, timeout: 1000 }));
+    agentB.transport(new WebSocketTransport({ heartbeatInterval: 0, timeout: 10_000 }));
     agents.push(agentB);
 
+    const started = Date.now();
     await expect(
       agentB.sendMessage(
         agentA.address,
         `ws://127.0.0.1:${wsA.port}`,
-        { messageId: 'msg-ws-err', role: 'user', parts: [{ type: 'text', text: 'boom' }] },
+        { messageId: 'msg-ws-err', role: 'user', parts: [{ text: 'boom' }] },
       ),
-    ).rejects.toThrow();
+    ).rejects.toMatchObject({ name: 'SnapError', code: 5001 });
+    expect(Date.now() - started).toBeLessThan(5_000);
   });
 
   it('replay protection rejects duplicate messages via HTTP', async () => {
@@ -537,7 +543,7 @@ describe('Agent-to-Agent Integration', () => {
       .from(addrB)
       .to(agentA.address)
       .method('message/send')
-      .payload({ message: { messageId: 'msg-1', role: 'user', parts: [{ type: 'text', text: 'hello' }] } })
+      .payload({ message: { messageId: 'msg-1', role: 'user', parts: [{ text: 'hello' }] } })
       .timestamp(Math.floor(Date.now() / 1000))
       .build();
     const signed = signerB.sign(unsigned);
@@ -552,13 +558,17 @@ describe('Agent-to-Agent Integration', () => {
     });
     expect(resp1.status).toBe(200);
 
-    // Second send with same message should fail (duplicate → 500)
+    // Second send with same message should fail (duplicate → 401 with signed error response)
     const resp2 = await fetch(endpoint, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(signed),
     });
-    expect(resp2.status).toBe(500);
+    expect(resp2.status).toBe(401);
+    const body = await resp2.json();
+    expect(body.type).toBe('response');
+    expect(body.from).toBe(agentA.address);
+    expect(body.payload.error.code).toBe(2006);
   });
 
   it('middleware runs on streaming requests (inbound + outbound)', async () => {
@@ -583,7 +593,10 @@ describe('Agent-to-Agent Integration', () => {
         .to(ctx.message.from)
         .type('response')
         .method('message/stream')
-        .payload({ task: { id: 'task-mw-stream', status: { state: 'completed', timestamp: new Date().toISOString() } } })
+        .payload({
+          task: { id: 'task-mw-stream', status: { state: 'completed', timestamp: new Date().toISOString() } },
+          inReplyTo: ctx.message.id,
+        })
         .timestamp(Math.floor(Date.now() / 1000))
         .build();
       yield signerA.sign(resp);
@@ -609,7 +622,7 @@ describe('Agent-to-Agent Integration', () => {
       agentA.address,
       `ws://127.0.0.1:${wsA.port}`,
       'message/stream',
-      { message: { messageId: 'msg-mw-s', role: 'user', parts: [{ type: 'text', text: 'stream mw' }] } },
+      { message: { messageId: 'msg-mw-s', role: 'user', parts: [{ text: 'stream mw' }] } },
     )) {
       messages.push(msg);
     }
@@ -659,7 +672,7 @@ describe('Agent-to-Agent Integration', () => {
     const endpoint = `http://127.0.0.1:${httpA.port}`;
 
     const sendResult = await agentB.sendMessage(agentA.address, endpoint, {
-      messageId: 'msg-multi-1', role: 'user', parts: [{ type: 'text', text: 'multi test' }],
+      messageId: 'msg-multi-1', role: 'user', parts: [{ text: 'multi test' }],
     });
     expect(sendResult.task.id).toBe('task-send');
 
@@ -710,7 +723,7 @@ describe('Agent-to-Agent Integration', () => {
       sender.transport(new HttpTransport());
       agents.push(sender);
       return sender.sendMessage(agentA.address, endpoint, {
-        messageId: `msg-concurrent-${i}`, role: 'user', parts: [{ type: 'text', text: `Hello ${i}` }],
+        messageId: `msg-concurrent-${i}`, role: 'user', parts: [{ text: `Hello ${i}` }],
       });
     });
 
@@ -762,7 +775,7 @@ describe('Agent-to-Agent Integration', () => {
           status: { state: 'completed' as const, timestamp: new Date().toISOString() },
           history: [
             msg,
-            { messageId: 'resp-disc', role: 'agent' as const, parts: [{ type: 'text' as const, text: `Discovered: ${(msg.parts[0] as any).text}` }] },
+            { messageId: 'resp-disc', role: 'agent' as const, parts: [{ text: `Discovered: ${(msg.parts[0] as any).text}` }] },
           ],
         },
       };
@@ -784,7 +797,7 @@ describe('Agent-to-Agent Integration', () => {
     const result = await agentB.sendMessage(
       discoveredCard.identity,
       `http://127.0.0.1:${httpA.port}`,
-      { messageId: 'msg-disc-1', role: 'user', parts: [{ type: 'text', text: 'Found you!' }] },
+      { messageId: 'msg-disc-1', role: 'user', parts: [{ text: 'Found you!' }] },
     );
 
     expect(result.task.id).toBe('task-after-disc');
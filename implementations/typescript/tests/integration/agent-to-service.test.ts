@@ -19,6 +19,10 @@ import { MessageValidator } from '../../src/messaging/MessageValidator.js';
 import { SnapAgent } from '../../src/agent/SnapAgent.js';
 import { HttpTransport } from '../../src/transport/HttpTransport.js';
 import { InMemoryReplayStore } from '../../src/stores/InMemoryReplayStore.js';
+import { SnapService } from '../../src/agent/SnapService.js';
+import { SnapError } from '../../src/errors/SnapError.js';
+import { Allowlist } from '../../src/middleware/Allowlist.js';
+import { AllowlistMiddleware } from '../../src/middleware/AllowlistMiddleware.js';
 import type { AgentCard } from '../../src/types/agent-card.js';
 
 const CLIENT_KEY = '0000000000000000000000000000000000000000000000000000000000000001';
@@ -346,7 +350,7 @@ describe('Agent-to-Service Integration', () => {
       const result = await clientAgent.sendMessage(
         agent.address,
         `http://127.0.0.1:${httpA.port}`,
-        { messageId: 'msg-1', role: 'user', parts: [{ type: 'text', text: 'hello' }] },
+        { messageId: 'msg-1', role: 'user', parts: [{ text: 'hello' }] },
       );
       expect(result.task.id).toBe('task-dual');
 
@@ -403,13 +407,78 @@ describe('Agent-to-Service Integration', () => {
       });
       expect(res1.status).toBe(200);
 
-      // Replay is rejected
+      // Replay is rejected (DUPLICATE_MESSAGE → 401)
       const res2 = await fetch(endpoint, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(signed),
       });
-      expect(res2.status).toBe(500);
+      expect(res2.status).toBe(401);
+      expect((await res2.json()).payload.error.code).toBe(2006);
+    });
+  });
+
+  // ─── SnapService + callService() ──────────────────────────────────
+
+  describe('SnapService and SnapAgent.callService()', () => {
+    function serve(service: SnapService): Promise<{ server: Server; endpoint: string }> {
+      return new Promise((resolve) => {
+        const server = createServer(async (req, res) => {
+          const chunks: Buffer[] = [];
+          for await (const chunk of req) chunks.push(chunk as Buffer);
+          const response = await service.processMessage(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+          const status = response.error ? SnapError.httpStatus(response.error.code, response.error.data) : 200;
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(response));
+        });
+        servers.push(server);
+        server.listen(0, '127.0.0.1', () => {
+          const { port } = server.address() as { port: number };
+          resolve({ server, endpoint: `http://127.0.0.1:${port}` });
+        });
+      });
+    }
+
+    function client(): SnapAgent {
+      const agent = new SnapAgent({ privateKey: CLIENT_KEY, card: makeCard('Client') });
+      agent.transport(new HttpTransport());
+      agents.push(agent);
+      return agent;
+    }
+
+    const service = new SnapService()
+      .use(new AllowlistMiddleware(new Allowlist({ entries: [{ address: CLIENT_ADDRESS, skills: ['add', 'missing'] }] })))
+      .tool<{ a: number; b: number }>('add', ({ a, b }) => ({ sum: a + b }), (args) =>
+        typeof args.a === 'number' && typeof args.b === 'number'
+          ? []
+          : [{ field: 'payload.arguments', constraint: 'required', expected: ['a', 'b'] }],
+      )
+      .tool('secret', () => 'hidden');
+
+    it('calls a tool on a plain HTTP service without `to`', async () => {
+      const { endpoint } = await serve(service);
+      expect(await client().callService(endpoint, 'add', { a: 2, b: 3 })).toEqual({ sum: 5 });
+    });
+
+    it('surfaces tool, argument and allowlist errors as SnapErrors', async () => {
+      const { endpoint } = await serve(service);
+      const agent = client();
+      await expect(agent.callService(endpoint, 'missing')).rejects.toMatchObject({ code: 1007, data: { name: 'missing' } });
+      await expect(agent.callService(endpoint, 'add', { a: 2 })).rejects.toMatchObject({ code: 1004 });
+      await expect(agent.callService(endpoint, 'secret')).rejects.toMatchObject({ code: 2007 });
+    });
+
+    it('calls tools mounted on a SnapAgent', async () => {
+      const httpA = new HttpTransport({ port: 0 });
+      const agent = new SnapAgent({ privateKey: '0000000000000000000000000000000000000000000000000000000000000002', card: makeCard('Tool Agent') });
+      agent.transport(httpA);
+      agent.handle('service/call', (payload, ctx) => service.dispatch(payload, ctx));
+      await agent.start();
+      agents.push(agent);
+
+      const endpoint = `http://127.0.0.1:${httpA.port}`;
+      expect(await client().callService(endpoint, 'add', { a: 1, b: 1 })).toEqual({ sum: 2 });
+      await expect(client().callService(endpoint, 'missing')).rejects.toMatchObject({ code: 1007 });
     });
   });
 });
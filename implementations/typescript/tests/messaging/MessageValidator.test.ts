@@ -311,6 +311,18 @@ describe('MessageValidator', () => {
       expect(() => MessageValidator.validate({})).toThrow(SnapError);
     });
 
+    it('throws VERSION_NOT_SUPPORTED listing the accepted versions', () => {
+      const signed = buildSignedMessage({ version: '9.0' });
+      try {
+        MessageValidator.validate(signed);
+        expect.unreachable('Should have thrown');
+      } catch (err) {
+        expect((err as SnapError).code).toBe(ErrorCodes.VERSION_NOT_SUPPORTED);
+        expect((err as SnapError).data).toEqual({ requested: '9.0', supported: ['0.1'] });
+      }
+      expect(() => MessageValidator.validate(signed, { supportedVersions: ['0.1', '9.0'] })).not.toThrow();
+    });
+
     it('throws TIMESTAMP_EXPIRED when message is too old', () => {
       const now = Math.floor(Date.now() / 1000);
       const signed = buildSignedMessage({ timestamp: now - 61 });
@@ -411,4 +423,211 @@ describe('MessageValidator', () => {
       }
     });
   });
+
+  describe('structureViolations', () => {
+    it('is empty for a valid message', () => {
+      expect(MessageValidator.structureViolations(buildSignedMessage())).toEqual([]);
+    });
+
+    it('reports a non-object message', () => {
+      expect(MessageValidator.structureViolations(null)).toEqual([
+        { field: 'message', constraint: 'type', expected: 'object', received: 'null' },
+      ]);
+    });
+
+    it('reports every invalid field in the docs/constraints.md shape', () => {
+      const { method: _method, ...msg } = buildSignedMessage({
+        id: 'msg@001',
+        type: 'notification',
+        payload: 'text',
+        timestamp: -1,
+      });
+      expect(MessageValidator.structureViolations(msg)).toEqual([
+        { field: 'id', constraint: 'pattern', expected: '^[a-zA-Z0-9_-]+$', received: 'msg@001' },
+        { field: 'type', constraint: 'enum', expected: ['request', 'response', 'event'], received: 'notification' },
+        { field: 'method', constraint: 'required', expected: 'string' },
+        { field: 'payload', constraint: 'type', expected: 'object', received: 'string' },
+        { field: 'timestamp', constraint: 'minimum', expected: 0, received: -1 },
+      ]);
+    });
+
+    it('requires sig only on requests', () => {
+      const { sig: _sig, ...unsigned } = buildSignedMessage();
+      expect(MessageValidator.structureViolations(unsigned)).toEqual([
+        { field: 'sig', constraint: 'required', expected: 'string' },
+      ]);
+      expect(MessageValidator.structureViolations({ ...unsigned, type: 'response' })).toEqual([]);
+    });
+  });
+
+  describe('check', () => {
+    it('returns a valid result without violations', () => {
+      expect(MessageValidator.check(buildSignedMessage())).toEqual({ valid: true, violations: [] });
+    });
+
+    it('returns every violation and the INVALID_PAYLOAD error validate() throws', () => {
+      const result = MessageValidator.check(buildSignedMessage({ id: 'bad id', from: 'nope' }));
+      expect(result.valid).toBe(false);
+      expect(result.violations.map((v) => v.field)).toEqual(['id', 'from']);
+      expect(result.error?.code).toBe(ErrorCodes.INVALID_PAYLOAD);
+      expect(result.error?.data).toEqual({ ...result.violations[0], violations: result.violations });
+    });
+
+    it('reports a size violation', () => {
+      const result = MessageValidator.check(buildSignedMessage(), { limits: { maxMessageBytes: 10 } });
+      expect(result.violations).toEqual([{ field: 'message', constraint: 'maxBytes', expected: 10, received: expect.any(Number) }]);
+    });
+
+    it('has no violations for non-field failures', () => {
+      const result = MessageValidator.check(buildSignedMessage({ sig: 'f'.repeat(128) }));
+      expect(result.error?.code).toBe(ErrorCodes.SIGNATURE_INVALID);
+      expect(result.violations).toEqual([]);
+    });
+  });
+
+  describe('validateSize', () => {
+    it('accepts messages within the default limits', () => {
+      expect(() => MessageValidator.validateSize(buildSignedMessage())).not.toThrow();
+    });
+
+    it('rejects an oversized payload before structure or signature checks', () => {
+      const signed = buildSignedMessage({ payload: { message: { text: 'x'.repeat(2048) } }, sig: 'bad' });
+      try {
+        MessageValidator.validate(signed, { limits: { maxPayloadBytes: 1024 } });
+        expect.unreachable('Should have thrown');
+      } catch (err) {
+        expect((err as SnapError).code).toBe(ErrorCodes.INVALID_MESSAGE);
+        expect((err as SnapError).data).toMatchObject({ field: 'payload', constraint: 'maxBytes', expected: 1024 });
+        expect(SnapError.httpStatus((err as SnapError).code, (err as SnapError).data)).toBe(413);
+      }
+    });
+
+    it('rejects an oversized message', () => {
+      expect(() => MessageValidator.validateSize(buildSignedMessage(), { maxMessageBytes: 100 }))
+        .toThrow(/message exceeds 100 bytes/);
+    });
+
+    it('rejects too many parts at any depth', () => {
+      const parts = Array.from({ length: 3 }, () => ({ text: 'p' }));
+      const message = buildSignedMessage({ payload: { message: { parts } } });
+      try {
+        MessageValidator.validateSize(message, { maxParts: 2 });
+        expect.unreachable('Should have thrown');
+      } catch (err) {
+        expect((err as SnapError).data).toEqual({
+          field: 'payload.message.parts',
+          constraint: 'maxItems',
+          expected: 2,
+          received: 3,
+        });
+      }
+    });
+  });
+
+  describe('validateCardSize', () => {
+    const card = {
+      name: 'A', description: 'd', version: '1.0.0', identity: TEST_ADDRESS,
+      skills: [{ id: 's1', name: 'S1', description: 'd', tags: [] }, { id: 's2', name: 'S2', description: 'd', tags: [] }],
+      defaultInputModes: ['text/plain'], defaultOutputModes: ['text/plain'],
+    };
+
+    it('accepts a card within the limits', () => {
+      expect(() => MessageValidator.validateCardSize(card)).not.toThrow();
+    });
+
+    it('rejects too many skills or too many bytes', () => {
+      expect(() => MessageValidator.validateCardSize(card, { maxSkills: 1 })).toThrow(/card.skills exceeds 1 items/);
+      expect(() => MessageValidator.validateCardSize(card, { maxCardBytes: 64 })).toThrow(/card exceeds 64 bytes/);
+    });
+  });
+
+  describe('validateResponse', () => {
+    // A response from A (TEST_SIGNER) back to B
+    function buildResponse(overrides: Record<string, unknown> = {}) {
+      const signed = TEST_SIGNER.sign(new MessageBuilder()
+        .id('test-resp-001')
+        .from(TEST_ADDRESS)
+        .to(TEST_ADDRESS_B)
+        .type('response')
+        .method('message/send')
+        .payload({ ok: true })
+        .timestamp(Math.floor(Date.now() / 1000))
+        .build());
+      return { ...signed, ...overrides };
+    }
+
+    const options = { expectedFrom: TEST_ADDRESS, expectedTo: TEST_ADDRESS_B };
+
+    function errorOf(fn: () => void): SnapError | undefined {
+      try {
+        fn();
+      } catch (err) {
+        expect(err).toBeInstanceOf(SnapError);
+        return err as SnapError;
+      }
+      return undefined;
+    }
+
+    it('accepts a signed response from the expected peer', () => {
+      expect(() => MessageValidator.validateResponse(buildResponse(), options)).not.toThrow();
+    });
+
+    it('accepts an unsigned response at the optional level', () => {
+      const { sig: _sig, ...unsigned } = buildResponse();
+      expect(() => MessageValidator.validateResponse(unsigned, options)).not.toThrow();
+    });
+
+    it('rejects an unsigned response at the required level', () => {
+      const { sig: _sig, ...unsigned } = buildResponse();
+      expect(errorOf(() => MessageValidator.validateResponse(unsigned, { ...options, signatures: 'required' }))?.code)
+        .toBe(ErrorCodes.SIGNATURE_MISSING);
+    });
+
+    it('rejects a tampered payload with SIGNATURE_INVALID', () => {
+      const tampered = buildResponse({ payload: { ok: false } });
+      expect(errorOf(() => MessageValidator.validateResponse(tampered, options))?.code).toBe(ErrorCodes.SIGNATURE_INVALID);
+    });
+
+    it('rejects a response from another identity with IDENTITY_MISMATCH', () => {
+      const err = errorOf(() =>
+        MessageValidator.validateResponse(buildResponse(), { ...options, expectedFrom: TEST_ADDRESS_B }));
+      expect(err?.code).toBe(ErrorCodes.IDENTITY_MISMATCH);
+      expect(err?.data).toEqual({ field: 'from', expected: TEST_ADDRESS_B, received: TEST_ADDRESS });
+    });
+
+    it('rejects a response addressed to someone else with IDENTITY_MISMATCH', () => {
+      expect(errorOf(() => MessageValidator.validateResponse(buildResponse(), { ...options, expectedTo: TEST_ADDRESS }))?.code)
+        .toBe(ErrorCodes.IDENTITY_MISMATCH);
+    });
+
+    it('rejects a response correlated with a different request', () => {
+      const response = buildResponse({ payload: { ok: true, inReplyTo: 'req-2' } });
+      const { sig: _sig, ...unsigned } = response;
+      const err = errorOf(() => MessageValidator.validateResponse(unsigned, { ...options, requestId: 'req-1' }));
+      expect(err?.code).toBe(ErrorCodes.INVALID_MESSAGE);
+      expect(err?.data).toEqual({ field: 'payload.inReplyTo', expected: 'req-1', received: 'req-2' });
+    });
+
+    it('requires a correlation reference only at the required level', () => {
+      const withId = { ...options, requestId: 'req-1' };
+      expect(() => MessageValidator.validateResponse(buildResponse(), withId)).not.toThrow();
+      expect(errorOf(() => MessageValidator.validateResponse(buildResponse(), { ...withId, signatures: 'required' }))?.code)
+        .toBe(ErrorCodes.INVALID_MESSAGE);
+    });
+
+    it('rejects a stale response with TIMESTAMP_EXPIRED', () => {
+      const { sig: _sig, ...stale } = buildResponse({ timestamp: Math.floor(Date.now() / 1000) - 3600 });
+      expect(errorOf(() => MessageValidator.validateResponse(stale, options))?.code).toBe(ErrorCodes.TIMESTAMP_EXPIRED);
+    });
+
+    it('rejects a request echoed back as a response', () => {
+      expect(errorOf(() => MessageValidator.validateResponse(buildSignedMessage(), options))?.code)
+        .toBe(ErrorCodes.INVALID_MESSAGE);
+    });
+
+    it('skips all checks at the off level', () => {
+      const tampered = buildResponse({ payload: { ok: false } });
+      expect(() => MessageValidator.validateResponse(tampered, { ...options, signatures: 'off' })).not.toThrow();
+    });
+  });
 });
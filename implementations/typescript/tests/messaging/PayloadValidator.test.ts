@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { PayloadValidator } from '../../src/messaging/PayloadValidator.js';
+import { SnapError } from '../../src/errors/SnapError.js';
+import { ErrorCodes } from '../../src/types/errors.js';
+
+const MESSAGE = { messageId: 'm1', role: 'user', parts: [{ text: 'hi' }] };
+
+describe('PayloadValidator', () => {
+  const validator = new PayloadValidator();
+
+  it('accepts valid payloads for every built-in method', () => {
+    expect(validator.violations('message/send', { message: MESSAGE, taskId: 't1', idempotencyKey: 'k1' })).toEqual([]);
+    expect(validator.violations('message/stream', { message: MESSAGE })).toEqual([]);
+    expect(validator.violations('tasks/get', { taskId: 't1', historyLength: 10 })).toEqual([]);
+    expect(validator.violations('tasks/cancel', { taskId: 't1' })).toEqual([]);
+    expect(validator.violations('tasks/resubscribe', { taskId: 't1' })).toEqual([]);
+    expect(validator.violations('tasks/list', {})).toEqual([]);
+    expect(validator.violations('tasks/list', {
+      state: ['working', 'input_required'], contextId: 'ctx-1', updatedAfter: '2026-01-01T00:00:00Z',
+      limit: 100, cursor: 'abc', historyLength: 0,
+    })).toEqual([]);
+    expect(validator.violations('service/call', { name: 'query', arguments: { sql: 'SELECT 1' } })).toEqual([]);
+  });
+
+  it('reports missing, mistyped and unknown fields', () => {
+    expect(validator.violations('message/send', { taskId: 'bad id', extra: true })).toEqual([
+      { field: 'payload.message', constraint: 'required', expected: 'object' },
+      { field: 'payload.extra', constraint: 'additionalProperties', expected: ['message', 'taskId', 'idempotencyKey'], received: 'extra' },
+      { field: 'payload.taskId', constraint: 'pattern', expected: '^[a-zA-Z0-9_-]+$', received: 'bad id' },
+    ]);
+    expect(validator.violations('tasks/get', { taskId: 't1', historyLength: 1001 })).toEqual([
+      { field: 'payload.historyLength', constraint: 'maximum', expected: 1000, received: 1001 },
+    ]);
+    expect(validator.violations('tasks/list', { state: ['done'], updatedBefore: 'yesterday', limit: 0 })).toEqual([
+      { field: 'payload.state[0]', constraint: 'enum', expected: ['submitted', 'working', 'input_required', 'completed', 'failed', 'canceled'], received: 'done' },
+      { field: 'payload.updatedBefore', constraint: 'pattern', expected: expect.any(String), received: 'yesterday' },
+      { field: 'payload.limit', constraint: 'minimum', expected: 1, received: 0 },
+    ]);
+  });
+
+  it('checks the inner message role and parts', () => {
+    const violations = validator.violations('message/send', {
+      message: { messageId: 'm1', role: 'system', parts: [] },
+    });
+    expect(violations).toEqual([
+      { field: 'payload.message.role', constraint: 'enum', expected: ['user', 'agent'], received: 'system' },
+      { field: 'payload.message.parts', constraint: 'minItems', expected: 1, received: 0 },
+    ]);
+  });
+
+  it('ignores methods without a schema', () => {
+    expect(validator.violations('custom/method', { anything: 1 })).toEqual([]);
+  });
+
+  it('throws INVALID_PAYLOAD listing every violation', () => {
+    try {
+      validator.validate('tasks/cancel', {});
+      expect.unreachable('Should have thrown');
+    } catch (err) {
+      expect(err).toBeInstanceOf(SnapError);
+      expect((err as SnapError).code).toBe(ErrorCodes.INVALID_PAYLOAD);
+      expect((err as SnapError).data).toEqual({
+        field: 'payload.taskId',
+        constraint: 'required',
+        expected: 'string',
+        violations: [{ field: 'payload.taskId', constraint: 'required', expected: 'string' }],
+      });
+    }
+  });
+
+  it('registers schemas for custom methods', () => {
+    const custom = new PayloadValidator().register('weather/get', (payload) =>
+      typeof payload.city === 'string' ? [] : [{ field: 'payload.city', constraint: 'required', expected: 'string' }],
+    );
+    expect(custom.has('weather/get')).toBe(true);
+    expect(custom.violations('weather/get', { city: 'Oslo' })).toEqual([]);
+    expect(() => custom.validate('weather/get', {})).toThrow(SnapError);
+  });
+
+  describe('part', () => {
+    it('requires exactly one of text, raw, url or data', () => {
+      expect(PayloadValidator.part({ text: 'a' })).toEqual([]);
+      expect(PayloadValidator.part({ data: { a: 1 }, mediaType: 'application/json' })).toEqual([]);
+      expect(PayloadValidator.part({ text: 'a', url: 'https://x.example' })).toEqual([
+        { field: 'part', constraint: 'oneOf', expected: ['text', 'raw', 'url', 'data'], received: ['text', 'url'] },
+      ]);
+      expect(PayloadValidator.part({})).toEqual([
+        { field: 'part', constraint: 'oneOf', expected: ['text', 'raw', 'url', 'data'], received: [] },
+      ]);
+    });
+
+    it('requires mediaType with raw and checks url and data types', () => {
+      expect(PayloadValidator.part({ raw: 'AAAA' })).toEqual([
+        { field: 'part.mediaType', constraint: 'required', expected: 'string' },
+      ]);
+      expect(PayloadValidator.part({ url: 'not a uri' })).toEqual([
+        { field: 'part.url', constraint: 'format', expected: 'uri', received: 'not a uri' },
+      ]);
+      expect(PayloadValidator.part({ data: [1] })).toEqual([
+        { field: 'part.data', constraint: 'type', expected: 'object', received: 'array' },
+      ]);
+    });
+
+    it('rejects unknown properties such as a type discriminator', () => {
+      expect(PayloadValidator.part({ type: 'text', text: 'a' })).toEqual([
+        { field: 'part.type', constraint: 'additionalProperties', expected: ['text', 'raw', 'url', 'data', 'mediaType'], received: 'type' },
+      ]);
+    });
+  });
+
+  describe('task and artifact', () => {
+    const task = {
+      id: 'task-1',
+      contextId: 'ctx-1',
+      status: { state: 'completed', timestamp: '2025-02-04T10:00:00Z' },
+      artifacts: [{ artifactId: 'a1', name: 'out.txt', parts: [{ text: 'done' }] }],
+      history: [MESSAGE],
+    };
+
+    it('accepts a valid task', () => {
+      expect(PayloadValidator.task(task)).toEqual([]);
+    });
+
+    it('checks the TaskState enum and timestamp format', () => {
+      expect(PayloadValidator.task({ ...task, status: { state: 'paused', timestamp: 'yesterday' } })).toEqual([
+        { field: 'task.status.state', constraint: 'enum', expected: ['submitted', 'working', 'input_required', 'completed', 'failed', 'canceled'], received: 'paused' },
+        { field: 'task.status.timestamp', constraint: 'pattern', expected: expect.any(String), received: 'yesterday' },
+      ]);
+    });
+
+    it('checks nested artifacts', () => {
+      expect(PayloadValidator.artifact({ artifactId: 'a1', parts: [{ text: 'x' }], partial: true })).toEqual([]);
+      expect(PayloadValidator.task({ ...task, artifacts: [{ artifactId: 'a1' }] })).toEqual([
+        { field: 'task.artifacts[0].parts', constraint: 'required', expected: 'array' },
+      ]);
+    });
+  });
+});
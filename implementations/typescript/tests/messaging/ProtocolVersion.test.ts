@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { ProtocolVersion, PROTOCOL_VERSION, SUPPORTED_VERSIONS } from '../../src/messaging/ProtocolVersion.js';
+import { MessageBuilder } from '../../src/messaging/MessageBuilder.js';
+import type { AgentCard } from '../../src/types/agent-card.js';
+
+describe('ProtocolVersion', () => {
+  it('compares MAJOR.MINOR numerically', () => {
+    expect(ProtocolVersion.compare('0.2', '0.10')).toBeLessThan(0);
+    expect(ProtocolVersion.compare('1.0', '0.9')).toBeGreaterThan(0);
+    expect(ProtocolVersion.compare('0.1', '0.1')).toBe(0);
+  });
+
+  it('negotiates the highest common version', () => {
+    expect(ProtocolVersion.negotiate(['0.1', '0.2', '0.3'], ['0.1', '0.2'])).toBe('0.2');
+    expect(ProtocolVersion.negotiate(['0.1'], ['0.2'])).toBeUndefined();
+  });
+
+  it('reads versions from a card, falling back to protocolVersion and the SDK default', () => {
+    const card = { identity: 'bc1p' } as AgentCard;
+    expect(ProtocolVersion.ofCard({ ...card, supportedVersions: ['0.1', '0.2'], protocolVersion: '0.2' })).toEqual(['0.1', '0.2']);
+    expect(ProtocolVersion.ofCard({ ...card, protocolVersion: '0.2' })).toEqual(['0.2']);
+    expect(ProtocolVersion.ofCard(card)).toEqual([PROTOCOL_VERSION]);
+  });
+
+  it('MessageBuilder defaults to the SDK protocol version', () => {
+    const msg = new MessageBuilder()
+      .id('v-1')
+      .from('bc1p5d7rjq7g6rdk2yhzqnt9dp8wvscrplqk0zwy63lmgreu9jzyt0mqf3xvn8')
+      .method('message/send')
+      .timestamp(1)
+      .build();
+    expect(msg.version).toBe(PROTOCOL_VERSION);
+    expect(SUPPORTED_VERSIONS).toContain(PROTOCOL_VERSION);
+  });
+});
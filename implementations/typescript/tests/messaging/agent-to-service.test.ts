@@ -379,6 +379,9 @@ describe('SnapAgent — optional to', () => {
       .build();
     const signed = TEST_SIGNER.sign(msg);
 
-    await expect(agent.processMessage(signed)).rejects.toThrow(/not addressed/);
+    const response = await agent.processMessage(signed);
+    expect(response.type).toBe('response');
+    expect((response.payload as any).error.code).toBe(1003);
+    expect((response.payload as any).error.message).toMatch(/not addressed/);
   });
 });
@@ -0,0 +1,213 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Allowlist } from '../../src/middleware/Allowlist.js';
+import { AllowlistMiddleware } from '../../src/middleware/AllowlistMiddleware.js';
+import { SnapAgent } from '../../src/agent/SnapAgent.js';
+import { MessageSigner } from '../../src/messaging/MessageSigner.js';
+import { MessageBuilder } from '../../src/messaging/MessageBuilder.js';
+import { SnapError } from '../../src/errors/SnapError.js';
+import { ErrorCodes } from '../../src/types/errors.js';
+import type { AgentCard } from '../../src/types/agent-card.js';
+import type { SnapMessage } from '../../src/types/message.js';
+import type { MessageSendRequest } from '../../src/types/payloads.js';
+import type { DataPart } from '../../src/types/part.js';
+
+const SIGNER_A = new MessageSigner('0000000000000000000000000000000000000000000000000000000000000001');
+const SIGNER_B = new MessageSigner('0000000000000000000000000000000000000000000000000000000000000002');
+const ADDR_A = SIGNER_A.getAddress();
+const ADDR_B = SIGNER_B.getAddress();
+
+function serviceCall(signer: MessageSigner, name: string, id = 'call-1') {
+  return signer.sign(new MessageBuilder()
+    .id(id)
+    .from(signer.getAddress())
+    .method('service/call')
+    .payload({ name, arguments: {} })
+    .timestamp(Math.floor(Date.now() / 1000))
+    .build());
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('condition not met in time');
+    await new Promise((r) => setTimeout(r, 20));
+  }
+}
+
+describe('Allowlist', () => {
+  const cleanup: Array<() => Promise<void> | void> = [];
+
+  afterEach(async () => {
+    for (const fn of cleanup.splice(0)) await fn();
+  });
+
+  async function tempFile(name: string, content: string): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), 'snap-allowlist-'));
+    cleanup.push(() => rm(dir, { recursive: true, force: true }));
+    const path = join(dir, name);
+    await writeFile(path, content);
+    return path;
+  }
+
+  it('grants bare addresses every method and skill', () => {
+    const allowlist = new Allowlist({ entries: [ADDR_A] });
+    expect(allowlist.isAllowed(ADDR_A, 'message/send')).toBe(true);
+    expect(allowlist.isAllowed(ADDR_A, 'service/call', 'anything')).toBe(true);
+    expect(allowlist.isAllowed(ADDR_B, 'message/send')).toBe(false);
+  });
+
+  it('enforces per-method and per-skill grants', () => {
+    const allowlist = new Allowlist({
+      entries: [{ address: ADDR_A, methods: ['service/call'], skills: ['query_database'] }],
+    });
+    expect(allowlist.isAllowed(ADDR_A, 'service/call', 'query_database')).toBe(true);
+    expect(allowlist.isAllowed(ADDR_A, 'service/call', 'drop_database')).toBe(false);
+    expect(allowlist.isAllowed(ADDR_A, 'message/send')).toBe(false);
+  });
+
+  it('denies requests without a skill under a skill-limited grant', () => {
+    const allowlist = new Allowlist({ entries: [{ address: ADDR_A, skills: ['echo'] }] });
+    expect(allowlist.isAllowed(ADDR_A, 'service/call', 'echo')).toBe(true);
+    expect(allowlist.isAllowed(ADDR_A, 'message/send')).toBe(false);
+    expect(allowlist.isAllowed(ADDR_A, 'tasks/get')).toBe(false);
+  });
+
+  it('combines multiple entries for the same address', () => {
+    const allowlist = new Allowlist({
+      entries: [
+        { address: ADDR_A, methods: ['tasks/get'] },
+        { address: ADDR_A, methods: ['service/call'], skills: ['echo'] },
+      ],
+    });
+    expect(allowlist.isAllowed(ADDR_A, 'tasks/get')).toBe(true);
+    expect(allowlist.isAllowed(ADDR_A, 'service/call', 'echo')).toBe(true);
+    expect(allowlist.isAllowed(ADDR_A, 'service/call', 'other')).toBe(false);
+  });
+
+  it('rejects malformed entries', () => {
+    expect(() => new Allowlist({ entries: ['bc1qnotataprootaddress'] })).toThrow('Invalid allowlist address');
+    expect(() => new Allowlist({ entries: [{ address: ADDR_A, methods: 'service/call' as any }] }))
+      .toThrow('must be an array of strings');
+  });
+
+  it('authorize() throws UNAUTHORIZED with the service/call name as skill', () => {
+    const allowlist = new Allowlist({ entries: [{ address: ADDR_A, skills: ['echo'] }] });
+    expect(() => allowlist.authorize(serviceCall(SIGNER_A, 'echo'))).not.toThrow();
+
+    const err = (() => {
+      try {
+        allowlist.authorize(serviceCall(SIGNER_A, 'query_database'));
+      } catch (e) {
+        return e as SnapError;
+      }
+    })();
+    expect(err).toBeInstanceOf(SnapError);
+    expect(err!.code).toBe(ErrorCodes.UNAUTHORIZED);
+    expect(err!.data).toEqual({ from: ADDR_A, method: 'service/call', skill: 'query_database' });
+  });
+
+  it('maps skills only for service/call unless skillOf is given', () => {
+    const send = (skill: string) => ({
+      from: ADDR_A,
+      method: 'message/send',
+      payload: { message: { messageId: 'm1', role: 'user', parts: [{ data: { skill } }] } },
+    }) as unknown as SnapMessage;
+    const grant = { entries: [{ address: ADDR_A, skills: ['echo'] }] };
+
+    expect(() => new Allowlist(grant).authorize(send('echo'))).toThrow(SnapError);
+    const custom = new Allowlist({
+      ...grant,
+      skillOf: (m) => ((m.payload as unknown as MessageSendRequest).message.parts[0] as DataPart).data.skill as string,
+    });
+    expect(() => custom.authorize(send('echo'))).not.toThrow();
+    expect(() => custom.authorize(send('other'))).toThrow(SnapError);
+  });
+
+  it('verify() validates the signature before checking the allowlist', () => {
+    const allowlist = new Allowlist({ entries: [ADDR_A] });
+    const signed = serviceCall(SIGNER_A, 'echo');
+    expect(allowlist.verify(signed)).toBe(signed);
+    expect(() => allowlist.verify({ ...signed, payload: { name: 'tampered' } }))
+      .toThrow(expect.objectContaining({ code: ErrorCodes.SIGNATURE_INVALID }));
+    expect(() => allowlist.verify(serviceCall(SIGNER_B, 'echo')))
+      .toThrow(expect.objectContaining({ code: ErrorCodes.UNAUTHORIZED }));
+  });
+
+  it('loads JSON and YAML files', async () => {
+    const json = await tempFile('allow.json', JSON.stringify({ agents: [ADDR_A] }));
+    const yaml = await tempFile('allow.yaml', `agents:\n  - address: ${ADDR_B}\n    methods: [tasks/get]\n`);
+
+    const fromJson = await Allowlist.fromFile(json, { watch: false });
+    const fromYaml = await Allowlist.fromFile(yaml, { watch: false });
+
+    expect(fromJson.addresses).toEqual([ADDR_A]);
+    expect(fromYaml.isAllowed(ADDR_B, 'tasks/get')).toBe(true);
+    expect(fromYaml.isAllowed(ADDR_B, 'message/send')).toBe(false);
+  });
+
+  it('reloads the file on change and keeps previous grants when it is invalid', async () => {
+    const path = await tempFile('allow.json', JSON.stringify([ADDR_A]));
+    const logs: string[] = [];
+    const allowlist = await Allowlist.fromFile(path, {
+      watchInterval: 20,
+      logger: (level, message) => logs.push(`${level}: ${message}`),
+    });
+    cleanup.push(() => allowlist.close());
+
+    await writeFile(path, JSON.stringify([ADDR_A, ADDR_B]));
+    await waitFor(() => allowlist.isAllowed(ADDR_B, 'message/send'));
+
+    await writeFile(path, '{ not json');
+    await waitFor(() => logs.some((l) => l.startsWith('warn:')));
+    expect(allowlist.addresses).toEqual([ADDR_A, ADDR_B]);
+  });
+});
+
+describe('AllowlistMiddleware', () => {
+  function makeCard(name: string): AgentCard {
+    return {
+      name,
+      description: `${name} agent`,
+      version: '1.0.0',
+      identity: ADDR_A,
+      skills: [],
+      defaultInputModes: ['text/plain'],
+      defaultOutputModes: ['text/plain'],
+    };
+  }
+
+  function request(signer: MessageSigner, to: string, id: string) {
+    return signer.sign(new MessageBuilder()
+      .id(id)
+      .from(signer.getAddress())
+      .to(to as any)
+      .method('message/send')
+      .payload({ message: { messageId: id, role: 'user', parts: [{ text: 'hi' }] } })
+      .timestamp(Math.floor(Date.now() / 1000))
+      .build());
+  }
+
+  it('answers unlisted senders with UNAUTHORIZED before the handler runs', async () => {
+    const agent = new SnapAgent({
+      privateKey: '0000000000000000000000000000000000000000000000000000000000000003',
+      card: makeCard('Guarded'),
+    });
+    let calls = 0;
+    agent
+      .use(new AllowlistMiddleware(new Allowlist({ entries: [ADDR_A] })))
+      .handle('message/send', async () => {
+        calls++;
+        return {};
+      });
+
+    const allowed = await agent.processMessage(request(SIGNER_A, agent.address, 'ok-1'));
+    const denied = await agent.processMessage(request(SIGNER_B, agent.address, 'denied-1'));
+
+    expect(allowed.payload.error).toBeUndefined();
+    expect(denied.payload.error).toMatchObject({ code: ErrorCodes.UNAUTHORIZED, data: { from: ADDR_B } });
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RateLimitMiddleware } from '../../src/middleware/RateLimitMiddleware.js';
+import { SnapAgent } from '../../src/agent/SnapAgent.js';
+import { HttpTransport } from '../../src/transport/HttpTransport.js';
+import { MessageSigner } from '../../src/messaging/MessageSigner.js';
+import { MessageBuilder } from '../../src/messaging/MessageBuilder.js';
+import { SnapError } from '../../src/errors/SnapError.js';
+import { ErrorCodes } from '../../src/types/errors.js';
+import type { AgentCard } from '../../src/types/agent-card.js';
+import type { MiddlewareContext } from '../../src/types/plugin.js';
+import type { SnapMessage } from '../../src/types/message.js';
+
+const SENDER_A = 'bc1p5d7rjq7g6rdk2yhzqnt9dp8wvscrplqk0zwy63lmgreu9jzyt0mqf3xvn8';
+const SENDER_B = 'bc1pxyz';
+
+function inbound(from: string, overrides: Partial<MiddlewareContext> = {}): MiddlewareContext {
+  return {
+    message: { from, type: 'request', method: 'message/send' } as SnapMessage,
+    direction: 'inbound',
+    peer: { address: from },
+    state: {},
+    startedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+async function attempt(mw: RateLimitMiddleware, ctx: MiddlewareContext): Promise<SnapError | undefined> {
+  try {
+    await mw.handle(ctx, async () => {});
+    return undefined;
+  } catch (err) {
+    return err as SnapError;
+  }
+}
+
+describe('RateLimitMiddleware', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('passes everything through when no limit is configured or declared', async () => {
+    const mw = new RateLimitMiddleware();
+    for (let i = 0; i < 100; i++) {
+      expect(await attempt(mw, inbound(SENDER_A))).toBeUndefined();
+    }
+  });
+
+  it('sliding window: limits each sender independently and reports retryAfter', async () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const mw = new RateLimitMiddleware({ limit: { maxRequests: 2, windowSeconds: 10 } });
+
+    expect(await attempt(mw, inbound(SENDER_A))).toBeUndefined();
+    vi.advanceTimersByTime(4_000);
+    expect(await attempt(mw, inbound(SENDER_A))).toBeUndefined();
+
+    const err = await attempt(mw, inbound(SENDER_A));
+    expect(err).toBeInstanceOf(SnapError);
+    expect(err!.code).toBe(ErrorCodes.RATE_LIMIT_EXCEEDED);
+    expect(err!.data).toEqual({ limit: 2, window: '10s', retryAfter: 6 });
+
+    // Another sender has its own window
+    expect(await attempt(mw, inbound(SENDER_B))).toBeUndefined();
+
+    // Once the first request leaves the window, one slot frees up
+    vi.advanceTimersByTime(6_000);
+    expect(await attempt(mw, inbound(SENDER_A))).toBeUndefined();
+    expect(await attempt(mw, inbound(SENDER_A))).toBeDefined();
+  });
+
+  it('token bucket: allows a burst, then refills at maxRequests per window', async () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const mw = new RateLimitMiddleware({ limit: { maxRequests: 3, windowSeconds: 3 }, algorithm: 'token-bucket' });
+
+    for (let i = 0; i < 3; i++) {
+      expect(await attempt(mw, inbound(SENDER_A))).toBeUndefined();
+    }
+    expect((await attempt(mw, inbound(SENDER_A)))!.data).toMatchObject({ retryAfter: 1 });
+
+    vi.advanceTimersByTime(1_000);
+    expect(await attempt(mw, inbound(SENDER_A))).toBeUndefined();
+    expect(await attempt(mw, inbound(SENDER_A))).toBeDefined();
+  });
+
+  it('caps tracked senders at maxKeys by forgetting the least recently seen', async () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const mw = new RateLimitMiddleware({ limit: { maxRequests: 1, windowSeconds: 60 }, maxKeys: 3 });
+    const senders = Array.from({ length: 10 }, (_, i) => `bc1psender${i}`);
+
+    for (const sender of senders) {
+      expect(await attempt(mw, inbound(sender))).toBeUndefined();
+      expect(mw.size).toBeLessThanOrEqual(3);
+    }
+    // The most recent senders are still limited; a request refreshes its sender
+    expect(await attempt(mw, inbound(senders[9]))).toBeDefined();
+    expect(await attempt(mw, inbound(senders[7]))).toBeDefined();
+    expect(await attempt(mw, inbound('bc1pnewcomer'))).toBeUndefined();
+    expect(await attempt(mw, inbound(senders[7]))).toBeDefined();
+    expect(await attempt(mw, inbound(senders[8]))).toBeUndefined();
+    expect(mw.size).toBe(3);
+  });
+
+  it('reads the limit from the running agent card by default', async () => {
+    const card = { capabilities: { rateLimit: { maxRequests: 1, windowSeconds: 60 } } } as AgentCard;
+    const mw = new RateLimitMiddleware();
+
+    expect(await attempt(mw, inbound(SENDER_A, { card }))).toBeUndefined();
+    expect((await attempt(mw, inbound(SENDER_A, { card })))!.code).toBe(ErrorCodes.RATE_LIMIT_EXCEEDED);
+  });
+
+  it('ignores outbound messages', async () => {
+    const mw = new RateLimitMiddleware({ limit: { maxRequests: 1, windowSeconds: 60 } });
+    for (let i = 0; i < 3; i++) {
+      expect(await attempt(mw, inbound(SENDER_A, { direction: 'outbound' }))).toBeUndefined();
+    }
+  });
+
+  it('answers over HTTP with 429 and a Retry-After header', async () => {
+    const transport = new HttpTransport({ port: 0 });
+    const agent = new SnapAgent({
+      privateKey: '0000000000000000000000000000000000000000000000000000000000000001',
+      card: {
+        name: 'Limited',
+        description: 'Rate limited agent',
+        version: '1.0.0',
+        identity: SENDER_A as AgentCard['identity'],
+        skills: [],
+        defaultInputModes: ['text/plain'],
+        defaultOutputModes: ['text/plain'],
+        capabilities: { rateLimit: { maxRequests: 1, windowSeconds: 30 } },
+      },
+    });
+    agent.transport(transport).use(new RateLimitMiddleware()).handle('tasks/get', async () => ({} as any));
+    await agent.start();
+
+    try {
+      const signer = new MessageSigner('0000000000000000000000000000000000000000000000000000000000000002');
+      const post = (id: string) => fetch(`http://127.0.0.1:${transport.port}/`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(signer.sign(new MessageBuilder()
+          .id(id)
+          .from(signer.getAddress())
+          .to(agent.address)
+          .method('tasks/get')
+          .payload({ taskId: 't1' })
+          .timestamp(Math.floor(Date.now() / 1000))
+          .build())),
+      });
+
+      expect((await post('first')).status).toBe(200);
+
+      const limited = await post('second');
+      expect(limited.status).toBe(429);
+      expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+      const body = await limited.json();
+      expect(body.payload.error).toMatchObject({ code: ErrorCodes.RATE_LIMIT_EXCEEDED, data: { limit: 1, window: '30s' } });
+    } finally {
+      await agent.stop();
+    }
+  });
+});
@@ -0,0 +1,212 @@
+import { createServer, type IncomingMessage, type RequestListener, type Server } from 'node:http';
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import { RequestVerifier, type FastifyReplyLike, type VerifiedRequest } from '../../src/middleware/RequestVerifier.js';
+import { Allowlist } from '../../src/middleware/Allowlist.js';
+import { MessageBuilder } from '../../src/messaging/MessageBuilder.js';
+import { MessageSigner } from '../../src/messaging/MessageSigner.js';
+import { InMemoryReplayStore } from '../../src/stores/InMemoryReplayStore.js';
+import { ErrorCodes } from '../../src/types/errors.js';
+import type { P2TRAddress } from '../../src/types/keys.js';
+
+const CLIENT = new MessageSigner('0000000000000000000000000000000000000000000000000000000000000001');
+const STRANGER = new MessageSigner('0000000000000000000000000000000000000000000000000000000000000003');
+
+let seq = 0;
+function signed(opts: { signer?: MessageSigner; to?: P2TRAddress; timestamp?: number } = {}) {
+  const signer = opts.signer ?? CLIENT;
+  const builder = new MessageBuilder()
+    .id(`verify-${++seq}`)
+    .from(signer.getAddress())
+    .method('service/call')
+    .payload({ name: 'echo' })
+    .timestamp(opts.timestamp ?? Math.floor(Date.now() / 1000));
+  if (opts.to) builder.to(opts.to);
+  return signer.sign(builder.build());
+}
+
+describe('RequestVerifier', () => {
+  const servers: Server[] = [];
+
+  afterEach(async () => {
+    for (const server of servers) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+    servers.length = 0;
+  });
+
+  function listen(listener: RequestListener): Promise<string> {
+    const server = createServer(listener);
+    servers.push(server);
+    return new Promise((resolve) => {
+      server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as { port: number }).port}`));
+    });
+  }
+
+  function post(url: string, body: unknown): Promise<Response> {
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+  }
+
+  describe('handler() for node:http', () => {
+    function serve(verifier: RequestVerifier): Promise<string> {
+      return listen(verifier.handler((req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ from: req.snap.from, id: req.snap.message.id }));
+      }));
+    }
+
+    it('passes verified requests through with the sender attached', async () => {
+      const url = await serve(new RequestVerifier());
+      const message = signed();
+      const res = await post(url, message);
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ from: CLIENT.getAddress(), id: message.id });
+    });
+
+    it('answers bad JSON, tampered and expired messages with SNAP errors', async () => {
+      const url = await serve(new RequestVerifier());
+
+      const bad = await post(url, '{not json');
+      expect(bad.status).toBe(400);
+      expect((await bad.json()).error).toMatchObject({ code: ErrorCodes.INVALID_MESSAGE });
+
+      const tampered = await post(url, { ...signed(), payload: { name: 'other' } });
+      expect(tampered.status).toBe(401);
+      expect((await tampered.json()).error.code).toBe(ErrorCodes.SIGNATURE_INVALID);
+
+      const expired = await post(url, signed({ timestamp: Math.floor(Date.now() / 1000) - 3600 }));
+      expect(expired.status).toBe(401);
+      expect((await expired.json()).error.code).toBe(ErrorCodes.TIMESTAMP_EXPIRED);
+    });
+
+    it('rejects replays and senders missing from the allowlist', async () => {
+      const url = await serve(new RequestVerifier({
+        allowlist: new Allowlist({ entries: [CLIENT.getAddress()] }),
+        replayStore: new InMemoryReplayStore(),
+      }));
+
+      const message = signed();
+      expect((await post(url, message)).status).toBe(200);
+      const replay = await post(url, message);
+      expect(replay.status).toBe(401);
+      expect((await replay.json()).error.code).toBe(ErrorCodes.DUPLICATE_MESSAGE);
+
+      const stranger = await post(url, signed({ signer: STRANGER }));
+      expect(stranger.status).toBe(403);
+      expect((await stranger.json()).error).toMatchObject({ code: ErrorCodes.UNAUTHORIZED, data: { from: STRANGER.getAddress() } });
+    });
+
+    it('only accepts `to` matching the configured address', async () => {
+      const anonymous = await serve(new RequestVerifier());
+      expect((await post(anonymous, signed({ to: STRANGER.getAddress() }))).status).toBe(400);
+
+      const addressed = await serve(new RequestVerifier({ address: STRANGER.getAddress() }));
+      expect((await post(addressed, signed({ to: STRANGER.getAddress() }))).status).toBe(200);
+    });
+
+    it('answers INTERNAL_ERROR when the wrapped listener throws', async () => {
+      const url = await listen(new RequestVerifier().handler(async () => {
+        throw new Error('boom');
+      }));
+      const res = await post(url, signed());
+      expect(res.status).toBe(500);
+      expect((await res.json()).error).toMatchObject({ code: ErrorCodes.INTERNAL_ERROR, message: 'Internal error' });
+    });
+
+    it('answers 413 for bodies over the size limit', async () => {
+      const url = await serve(new RequestVerifier({ validation: { limits: { maxMessageBytes: 256 } } }));
+      const res = await post(url, { ...signed(), payload: { name: 'x'.repeat(1024) } });
+      expect(res.status).toBe(413);
+      expect((await res.json()).error).toMatchObject({ code: ErrorCodes.INVALID_MESSAGE, data: { constraint: 'maxBytes' } });
+    });
+  });
+
+  describe('express()', () => {
+    // Express runs middleware as (req, res, next); body parsers leave the parsed body on req.body
+    function serve(parseBody: boolean): Promise<string> {
+      const middleware = new RequestVerifier().express();
+      return listen(async (req, res) => {
+        if (parseBody) {
+          const chunks: Buffer[] = [];
+          for await (const chunk of req) chunks.push(chunk as Buffer);
+          (req as IncomingMessage & { body?: unknown }).body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+        }
+        middleware(req, res, () => res.end((req as VerifiedRequest).snap.from));
+      });
+    }
+
+    it('verifies raw and pre-parsed bodies', async () => {
+      for (const parseBody of [false, true]) {
+        const url = await serve(parseBody);
+        const res = await post(url, signed());
+        expect(await res.text()).toBe(CLIENT.getAddress());
+
+        const rejected = await post(url, { ...signed(), sig: 'f'.repeat(128) });
+        expect(rejected.status).toBe(401);
+      }
+    });
+  });
+
+  describe('fastify()', () => {
+    function reply() {
+      const sent: { status?: number; headers: Record<string, string>; body?: unknown } = { headers: {} };
+      const r: FastifyReplyLike = {
+        code(status) { sent.status = status; return r; },
+        header(name, value) { sent.headers[name] = value; return r; },
+        send(body) { sent.body = body; },
+      };
+      return { r, sent };
+    }
+
+    it('sets request.snap for a verified body', async () => {
+      const request = { body: signed(), raw: {} as IncomingMessage } as Parameters<ReturnType<RequestVerifier['fastify']>>[0];
+      const { r, sent } = reply();
+      expect(await new RequestVerifier().fastify()(request, r)).toBeUndefined();
+      expect(request.snap?.from).toBe(CLIENT.getAddress());
+      expect(sent.status).toBeUndefined();
+    });
+
+    it('replies with the SNAP error and HTTP status', async () => {
+      const allowlist = new Allowlist({ entries: [CLIENT.getAddress()] });
+      const request = { body: signed({ signer: STRANGER }), raw: {} as IncomingMessage };
+      const { r, sent } = reply();
+      // Async Fastify hooks must return the reply once they have sent it
+      expect(await new RequestVerifier({ allowlist }).fastify()(request, r)).toBe(r);
+      expect(sent.status).toBe(403);
+      expect(sent.headers['Content-Type']).toBe('application/json');
+      expect(sent.body).toMatchObject({ error: { code: ErrorCodes.UNAUTHORIZED } });
+    });
+
+    it('verifies the parsed body as a preHandler in a real Fastify app', async () => {
+      const app = Fastify();
+      app.decorateRequest('snap', null);
+      app.post('/snap', { preHandler: new RequestVerifier().fastify() }, async (request) => ({
+        from: (request as { snap?: VerifiedRequest['snap'] }).snap?.from,
+      }));
+
+      const ok = await app.inject({ method: 'POST', url: '/snap', payload: signed() });
+      expect(ok.statusCode).toBe(200);
+      expect(ok.json()).toEqual({ from: CLIENT.getAddress() });
+
+      const bad = await app.inject({ method: 'POST', url: '/snap', payload: signed({ timestamp: 1 }) });
+      expect(bad.statusCode).toBe(401);
+      expect(bad.json()).toMatchObject({ error: { code: ErrorCodes.TIMESTAMP_EXPIRED } });
+      await app.close();
+    });
+
+    it('answers INVALID_MESSAGE at once when registered as onRequest, before the body is parsed', async () => {
+      const app = Fastify();
+      app.addHook('onRequest', new RequestVerifier().fastify());
+      app.post('/snap', async () => ({ ok: true }));
+
+      const res = await app.inject({ method: 'POST', url: '/snap', payload: signed() });
+      expect(res.statusCode).toBe(400);
+      expect(res.json()).toMatchObject({ error: { code: ErrorCodes.INVALID_MESSAGE } });
+      await app.close();
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileReplayStore } from '../../src/stores/FileReplayStore.js';
+import { ErrorCodes } from '../../src/types/errors.js';
+
+const seconds = () => Math.floor(Date.now() / 1000);
+
+describe('FileReplayStore', () => {
+  let dir: string;
+  let path: string;
+  const open: FileReplayStore[] = [];
+
+  async function openStore(options?: Parameters<typeof FileReplayStore.open>[1]): Promise<FileReplayStore> {
+    const store = await FileReplayStore.open(path, { fsync: false, sweepInterval: 0, ...options });
+    open.push(store);
+    return store;
+  }
+
+  async function reopen(options?: Parameters<typeof FileReplayStore.open>[1]): Promise<FileReplayStore> {
+    for (const store of open) await store.close();
+    open.length = 0;
+    return openStore(options);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'snap-replay-'));
+    path = join(dir, 'replay.jsonl');
+  });
+
+  afterEach(async () => {
+    for (const store of open) await store.close();
+    open.length = 0;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('remembers seen messages across restarts', async () => {
+    const first = await openStore();
+    await first.markSeen('alice', 'msg-1', seconds());
+    expect(await first.hasSeen('alice', 'msg-1')).toBe(true);
+
+    const second = await reopen();
+    expect(await second.hasSeen('alice', 'msg-1', seconds())).toBe(true);
+    expect(await second.hasSeen('alice', 'msg-2', seconds())).toBe(false);
+  });
+
+  it('does not reload entries that expired while stopped', async () => {
+    const first = await openStore({ maxAge: 60_000 });
+    await first.markSeen('alice', 'old', seconds() - 120);
+    await first.markSeen('alice', 'new', seconds());
+
+    const second = await reopen({ maxAge: 60_000 });
+    expect(second.size).toBe(1);
+    await expect(second.hasSeen('alice', 'old', seconds() - 120)).rejects.toMatchObject({ code: ErrorCodes.TIMESTAMP_EXPIRED });
+  });
+
+  it('keeps the eviction horizon through compaction', async () => {
+    const t = seconds();
+    const first = await openStore({ maxEntries: 2 });
+    await first.markSeen('alice', 'msg-1', t - 3);
+    await first.markSeen('alice', 'msg-2', t - 2);
+    await first.markSeen('alice', 'msg-3', t - 1);
+    await first.compact();
+
+    const records = (await readFile(path, 'utf-8')).split('\n').filter(Boolean).map((l) => JSON.parse(l));
+    expect(records).toEqual([
+      { through: t - 3 },
+      { from: 'alice', id: 'msg-2', timestamp: t - 2 },
+      { from: 'alice', id: 'msg-3', timestamp: t - 1 },
+    ]);
+
+    const second = await reopen({ maxEntries: 2 });
+    await expect(second.hasSeen('alice', 'msg-1', t - 3)).rejects.toMatchObject({ code: ErrorCodes.TIMESTAMP_EXPIRED });
+    expect(await second.hasSeen('alice', 'msg-3', t - 1)).toBe(true);
+  });
+
+  it('compacts once superseded records dominate the log', async () => {
+    const store = await openStore({ compactThreshold: 5, maxEntries: 2 });
+    for (let i = 0; i < 5; i++) await store.markSeen('alice', `msg-${i}`, seconds());
+
+    const records = (await readFile(path, 'utf-8')).split('\n').filter(Boolean);
+    expect(records).toHaveLength(3); // horizon + 2 live entries
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readFile, appendFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileTaskStore } from '../../src/stores/FileTaskStore.js';
+import type { Task } from '../../src/types/task.js';
+
+const makeTask = (id: string, state: Task['status']['state'] = 'submitted'): Task => ({
+  id,
+  status: { state, timestamp: new Date().toISOString() },
+});
+
+async function lines(path: string): Promise<unknown[]> {
+  const text = await readFile(path, 'utf-8');
+  return text.split('\n').filter(Boolean).map((line) => JSON.parse(line));
+}
+
+describe('FileTaskStore', () => {
+  let dir: string;
+  let path: string;
+  const open: FileTaskStore[] = [];
+
+  async function openStore(options?: Parameters<typeof FileTaskStore.open>[1]): Promise<FileTaskStore> {
+    const store = await FileTaskStore.open(path, { fsync: false, ...options });
+    open.push(store);
+    return store;
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'snap-tasks-'));
+    path = join(dir, 'tasks.jsonl');
+  });
+
+  afterEach(async () => {
+    for (const store of open) await store.close();
+    open.length = 0;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores, overwrites and deletes tasks', async () => {
+    const store = await openStore();
+    await store.set('task-1', makeTask('task-1'));
+    await store.set('task-1', makeTask('task-1', 'working'));
+    await store.set('task-2', makeTask('task-2'));
+    await store.delete('task-2');
+
+    expect((await store.get('task-1'))?.status.state).toBe('working');
+    expect(await store.get('task-2')).toBeUndefined();
+    expect(store.size).toBe(1);
+  });
+
+  it('reloads tasks after a restart', async () => {
+    const first = await openStore();
+    await first.set('task-1', makeTask('task-1', 'working'));
+    await first.set('task-2', makeTask('task-2'));
+    await first.delete('task-2');
+    await first.close();
+    open.length = 0;
+
+    const second = await openStore();
+    expect((await second.get('task-1'))?.status.state).toBe('working');
+    expect(await second.get('task-2')).toBeUndefined();
+  });
+
+  it('keeps owners and creation order across a restart', async () => {
+    vi.useFakeTimers({ now: Date.now() });
+    try {
+      const first = await openStore();
+      await first.set('task-1', makeTask('task-1'), 'alice');
+      vi.advanceTimersByTime(1000);
+      await first.set('task-2', makeTask('task-2'), 'bob');
+      vi.advanceTimersByTime(1000);
+      await first.set('task-1', makeTask('task-1', 'working'));
+      await first.close();
+      open.length = 0;
+
+      const second = await openStore();
+      expect((await second.list()).tasks.map((t) => t.id)).toEqual(['task-2', 'task-1']);
+      expect((await second.list({ owner: 'alice' })).tasks.map((t) => t.status.state)).toEqual(['working']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('ignores a torn last line left by a crash', async () => {
+    const first = await openStore();
+    await first.set('task-1', makeTask('task-1'));
+    await first.close();
+    open.length = 0;
+    await appendFile(path, '{"op":"set","id":"task-2","task":{"id":"tas');
+
+    const second = await openStore();
+    expect(await second.get('task-1')).toBeDefined();
+    expect(second.size).toBe(1);
+
+    // Later writes start on a clean line
+    await second.set('task-3', makeTask('task-3'));
+    expect(await lines(path)).toHaveLength(2);
+  });
+
+  it('truncates a torn line by bytes when the log holds multi-byte text', async () => {
+    const first = await openStore();
+    for (const id of ['task-1', 'task-2', 'task-3']) {
+      await first.set(id, { ...makeTask(id), history: [{ messageId: `m-${id}`, role: 'user', parts: [{ text: 'こんにちは、世界' }] }] });
+    }
+    await first.close();
+    open.length = 0;
+    await appendFile(path, '{"op":"set","id":"task-4","task":{"id":"tas');
+
+    expect((await openStore()).size).toBe(3);
+    await open.pop()!.close();
+    const third = await openStore();
+    expect(third.size).toBe(3);
+    expect((await third.get('task-3'))?.history?.[0].parts).toEqual([{ text: 'こんにちは、世界' }]);
+  });
+
+  it('compacts superseded records', async () => {
+    const store = await openStore({ compactThreshold: 10 });
+    for (let i = 0; i < 10; i++) {
+      await store.set('task-1', makeTask('task-1', i % 2 ? 'working' : 'submitted'));
+    }
+    expect(await lines(path)).toHaveLength(1);
+
+    await store.set('task-2', makeTask('task-2'));
+    await store.compact();
+    expect((await lines(path)).map((r: any) => r.id)).toEqual(['task-1', 'task-2']);
+  });
+
+  it('drops tasks past their TTL', async () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    try {
+      const store = await openStore({ ttl: 60_000, sweepInterval: 0 });
+      await store.set('old', makeTask('old'));
+      vi.advanceTimersByTime(30_000);
+      await store.set('new', makeTask('new'));
+      vi.advanceTimersByTime(40_000);
+
+      expect(await store.get('old')).toBeUndefined();
+      expect(await store.get('new')).toBeDefined();
+      expect(await store.sweep()).toBe(0);
+
+      vi.advanceTimersByTime(30_000);
+      expect(await store.sweep()).toBe(1);
+      expect((await lines(path)).slice(-2)).toEqual([{ op: 'delete', id: 'old' }, { op: 'delete', id: 'new' }]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('leaves compacting after a sweep to the threshold', async () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    try {
+      const store = await openStore({ ttl: 60_000, sweepInterval: 0, compactThreshold: 6 });
+      for (const id of ['a', 'b']) await store.set(id, makeTask(id));
+      vi.advanceTimersByTime(30_000);
+      await store.set('c', makeTask('c'));
+      vi.advanceTimersByTime(40_000);
+
+      expect(await store.sweep()).toBe(2);
+      expect(await lines(path)).toHaveLength(5);
+
+      await store.set('c', makeTask('c', 'working'));
+      expect((await lines(path)).map((r: any) => r.id)).toEqual(['c']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('drops expired tasks when reopening', async () => {
+    const first = await openStore();
+    await first.set('task-1', makeTask('task-1'));
+    await first.close();
+    open.length = 0;
+
+    vi.useFakeTimers({ now: Date.now() + 120_000 });
+    try {
+      const second = await openStore({ ttl: 60_000 });
+      expect(second.size).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { InMemoryReplayStore } from '../../src/stores/InMemoryReplayStore.js';
+import { ErrorCodes } from '../../src/types/errors.js';
+
+/** Current time in Unix seconds, the unit of signed message timestamps. */
+const seconds = () => Math.floor(Date.now() / 1000);
 
 describe('InMemoryReplayStore', () => {
   let store: InMemoryReplayStore;
@@ -13,25 +17,25 @@ describe('InMemoryReplayStore', () => {
   });
 
   it('returns true after marking a message as seen', async () => {
-    await store.markSeen('alice', 'msg-1', Date.now());
+    await store.markSeen('alice', 'msg-1', seconds());
     expect(await store.hasSeen('alice', 'msg-1')).toBe(true);
   });
 
   it('distinguishes different senders with the same message id', async () => {
-    await store.markSeen('alice', 'msg-1', Date.now());
+    await store.markSeen('alice', 'msg-1', seconds());
     expect(await store.hasSeen('bob', 'msg-1')).toBe(false);
   });
 
   it('distinguishes different message ids from the same sender', async () => {
-    await store.markSeen('alice', 'msg-1', Date.now());
+    await store.markSeen('alice', 'msg-1', seconds());
     expect(await store.hasSeen('alice', 'msg-2')).toBe(false);
   });
 
-  it('expires entries older than maxAge', async () => {
-    vi.useFakeTimers();
+  it('expires entries maxAge after their signed timestamp', async () => {
+    vi.useFakeTimers({ now: 1_000_000_000 });
     try {
       const store60s = new InMemoryReplayStore(60_000); // 60s
-      await store60s.markSeen('alice', 'msg-1', 0);
+      await store60s.markSeen('alice', 'msg-1', seconds());
 
       // Entry should exist immediately
       expect(await store60s.hasSeen('alice', 'msg-1')).toBe(true);
@@ -46,27 +50,27 @@ describe('InMemoryReplayStore', () => {
 
   it('does not expire entries within maxAge', async () => {
     const store60s = new InMemoryReplayStore(60_000);
-    await store60s.markSeen('alice', 'msg-1', Date.now());
+    await store60s.markSeen('alice', 'msg-1', seconds());
     expect(await store60s.hasSeen('alice', 'msg-1')).toBe(true);
   });
 
   it('does not expire when maxAge is 0 (disabled)', async () => {
     const noExpiry = new InMemoryReplayStore(0);
     await noExpiry.markSeen('alice', 'msg-1', 1); // very old timestamp
-    expect(await noExpiry.hasSeen('alice', 'msg-1')).toBe(true);
+    expect(await noExpiry.hasSeen('alice', 'msg-1', 1)).toBe(true);
   });
 
   it('tracks size correctly', async () => {
     expect(store.size).toBe(0);
-    await store.markSeen('alice', 'msg-1', Date.now());
+    await store.markSeen('alice', 'msg-1', seconds());
     expect(store.size).toBe(1);
-    await store.markSeen('bob', 'msg-2', Date.now());
+    await store.markSeen('bob', 'msg-2', seconds());
     expect(store.size).toBe(2);
   });
 
   it('clears all entries', async () => {
-    await store.markSeen('alice', 'msg-1', Date.now());
-    await store.markSeen('bob', 'msg-2', Date.now());
+    await store.markSeen('alice', 'msg-1', seconds());
+    await store.markSeen('bob', 'msg-2', seconds());
     store.clear();
     expect(store.size).toBe(0);
     expect(await store.hasSeen('alice', 'msg-1')).toBe(false);
@@ -74,40 +78,47 @@ describe('InMemoryReplayStore', () => {
 
   // --- Edge cases ---
 
-  it('markSeen uses Date.now() for storage, ignores message timestamp', async () => {
-    vi.useFakeTimers({ now: 1000 });
+  it('keys expiry off the signed timestamp, not arrival time', async () => {
+    vi.useFakeTimers({ now: 1_000_000_000 });
     try {
-      const shortStore = new InMemoryReplayStore(500);
-      // Pass a very different message timestamp — should be ignored
-      await shortStore.markSeen('alice', 'msg-1', 999999);
-
-      // Should be seen (stored at Date.now() = 1000)
+      const shortStore = new InMemoryReplayStore(60_000);
+      // Signed 50s ago: only 10s of retention left
+      await shortStore.markSeen('alice', 'msg-1', seconds() - 50);
       expect(await shortStore.hasSeen('alice', 'msg-1')).toBe(true);
 
-      // Advance 600ms past maxAge (500ms)
-      vi.advanceTimersByTime(600);
+      vi.advanceTimersByTime(11_000);
       expect(await shortStore.hasSeen('alice', 'msg-1')).toBe(false);
     } finally {
       vi.useRealTimers();
     }
   });
 
-  it('markSeen overwrites previous entry (refreshes timestamp)', async () => {
-    vi.useFakeTimers({ now: 0 });
+  it('rejects messages signed before the retention horizon', async () => {
+    vi.useFakeTimers({ now: 1_000_000_000 });
     try {
-      const shortStore = new InMemoryReplayStore(1000);
-
-      await shortStore.markSeen('alice', 'msg-1', 0);
-      vi.advanceTimersByTime(800); // 800ms in
+      // Shorter than the validator's default 60s drift: the store still refuses what it can't track
+      const shortStore = new InMemoryReplayStore(30_000);
+      await expect(shortStore.hasSeen('alice', 'msg-1', seconds() - 45)).rejects.toMatchObject({
+        code: ErrorCodes.TIMESTAMP_EXPIRED,
+        data: { provided: seconds() - 45, maxDrift: 30 },
+      });
+      expect(await shortStore.hasSeen('alice', 'msg-1', seconds() - 20)).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 
-      // Re-mark at t=800
-      await shortStore.markSeen('alice', 'msg-1', 0);
-      vi.advanceTimersByTime(800); // now t=1600
+  it('markSeen overwrites previous entry with the new timestamp', async () => {
+    vi.useFakeTimers({ now: 1_000_000_000 });
+    try {
+      const shortStore = new InMemoryReplayStore(10_000);
+      await shortStore.markSeen('alice', 'msg-1', seconds());
+      await shortStore.markSeen('alice', 'msg-1', seconds() + 5);
 
-      // Original would have expired at t=1000, but re-mark refreshed to t=800+1000=1800
+      vi.advanceTimersByTime(12_000); // first expiry passed, second (t+15s) not
       expect(await shortStore.hasSeen('alice', 'msg-1')).toBe(true);
 
-      vi.advanceTimersByTime(300); // now t=1900 > 1800
+      vi.advanceTimersByTime(4_000);
       expect(await shortStore.hasSeen('alice', 'msg-1')).toBe(false);
     } finally {
       vi.useRealTimers();
@@ -115,13 +126,13 @@ describe('InMemoryReplayStore', () => {
   });
 
   it('hasSeen deletes expired entries (lazy cleanup)', async () => {
-    vi.useFakeTimers();
+    vi.useFakeTimers({ now: 1_000_000_000 });
     try {
-      const shortStore = new InMemoryReplayStore(100);
-      await shortStore.markSeen('alice', 'msg-1', 0);
+      const shortStore = new InMemoryReplayStore({ maxAge: 1_000, sweepInterval: 0 });
+      await shortStore.markSeen('alice', 'msg-1', seconds());
       expect(shortStore.size).toBe(1);
 
-      vi.advanceTimersByTime(200);
+      vi.advanceTimersByTime(2_000);
 
       // hasSeen should delete the expired entry
       await shortStore.hasSeen('alice', 'msg-1');
@@ -131,10 +142,40 @@ describe('InMemoryReplayStore', () => {
     }
   });
 
+  it('sweeps expired entries periodically', async () => {
+    vi.useFakeTimers({ now: 1_000_000_000 });
+    const sweeping = new InMemoryReplayStore({ maxAge: 10_000, sweepInterval: 5_000 });
+    try {
+      await sweeping.markSeen('alice', 'msg-1', seconds());
+      await sweeping.markSeen('bob', 'msg-2', seconds() + 20);
+
+      vi.advanceTimersByTime(15_000);
+      expect(sweeping.size).toBe(1);
+      expect(sweeping.sweep()).toBe(0);
+    } finally {
+      sweeping.close();
+      vi.useRealTimers();
+    }
+  });
+
+  it('caps entries and rejects anything at or before the evicted timestamps', async () => {
+    const capped = new InMemoryReplayStore({ maxEntries: 2 });
+    const t = seconds();
+    await capped.markSeen('alice', 'msg-1', t - 3);
+    await capped.markSeen('alice', 'msg-2', t - 2);
+    await capped.markSeen('alice', 'msg-3', t - 1);
+
+    expect(capped.size).toBe(2);
+    // msg-1 was evicted; a replay of it must not pass as unseen
+    await expect(capped.hasSeen('alice', 'msg-1', t - 3)).rejects.toMatchObject({ code: ErrorCodes.TIMESTAMP_EXPIRED });
+    expect(await capped.hasSeen('alice', 'msg-2', t - 2)).toBe(true);
+    expect(await capped.hasSeen('alice', 'msg-4', t)).toBe(false);
+  });
+
   it('handles concurrent markSeen operations', async () => {
     const promises = [];
     for (let i = 0; i < 100; i++) {
-      promises.push(store.markSeen(`sender-${i}`, `msg-${i}`, Date.now()));
+      promises.push(store.markSeen(`sender-${i}`, `msg-${i}`, seconds()));
     }
     await Promise.all(promises);
     expect(store.size).toBe(100);
@@ -146,16 +187,16 @@ describe('InMemoryReplayStore', () => {
   });
 
   it('handles empty string sender and id', async () => {
-    await store.markSeen('', '', Date.now());
+    await store.markSeen('', '', seconds());
     expect(await store.hasSeen('', '')).toBe(true);
     expect(store.size).toBe(1);
   });
 
   it('default maxAge is 1 hour', async () => {
-    vi.useFakeTimers();
+    vi.useFakeTimers({ now: 1_000_000_000 });
     try {
       const defaultStore = new InMemoryReplayStore();
-      await defaultStore.markSeen('alice', 'msg-1', 0);
+      await defaultStore.markSeen('alice', 'msg-1', seconds());
 
       // Should still be seen at 59 minutes
       vi.advanceTimersByTime(59 * 60 * 1000);
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { InMemoryResponseStore } from '../../src/stores/InMemoryResponseStore.js';
+
+describe('InMemoryResponseStore', () => {
+  let store: InMemoryResponseStore;
+
+  beforeEach(() => {
+    store = new InMemoryResponseStore();
+  });
+
+  it('returns undefined for unknown keys', async () => {
+    expect(await store.get('alice', 'id:msg-1')).toBeUndefined();
+  });
+
+  it('stores and retrieves a payload', async () => {
+    await store.set('alice', 'id:msg-1', { task: { id: 't1' } });
+    expect(await store.get('alice', 'id:msg-1')).toEqual({ task: { id: 't1' } });
+  });
+
+  it('isolates senders', async () => {
+    await store.set('alice', 'key:k1', { ok: true });
+    expect(await store.get('bob', 'key:k1')).toBeUndefined();
+  });
+
+  it('expires entries older than maxAge', async () => {
+    vi.useFakeTimers();
+    try {
+      const shortStore = new InMemoryResponseStore(60_000);
+      await shortStore.set('alice', 'key:k1', { ok: true });
+      expect(await shortStore.get('alice', 'key:k1')).toEqual({ ok: true });
+
+      vi.advanceTimersByTime(120_000);
+      expect(await shortStore.get('alice', 'key:k1')).toBeUndefined();
+      expect(shortStore.size).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does not expire when maxAge is 0 (disabled)', async () => {
+    vi.useFakeTimers();
+    try {
+      const noExpiry = new InMemoryResponseStore(0);
+      await noExpiry.set('alice', 'key:k1', { ok: true });
+      vi.advanceTimersByTime(10 * 3_600_000);
+      expect(await noExpiry.get('alice', 'key:k1')).toEqual({ ok: true });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('sweeps expired entries that are never read', async () => {
+    vi.useFakeTimers();
+    try {
+      const swept = new InMemoryResponseStore({ maxAge: 60_000, sweepInterval: 10_000 });
+      await swept.set('alice', 'id:1', {});
+      await swept.set('bob', 'id:2', {});
+      vi.advanceTimersByTime(30_000);
+      await swept.set('alice', 'id:3', {});
+      expect(swept.size).toBe(3);
+
+      vi.advanceTimersByTime(40_000);
+      expect(swept.size).toBe(1);
+      swept.close();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('evicts the oldest entries beyond maxEntries', async () => {
+    const capped = new InMemoryResponseStore({ maxEntries: 2 });
+    await capped.set('alice', 'id:1', { n: 1 });
+    await capped.set('alice', 'id:2', { n: 2 });
+    await capped.set('alice', 'id:3', { n: 3 });
+    expect(capped.size).toBe(2);
+    expect(await capped.get('alice', 'id:1')).toBeUndefined();
+    expect(await capped.get('alice', 'id:3')).toEqual({ n: 3 });
+    capped.close();
+  });
+
+  it('tracks size and clears', async () => {
+    await store.set('alice', 'id:1', {});
+    await store.set('bob', 'id:1', {});
+    expect(store.size).toBe(2);
+    store.clear();
+    expect(store.size).toBe(0);
+  });
+});
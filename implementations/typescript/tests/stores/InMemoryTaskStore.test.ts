@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { InMemoryTaskStore } from '../../src/stores/InMemoryTaskStore.js';
 import type { Task } from '../../src/types/task.js';
+import { ErrorCodes } from '../../src/types/errors.js';
 
 const makeTask = (id: string): Task => ({
   id,
@@ -156,4 +157,73 @@ describe('InMemoryTaskStore', () => {
     }
     expect(store.size).toBe(states.length);
   });
+
+  describe('list()', () => {
+    const taskIn = (id: string, state: Task['status']['state'], contextId?: string): Task => ({
+      id,
+      ...(contextId ? { contextId } : {}),
+      status: { state, timestamp: new Date().toISOString() },
+    });
+
+    beforeEach(async () => {
+      vi.useFakeTimers({ now: 1_000_000 });
+      await store.set('t1', taskIn('t1', 'completed', 'ctx-a'), 'alice');
+      vi.advanceTimersByTime(1000);
+      await store.set('t2', taskIn('t2', 'working', 'ctx-a'), 'alice');
+      vi.advanceTimersByTime(1000);
+      await store.set('t3', taskIn('t3', 'working', 'ctx-b'), 'bob');
+      vi.advanceTimersByTime(1000);
+      await store.set('t4', taskIn('t4', 'failed'), 'alice');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('lists newest first', async () => {
+      const { tasks, nextCursor } = await store.list();
+      expect(tasks.map((t) => t.id)).toEqual(['t4', 't3', 't2', 't1']);
+      expect(nextCursor).toBeUndefined();
+    });
+
+    it('filters by owner, state, contextId and update time', async () => {
+      const ids = async (query: Parameters<InMemoryTaskStore['list']>[0]) => (await store.list(query)).tasks.map((t) => t.id);
+      expect(await ids({ owner: 'alice' })).toEqual(['t4', 't2', 't1']);
+      expect(await ids({ state: 'working' })).toEqual(['t3', 't2']);
+      expect(await ids({ owner: 'alice', state: ['completed', 'failed'] })).toEqual(['t4', 't1']);
+      expect(await ids({ contextId: 'ctx-a' })).toEqual(['t2', 't1']);
+      expect(await ids({ updatedAfter: 1_001_000, updatedBefore: 1_003_000 })).toEqual(['t3', 't2']);
+    });
+
+    it('keeps the owner and creation time from the first write', async () => {
+      vi.advanceTimersByTime(1000);
+      await store.set('t1', taskIn('t1', 'completed', 'ctx-a'), 'mallory');
+      await store.set('t1', taskIn('t1', 'completed', 'ctx-a'));
+
+      expect((await store.list({ owner: 'mallory' })).tasks).toEqual([]);
+      expect((await store.list({ owner: 'alice' })).tasks.map((t) => t.id)).toEqual(['t4', 't2', 't1']);
+      expect((await store.list({ updatedAfter: 1_004_000 })).tasks.map((t) => t.id)).toEqual(['t1']);
+    });
+
+    it('pages with a cursor that survives concurrent writes', async () => {
+      const first = await store.list({ limit: 2 });
+      expect(first.tasks.map((t) => t.id)).toEqual(['t4', 't3']);
+      expect(first.nextCursor).toBeDefined();
+
+      vi.advanceTimersByTime(1000);
+      await store.set('t5', taskIn('t5', 'submitted'), 'alice');
+      await store.delete('t3');
+
+      const second = await store.list({ limit: 2, cursor: first.nextCursor });
+      expect(second.tasks.map((t) => t.id)).toEqual(['t2', 't1']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('rejects a malformed cursor with INVALID_PAYLOAD', async () => {
+      await expect(store.list({ cursor: 'not-a-cursor' })).rejects.toMatchObject({
+        code: ErrorCodes.INVALID_PAYLOAD,
+        data: { field: 'payload.cursor' },
+      });
+    });
+  });
 });
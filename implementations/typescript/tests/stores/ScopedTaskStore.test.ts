@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ScopedTaskStore } from '../../src/stores/ScopedTaskStore.js';
+import { ValidatingTaskStore } from '../../src/stores/ValidatingTaskStore.js';
+import { InMemoryTaskStore } from '../../src/stores/InMemoryTaskStore.js';
+import { ErrorCodes } from '../../src/types/errors.js';
+import type { Task } from '../../src/types/task.js';
+
+const makeTask = (id: string, state: Task['status']['state'] = 'submitted'): Task => ({
+  id,
+  status: { state, timestamp: '2026-01-01T00:00:00.000Z' },
+});
+
+describe('ScopedTaskStore', () => {
+  let store: ValidatingTaskStore;
+  let alice: ScopedTaskStore;
+  let bob: ScopedTaskStore;
+
+  beforeEach(() => {
+    store = new ValidatingTaskStore(new InMemoryTaskStore());
+    alice = new ScopedTaskStore(store, 'alice');
+    bob = new ScopedTaskStore(store, 'bob');
+  });
+
+  it('records the requester as owner of tasks it writes', async () => {
+    await alice.set('t1', makeTask('t1'));
+    expect(await store.getOwner('t1')).toBe('alice');
+    expect(await alice.get('t1')).toBeDefined();
+  });
+
+  it('hides tasks owned by someone else', async () => {
+    await alice.set('t1', makeTask('t1'));
+    expect(await bob.get('t1')).toBeUndefined();
+    expect(await bob.getOwner('t1')).toBeUndefined();
+    expect(await bob.visible('t1')).toBe(false);
+  });
+
+  it('refuses to overwrite or delete tasks owned by someone else', async () => {
+    await alice.set('t1', makeTask('t1'));
+    await expect(bob.set('t1', makeTask('t1', 'working'))).rejects.toMatchObject({ code: ErrorCodes.TASK_NOT_FOUND });
+    await bob.delete('t1');
+    expect((await store.get('t1'))?.status.state).toBe('submitted');
+  });
+
+  it('lists only the requester\'s tasks', async () => {
+    await alice.set('t1', makeTask('t1'));
+    await bob.set('t2', makeTask('t2'));
+    expect((await bob.list()).tasks.map((t) => t.id)).toEqual(['t2']);
+    expect((await bob.list({ owner: 'alice' })).tasks.map((t) => t.id)).toEqual(['t2']);
+  });
+
+  it('leaves tasks without a recorded owner visible to everyone', async () => {
+    await store.set('local', makeTask('local'));
+    expect(await bob.get('local')).toBeDefined();
+    await bob.set('local', makeTask('local', 'working'));
+    expect(await store.getOwner('local')).toBe('bob');
+    expect(await alice.get('local')).toBeUndefined();
+  });
+});
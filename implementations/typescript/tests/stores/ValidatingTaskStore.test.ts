@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ValidatingTaskStore } from '../../src/stores/ValidatingTaskStore.js';
+import { InMemoryTaskStore } from '../../src/stores/InMemoryTaskStore.js';
+import { SnapError } from '../../src/errors/SnapError.js';
+import { ErrorCodes } from '../../src/types/errors.js';
+import type { Task } from '../../src/types/task.js';
+import type { TaskState } from '../../src/types/message.js';
+
+const makeTask = (id: string, state: TaskState, timestamp = '2026-01-01T00:00:00.000Z'): Task => ({
+  id,
+  status: { state, timestamp },
+});
+
+describe('ValidatingTaskStore', () => {
+  let inner: InMemoryTaskStore;
+  let store: ValidatingTaskStore;
+
+  beforeEach(() => {
+    inner = new InMemoryTaskStore();
+    store = new ValidatingTaskStore(inner);
+  });
+
+  it('wrap() is idempotent', () => {
+    expect(ValidatingTaskStore.wrap(store)).toBe(store);
+    expect(ValidatingTaskStore.wrap(inner)).toBeInstanceOf(ValidatingTaskStore);
+  });
+
+  it('allows the documented transitions', async () => {
+    await store.set('t1', makeTask('t1', 'submitted'));
+    await store.set('t1', makeTask('t1', 'working'));
+    await store.set('t1', makeTask('t1', 'input_required'));
+    await store.set('t1', makeTask('t1', 'working'));
+    await store.set('t1', makeTask('t1', 'completed'));
+    expect((await store.get('t1'))?.status.state).toBe('completed');
+  });
+
+  it('allows re-writing the same state', async () => {
+    await store.set('t1', makeTask('t1', 'submitted'));
+    await expect(store.set('t1', { ...makeTask('t1', 'submitted'), artifacts: [] })).resolves.toBeUndefined();
+  });
+
+  it.each<[TaskState, TaskState]>([
+    ['submitted', 'completed'],
+    ['submitted', 'input_required'],
+    ['completed', 'working'],
+    ['failed', 'completed'],
+    ['canceled', 'working'],
+  ])('rejects %s -> %s', async (from, to) => {
+    await inner.set('t1', makeTask('t1', from));
+
+    const err = await store.set('t1', makeTask('t1', to)).catch((e) => e);
+    expect(err).toBeInstanceOf(SnapError);
+    expect(err.code).toBe(ErrorCodes.INVALID_TASK_STATE);
+    expect(err.data).toEqual({ taskId: 't1', from, to });
+    expect((await inner.get('t1'))?.status.state).toBe(from);
+  });
+
+  it.each<TaskState>(['working', 'completed', 'canceled'])('rejects a new task starting in %s', async (state) => {
+    await expect(store.set('t1', makeTask('t1', state)))
+      .rejects.toMatchObject({ code: ErrorCodes.INVALID_TASK_STATE, data: { taskId: 't1', from: 'none', to: state } });
+    expect(await inner.get('t1')).toBeUndefined();
+  });
+
+  it('rejects unknown states', async () => {
+    await expect(store.set('t1', makeTask('t1', 'bogus' as TaskState))).rejects.toBeInstanceOf(SnapError);
+  });
+
+  it('stamps the timestamp when the state changes', async () => {
+    await store.set('t1', makeTask('t1', 'submitted'));
+    await store.set('t1', makeTask('t1', 'working'));
+    const stored = await store.get('t1');
+    expect(stored?.status.timestamp).not.toBe('2026-01-01T00:00:00.000Z');
+    expect(Number.isNaN(Date.parse(stored!.status.timestamp))).toBe(false);
+  });
+
+  it('stamps a missing timestamp', async () => {
+    await store.set('t1', { id: 't1', status: { state: 'submitted' } as Task['status'] });
+    expect((await store.get('t1'))?.status.timestamp).toBeTruthy();
+  });
+
+  it('keeps the timestamp when the state is unchanged', async () => {
+    await inner.set('t1', makeTask('t1', 'working'));
+    await store.set('t1', makeTask('t1', 'working'));
+    expect((await store.get('t1'))?.status.timestamp).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('delegates delete to the inner store', async () => {
+    await store.set('t1', makeTask('t1', 'submitted'));
+    await store.delete('t1');
+    expect(await inner.get('t1')).toBeUndefined();
+  });
+
+  it('passes owners and list() through to a queryable store', async () => {
+    await store.set('t1', makeTask('t1', 'submitted'), 'alice');
+    await store.set('t2', makeTask('t2', 'submitted'), 'bob');
+    expect(store.queryable).toBe(true);
+    expect((await store.list({ owner: 'alice' })).tasks.map((t) => t.id)).toEqual(['t1']);
+  });
+
+  it('list() throws when the inner store cannot list', async () => {
+    const plain = new ValidatingTaskStore({ get: async () => undefined, set: async () => {}, delete: async () => {} });
+    expect(plain.queryable).toBe(false);
+    await plain.set('t1', makeTask('t1', 'submitted'), 'alice');
+    await expect(plain.list()).rejects.toThrow('does not support list()');
+  });
+
+  it('keeps owners for a store that cannot record them and fails closed without one', async () => {
+    const tasks = new Map<string, Task>();
+    const plainStore = {
+      get: async (id: string) => tasks.get(id),
+      set: async (id: string, task: Task) => { tasks.set(id, task); },
+      delete: async (id: string) => { tasks.delete(id); },
+    };
+    const plain = new ValidatingTaskStore(plainStore);
+    await plain.set('t1', makeTask('t1', 'submitted'), 'alice');
+    await plain.set('t2', makeTask('t2', 'submitted'));
+
+    expect(await plain.getOwner('t1')).toBe('alice');
+    expect(await plain.canAccess('t1', 'alice')).toBe(true);
+    expect(await plain.canAccess('t1', 'bob')).toBe(false);
+    expect(await plain.canAccess('t2', 'alice')).toBe(false);
+    expect(await plain.canAccess('unknown', 'alice')).toBe(true);
+
+    // A new wrapper (e.g. after a restart) no longer knows the owner
+    expect(await new ValidatingTaskStore(plainStore).canAccess('t1', 'alice')).toBe(false);
+
+    await plain.delete('t1');
+    expect(await plain.getOwner('t1')).toBeUndefined();
+  });
+
+  it('keeps contextId fixed once set', async () => {
+    await store.set('t1', { ...makeTask('t1', 'submitted'), contextId: 'ctx-1' });
+    await store.set('t1', makeTask('t1', 'working'));
+    expect((await store.get('t1'))?.contextId).toBe('ctx-1');
+
+    await expect(store.set('t1', { ...makeTask('t1', 'completed'), contextId: 'ctx-2' }))
+      .rejects.toMatchObject({ code: ErrorCodes.INVALID_PAYLOAD, data: { field: 'task.contextId' } });
+  });
+
+  it('only lets a task join a context owned by the same requester', async () => {
+    await store.set('t1', { ...makeTask('t1', 'submitted'), contextId: 'ctx-a' }, 'alice');
+    await store.set('t2', { ...makeTask('t2', 'submitted'), contextId: 'ctx-a' }, 'alice');
+
+    await expect(store.set('t3', { ...makeTask('t3', 'submitted'), contextId: 'ctx-a' }, 'bob'))
+      .rejects.toMatchObject({ code: ErrorCodes.INVALID_PAYLOAD, data: { taskId: 't3', contextId: 'ctx-a' } });
+    expect(await store.get('t3')).toBeUndefined();
+
+    // Nor can an unowned task, which anyone could read
+    await expect(store.set('t4', { ...makeTask('t4', 'submitted'), contextId: 'ctx-a' }))
+      .rejects.toMatchObject({ code: ErrorCodes.INVALID_PAYLOAD });
+  });
+
+  it('isTerminal() reports terminal states', () => {
+    expect(ValidatingTaskStore.isTerminal('completed')).toBe(true);
+    expect(ValidatingTaskStore.isTerminal('failed')).toBe(true);
+    expect(ValidatingTaskStore.isTerminal('canceled')).toBe(true);
+    expect(ValidatingTaskStore.isTerminal('working')).toBe(false);
+  });
+});
@@ -73,6 +73,53 @@ describe('HttpTransport', () => {
     expect(response.type).toBe('response');
   });
 
+  it('sends and answers with a SNAP-Version header', async () => {
+    const server = createTransport({ port: 0 });
+    let requestVersion: string | null = null;
+    await server.listen(async () => makeResponse({ version: '0.2' }));
+
+    const res = await fetch(`http://127.0.0.1:${server.port}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'SNAP-Version': '0.2' },
+      body: JSON.stringify(makeMessage({ version: '0.2' })),
+    });
+    expect(res.headers.get('snap-version')).toBe('0.2');
+
+    // Client side: the header mirrors the outgoing message version
+    const { createServer } = await import('node:http');
+    const raw = createServer((req, r) => {
+      requestVersion = req.headers['snap-version'] as string;
+      r.writeHead(200, { 'Content-Type': 'application/json' });
+      r.end(JSON.stringify(makeResponse()));
+    });
+    await new Promise<void>((resolve) => raw.listen(0, '127.0.0.1', () => resolve()));
+    try {
+      const port = (raw.address() as { port: number }).port;
+      await createTransport().send(makeMessage({ version: '0.1' }), { endpoint: `http://127.0.0.1:${port}` });
+      expect(requestVersion).toBe('0.1');
+    } finally {
+      await new Promise((resolve) => raw.close(resolve));
+    }
+  });
+
+  it('rejects a SNAP-Version header that contradicts the message version', async () => {
+    const server = createTransport({ port: 0 });
+    let handled = false;
+    await server.listen(async () => {
+      handled = true;
+      return makeResponse();
+    });
+
+    const res = await fetch(`http://127.0.0.1:${server.port}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'SNAP-Version': '0.2' },
+      body: JSON.stringify(makeMessage({ version: '0.1' })),
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe(1003);
+    expect(handled).toBe(false);
+  });
+
   it('receives the request payload on the server side', async () => {
     const server = createTransport({ port: 0 });
     let receivedMessage: SnapMessage | null = null;
@@ -155,12 +202,10 @@ describe('HttpTransport', () => {
     });
 
     const client = createTransport();
-    // Normal POST (no Accept: text/event-stream) → no handler → 200 with error
-    const response = await client.send(
-      makeMessage(),
-      { endpoint: `http://127.0.0.1:${server.port}` },
-    );
-    expect((response as any).error.code).toBe(1007);
+    // Normal POST (no Accept: text/event-stream) → no handler → 400 with error → SnapError
+    await expect(
+      client.send(makeMessage(), { endpoint: `http://127.0.0.1:${server.port}` }),
+    ).rejects.toMatchObject({ name: 'SnapError', code: 1007 });
   });
 
   it('closes the server gracefully', async () => {
@@ -325,6 +370,36 @@ describe('HttpTransport', () => {
     expect(resp.status).toBe(400);
   });
 
+  it('rejects a body over maxMessageBytes with 413 before parsing', async () => {
+    const server = createTransport({ port: 0, limits: { maxMessageBytes: 1024 } });
+    let called = false;
+    await server.listen(async () => {
+      called = true;
+      return makeResponse();
+    });
+
+    const resp = await fetch(`http://127.0.0.1:${server.port}/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(makeMessage({ payload: { text: 'x'.repeat(2048) } })),
+    });
+    expect(resp.status).toBe(413);
+    const body = await resp.json();
+    expect(body.error.code).toBe(1003);
+    expect(body.error.data).toMatchObject({ field: 'message', constraint: 'maxBytes', expected: 1024 });
+    expect(called).toBe(false);
+  });
+
+  it('send() rejects a response over maxMessageBytes', async () => {
+    const server = createTransport({ port: 0 });
+    await server.listen(async () => makeResponse({ payload: { text: 'x'.repeat(2048) } }));
+
+    const client = createTransport({ limits: { maxMessageBytes: 1024 } });
+    await expect(
+      client.send(makeMessage(), { endpoint: `http://127.0.0.1:${server.port}/` }),
+    ).rejects.toMatchObject({ code: 1003, data: { field: 'message', constraint: 'maxBytes' } });
+  });
+
   it('SSE stream with no events (immediate final response)', async () => {
     const server = createTransport({ port: 0 });
     await server.listenStream(async function* () {
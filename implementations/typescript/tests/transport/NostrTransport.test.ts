@@ -413,8 +413,61 @@ describe('NostrTransport', () => {
     await transport.close();
   });
 
+  it('discoverAgents skips cards over the size limits', async () => {
+    const transport = new NostrTransport({
+      relays: ['wss://relay.example.com'],
+      privateKey: SENDER_KEY,
+      limits: { maxCardBytes: 4096, maxSkills: 1 },
+    });
+
+    const bloated = { ...makeAgentCard(), description: 'x'.repeat(8192) };
+    (transport as any).pool.querySync = async () => [
+      { content: JSON.stringify(bloated), kind: 31337, pubkey: RECEIVER_PUBKEY, tags: [], created_at: 0, id: 'big', sig: '123' },
+      { content: JSON.stringify(makeAgentCard()), kind: 31337, pubkey: RECEIVER_PUBKEY, tags: [], created_at: 0, id: 'many', sig: '456' },
+    ];
+
+    expect(await transport.discoverAgents({})).toEqual([]);
+
+    await transport.close();
+  });
+
+  it('publishAgentCard rejects a card with too many skills', async () => {
+    const transport = new NostrTransport({
+      relays: ['wss://relay.example.com'],
+      privateKey: RECEIVER_KEY,
+      limits: { maxSkills: 1 },
+    });
+
+    await expect(transport.publishAgentCard(makeAgentCard()))
+      .rejects.toMatchObject({ code: 1003, data: { field: 'card.skills', constraint: 'maxItems' } });
+
+    await transport.close();
+  });
+
   // --- send() with mocked pool ---
 
+  it('send rejects content over maxNostrContentBytes without publishing', async () => {
+    const transport = new NostrTransport({
+      relays: ['wss://relay.example.com'],
+      privateKey: SENDER_KEY,
+      limits: { maxNostrContentBytes: 512 },
+    });
+
+    let published = false;
+    (transport as any).pool.publish = () => {
+      published = true;
+      return [Promise.resolve()];
+    };
+
+    await expect(transport.send(makeMessage({ payload: { text: 'x'.repeat(1024) } }), {
+      endpoint: 'wss://relay.example.com',
+      nostrPubkey: RECEIVER_PUBKEY,
+    })).rejects.toMatchObject({ code: 1003, data: { field: 'content', expected: 512 } });
+    expect(published).toBe(false);
+
+    await transport.close();
+  });
+
   it('send encrypts message and publishes to relays', async () => {
     const transport = new NostrTransport({
       relays: ['wss://relay1.example.com', 'wss://relay2.example.com'],
@@ -468,6 +521,35 @@ describe('NostrTransport', () => {
     await transport.close();
   });
 
+  it('send publishes to and listens on the recipient relays when given', async () => {
+    const transport = new NostrTransport({
+      relays: ['wss://own.example.com'],
+      privateKey: SENDER_KEY,
+    });
+
+    const published: string[][] = [];
+    const subscribed: string[][] = [];
+    (transport as any).pool.publish = (relays: string[]) => {
+      published.push(relays);
+      return [Promise.resolve()];
+    };
+    (transport as any).pool.subscribeMany = (relays: string[]) => {
+      subscribed.push(relays);
+      return { close: () => {} };
+    };
+
+    await expect(transport.send(makeMessage(), {
+      endpoint: 'wss://peer.example.com',
+      relays: ['wss://peer.example.com'],
+      timeout: 50,
+      nostrPubkey: RECEIVER_PUBKEY,
+    })).rejects.toThrow('timed out');
+
+    expect(published).toEqual([['wss://peer.example.com']]);
+    expect(subscribed).toEqual([['wss://peer.example.com']]);
+    await transport.close();
+  });
+
   it('send times out when no response arrives', async () => {
     const transport = new NostrTransport({
       relays: ['wss://relay.example.com'],
@@ -637,6 +719,42 @@ describe('NostrTransport', () => {
     await transport.close();
   });
 
+  it('listen drops events over maxNostrContentBytes before decrypting', async () => {
+    const logs: string[] = [];
+    const transport = new NostrTransport({
+      relays: ['wss://relay.example.com'],
+      privateKey: RECEIVER_KEY,
+      limits: { maxNostrContentBytes: 512 },
+      logger: (_level, message) => { logs.push(message); },
+    });
+
+    let capturedOnevent: any;
+    (transport as any).pool.subscribeMany = (_relays: string[], _filter: any, opts: any) => {
+      capturedOnevent = opts.onevent;
+      return { close: () => {} };
+    };
+
+    let called = false;
+    await transport.listen(async () => {
+      called = true;
+    });
+
+    await capturedOnevent({
+      kind: 4339,
+      pubkey: SENDER_PUBKEY,
+      content: 'x'.repeat(1024),
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [['p', RECEIVER_PUBKEY]],
+      id: 'oversized',
+      sig: '0'.repeat(128),
+    });
+
+    expect(called).toBe(false);
+    expect(logs).toEqual(['Dropping Nostr event oversized: content is 1024 bytes (limit 512)']);
+
+    await transport.close();
+  });
+
   it('listen publishes encrypted response back to sender', async () => {
     const transport = new NostrTransport({
       relays: ['wss://relay.example.com'],
@@ -0,0 +1,278 @@
+import { describe, it, expect } from 'vitest';
+import { TransportRouter } from '../../src/transport/TransportRouter.js';
+import { SnapAgent } from '../../src/agent/SnapAgent.js';
+import { InMemoryReplayStore } from '../../src/stores/InMemoryReplayStore.js';
+import { InMemoryResponseStore } from '../../src/stores/InMemoryResponseStore.js';
+import { SnapError } from '../../src/errors/SnapError.js';
+import { ErrorCodes } from '../../src/types/errors.js';
+import type { SnapMessage } from '../../src/types/message.js';
+import type { TransportPlugin, TransportSendOptions } from '../../src/types/plugin.js';
+import type { AgentCard } from '../../src/types/agent-card.js';
+
+const REQUEST = { id: 'req-1', method: 'message/send', timestamp: Math.floor(Date.now() / 1000) } as SnapMessage;
+const RESPONSE = { id: 'res-1', type: 'response' } as SnapMessage;
+
+interface FakeTransport extends TransportPlugin {
+  calls: TransportSendOptions[];
+}
+
+/** A transport that fails `failures` times (or always), then answers RESPONSE. */
+function fake(name: string, failures = Infinity, error: Error = new Error(`${name} down`)): FakeTransport {
+  let failed = 0;
+  const calls: TransportSendOptions[] = [];
+  return {
+    name,
+    calls,
+    async send(_message, options) {
+      calls.push(options);
+      if (failed++ < failures) throw error;
+      return RESPONSE;
+    },
+  };
+}
+
+function fakeStream(name: string, fail: boolean): FakeTransport & { sendStream: (m: SnapMessage, o: TransportSendOptions) => AsyncIterable<SnapMessage> } {
+  const transport = fake(name);
+  return {
+    ...transport,
+    async *sendStream(_message, options) {
+      transport.calls.push(options);
+      if (fail) throw new Error(`${name} down`);
+      yield RESPONSE;
+    },
+  };
+}
+
+function card(overrides: Partial<AgentCard>): AgentCard {
+  return {
+    name: 'Peer',
+    description: 'Peer agent',
+    version: '1.0.0',
+    identity: 'bc1p5d7rjq7g6rdk2yhzqnt9dp8wvscrplqk0zwy63lmgreu9jzyt0mqf3xvn8',
+    skills: [],
+    defaultInputModes: ['text/plain'],
+    defaultOutputModes: ['text/plain'],
+    ...overrides,
+  };
+}
+
+const NO_RETRY = { http: { retries: 0, backoff: 0 } };
+
+describe('TransportRouter', () => {
+  it('walks declared endpoints in order, each with its own URL', async () => {
+    const http = fake('http');
+    const ws = fake('websocket', 0);
+    const router = new TransportRouter([http, ws], { retry: NO_RETRY });
+
+    const response = await router.send(card({
+      endpoints: [
+        { protocol: 'wss', url: 'wss://peer.example/snap' },
+        { protocol: 'http', url: 'https://peer.example/snap' },
+      ],
+    }), REQUEST);
+
+    expect(response).toBe(RESPONSE);
+    expect(ws.calls.map((c) => c.endpoint)).toEqual(['wss://peer.example/snap']);
+    expect(http.calls).toHaveLength(0);
+  });
+
+  it('retries with exponential backoff before moving on', async () => {
+    const http = fake('http', 2);
+    const router = new TransportRouter([http], { retry: { http: { retries: 3, backoff: 5 } } });
+
+    const started = Date.now();
+    await router.send(card({ endpoints: [{ protocol: 'http', url: 'https://peer.example' }] }), REQUEST);
+
+    expect(http.calls).toHaveLength(3);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15 - 2); // 5ms + 10ms
+  });
+
+  it('never uses protocols the card does not declare', async () => {
+    const http = fake('http');
+    const ws = fake('websocket', 0);
+    const nostr = fake('nostr', 0);
+    const router = new TransportRouter([http, ws, nostr], { retry: NO_RETRY });
+
+    await expect(router.send(card({ endpoints: [{ protocol: 'http', url: 'https://peer.example' }] }), REQUEST))
+      .rejects.toMatchObject({ code: ErrorCodes.TRANSPORT_UNAVAILABLE });
+    expect(ws.calls).toHaveLength(0);
+    expect(nostr.calls).toHaveLength(0);
+  });
+
+  it('falls back to Nostr only when relays are declared, with the 30s timeout', async () => {
+    const http = fake('http');
+    const nostr = fake('nostr', 0);
+    const router = new TransportRouter([http, nostr], { retry: NO_RETRY });
+
+    await router.send(card({
+      endpoints: [{ protocol: 'http', url: 'https://peer.example' }],
+      nostrRelays: ['wss://relay.one', 'wss://relay.two'],
+    }), REQUEST, { nostrPubkey: 'ab'.repeat(32) });
+
+    expect(nostr.calls).toEqual([{
+      endpoint: 'wss://relay.one,wss://relay.two',
+      relays: ['wss://relay.one', 'wss://relay.two'],
+      nostrPubkey: 'ab'.repeat(32),
+      timeout: 30_000,
+    }]);
+  });
+
+  it('reports every attempt in TRANSPORT_UNAVAILABLE', async () => {
+    const http = fake('http');
+    const router = new TransportRouter([http], { retry: { http: { retries: 1, backoff: 0 } } });
+
+    const err = await router.send(card({
+      endpoints: [
+        { protocol: 'http', url: 'https://peer.example' },
+        { protocol: 'wss', url: 'wss://peer.example' },
+      ],
+    }), REQUEST).catch((e) => e as SnapError);
+
+    expect(err).toBeInstanceOf(SnapError);
+    expect(err.code).toBe(ErrorCodes.TRANSPORT_UNAVAILABLE);
+    expect(err.data).toEqual({
+      tried: ['http', 'wss'],
+      attempts: [
+        { protocol: 'http', endpoint: 'https://peer.example', attempt: 1, error: 'http down' },
+        { protocol: 'http', endpoint: 'https://peer.example', attempt: 2, error: 'http down' },
+        { protocol: 'wss', endpoint: 'wss://peer.example', attempt: 1, error: 'No websocket transport registered' },
+      ],
+    });
+  });
+
+  it('rethrows a SnapError from the peer without falling back', async () => {
+    const http = fake('http', 1, SnapError.methodNotFound('message/send'));
+    const ws = fake('websocket', 0);
+    const router = new TransportRouter([http, ws], { retry: NO_RETRY });
+
+    await expect(router.send(card({
+      endpoints: [
+        { protocol: 'http', url: 'https://peer.example' },
+        { protocol: 'wss', url: 'wss://peer.example' },
+      ],
+    }), REQUEST)).rejects.toMatchObject({ code: ErrorCodes.METHOD_NOT_FOUND });
+    expect(ws.calls).toHaveLength(0);
+  });
+
+  describe('resends', () => {
+    const ROUTES = card({
+      endpoints: [
+        { protocol: 'http', url: 'https://peer.example' },
+        { protocol: 'wss', url: 'wss://peer.example' },
+      ],
+    });
+
+    /** Record the message of every attempt, failing the first `failures` of them. */
+    function recording(name: string, failures: number, error: Error = new Error(`${name} down`)) {
+      const sent: SnapMessage[] = [];
+      const transport: TransportPlugin = {
+        name,
+        async send(message) {
+          sent.push(message);
+          if (sent.length <= failures) throw error;
+          return RESPONSE;
+        },
+      };
+      return { transport, sent };
+    }
+
+    it('re-signs every attempt after the first, keeping the message id', async () => {
+      const http = recording('http', 2);
+      const ws = recording('websocket', 0);
+      let signed = 0;
+      const router = new TransportRouter([http.transport, ws.transport], {
+        retry: { http: { retries: 1, backoff: 0 } },
+        resign: (message) => ({ ...message, sig: `resigned-${++signed}` }),
+      });
+
+      expect(await router.send(ROUTES, REQUEST)).toBe(RESPONSE);
+      expect(http.sent.map((m) => m.sig)).toEqual([undefined, 'resigned-1']);
+      expect(ws.sent.map((m) => m.sig)).toEqual(['resigned-2']);
+      expect([...http.sent, ...ws.sent].every((m) => m.id === REQUEST.id)).toBe(true);
+    });
+
+    it('stops resending without resign once the request is older than maxRequestAge', async () => {
+      const http = recording('http', Infinity);
+      const router = new TransportRouter([http.transport], { retry: { http: { retries: 3, backoff: 0 } }, maxRequestAge: 50_000 });
+      const stale = { ...REQUEST, timestamp: Math.floor(Date.now() / 1000) - 55 };
+
+      const err = await router.send(ROUTES, stale).catch((e) => e as SnapError);
+      expect(err.code).toBe(ErrorCodes.TRANSPORT_UNAVAILABLE);
+      expect(http.sent).toHaveLength(1);
+      expect((err.data as { attempts: Array<{ error: string }> }).attempts.map((a) => a.error))
+        .toEqual(['http down', 'Request too old to resend without re-signing']);
+    });
+
+    it('marks DUPLICATE_MESSAGE answering a resend as retried', async () => {
+      const duplicate = SnapError.duplicateMessage(REQUEST.id, 'bc1psender');
+      const first = recording('http', 1, duplicate);
+      await expect(new TransportRouter([first.transport], { retry: NO_RETRY }).send(ROUTES, REQUEST))
+        .rejects.toMatchObject({ code: ErrorCodes.DUPLICATE_MESSAGE, data: { id: REQUEST.id, from: 'bc1psender' } });
+
+      let calls = 0;
+      const lost: TransportPlugin = {
+        name: 'http',
+        async send() {
+          if (++calls === 1) throw new Error('connection reset');
+          throw duplicate;
+        },
+      };
+      const router = new TransportRouter([lost], { retry: { http: { retries: 1, backoff: 0 } } });
+      await expect(router.send(ROUTES, REQUEST))
+        .rejects.toMatchObject({ code: ErrorCodes.DUPLICATE_MESSAGE, data: { retried: true } });
+    });
+
+    it('gets the original response when a retry follows a lost one and the peer stores responses', async () => {
+      const receiver = new SnapAgent({ privateKey: '0000000000000000000000000000000000000000000000000000000000000001', card: card({}) })
+        .replayStore(new InMemoryReplayStore())
+        .responseStore(new InMemoryResponseStore({ sweepInterval: 0 }));
+      let handled = 0;
+      receiver.handle('message/send', async () => {
+        handled++;
+        return { task: { id: 'task-1', status: { state: 'submitted', timestamp: new Date().toISOString() } } };
+      });
+
+      let delivered = 0;
+      const dropsFirstAnswer: TransportPlugin = {
+        name: 'http',
+        async send(message) {
+          const response = await receiver.processMessage(message);
+          if (++delivered === 1) throw new Error('connection reset');
+          return response;
+        },
+      };
+      const sender = new SnapAgent({ privateKey: '0000000000000000000000000000000000000000000000000000000000000002', card: card({}) })
+        .transport(dropsFirstAnswer)
+        .routing({ retry: { http: { retries: 1, backoff: 0 } } });
+
+      const response = await sender.send({ ...receiver.card, endpoints: [{ protocol: 'http', url: 'https://peer.example' }] }, 'message/send', {
+        message: { messageId: 'm1', role: 'user', parts: [{ text: 'hi' }] },
+      });
+      expect(handled).toBe(1);
+      expect(delivered).toBe(2);
+      expect(response.payload).toMatchObject({ task: { id: 'task-1' }, deduplicated: true });
+    });
+  });
+
+  it('streams over the first route that connects, skipping non-streaming transports', async () => {
+    const http = fakeStream('http', true);
+    const ws = fakeStream('websocket', false);
+    const nostr = fake('nostr', 0);
+    const router = new TransportRouter([http, ws, nostr], { retry: NO_RETRY });
+
+    const events: SnapMessage[] = [];
+    for await (const event of router.sendStream(card({
+      endpoints: [
+        { protocol: 'http', url: 'https://peer.example' },
+        { protocol: 'wss', url: 'wss://peer.example' },
+      ],
+      nostrRelays: ['wss://relay.one'],
+    }), REQUEST)) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([RESPONSE]);
+    expect(http.calls).toHaveLength(1);
+    expect(nostr.calls).toHaveLength(0);
+  });
+});
@@ -27,7 +27,10 @@ function makeResponse(overrides: Partial<SnapMessage> = {}): SnapMessage {
     to: 'bc1p5d7rjq7g6rdk2yhzqnt9dp8wvscrplqk0zwy63lmgreu9jzyt0mqf3xvn8' as SnapMessage['to'],
     type: 'response',
     method: 'message/send',
-    payload: { task: { id: 'task-1', status: { state: 'completed', timestamp: new Date().toISOString() } } },
+    payload: {
+      task: { id: 'task-1', status: { state: 'completed', timestamp: new Date().toISOString() } },
+      inReplyTo: 'msg-001',
+    },
     timestamp: Date.now(),
     sig: DUMMY_SIG,
     ...overrides,
@@ -76,7 +79,7 @@ describe('WebSocketTransport', () => {
 
     await server.listen(async (msg) => {
       receivedMessage = msg;
-      return makeResponse();
+      return makeResponse({ payload: { inReplyTo: msg.id } });
     });
 
     const client = createTransport();
@@ -194,7 +197,7 @@ describe('WebSocketTransport', () => {
 
   it('handles multiple concurrent request-response exchanges', async () => {
     const server = createTransport({ port: 0, heartbeatInterval: 0 });
-    await server.listen(async (msg) => makeResponse({ id: `resp-${msg.id}` }));
+    await server.listen(async (msg) => makeResponse({ id: `resp-${msg.id}`, payload: { inReplyTo: msg.id } }));
 
     const endpoint = `ws://127.0.0.1:${server.port}`;
     const promises = Array.from({ length: 5 }, (_, i) => {
@@ -509,7 +512,7 @@ describe('WebSocketTransport', () => {
     expect(received[0].id).toBe('evt-1');
   });
 
-  it('sendStream() exits gracefully when server closes WebSocket mid-stream', async () => {
+  it('sendStream() fails when server closes WebSocket mid-stream', async () => {
     // Use raw WebSocket server to explicitly close the connection mid-stream
     const { WebSocketServer } = await import('ws');
     const { createServer } = await import('node:http');
@@ -531,14 +534,17 @@ describe('WebSocketTransport', () => {
     try {
       const client = createTransport();
       const received: SnapMessage[] = [];
-      for await (const msg of client.sendStream(
-        makeMessage({ method: 'message/stream' }),
-        { endpoint: `ws://127.0.0.1:${port}` },
-      )) {
-        received.push(msg);
-      }
-
-      // Stream ends when server closes connection
+      const consume = async () => {
+        for await (const msg of client.sendStream(
+          makeMessage({ method: 'message/stream' }),
+          { endpoint: `ws://127.0.0.1:${port}` },
+        )) {
+          received.push(msg);
+        }
+      };
+
+      // A stream cut off before its final response is an error, not a short stream
+      await expect(consume()).rejects.toThrow('WebSocket connection closed');
       expect(received).toHaveLength(1);
       expect(received[0].id).toBe('before-close');
     } finally {
@@ -546,4 +552,224 @@ describe('WebSocketTransport', () => {
       httpServer.close();
     }
   });
+
+  // --- Connection pooling and multiplexing ---
+
+  /** Raw ws server; `onMessage` gets each parsed request and the socket it arrived on. */
+  async function rawServer(onMessage: (msg: SnapMessage, ws: import('ws').WebSocket) => void) {
+    const { WebSocketServer } = await import('ws');
+    const { createServer } = await import('node:http');
+    const httpServer = createServer();
+    const wss = new WebSocketServer({ server: httpServer });
+    let connections = 0;
+    wss.on('connection', (ws) => {
+      connections++;
+      ws.on('message', (data) => onMessage(JSON.parse(data.toString()), ws));
+    });
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+    return {
+      endpoint: `ws://127.0.0.1:${(httpServer.address() as any).port}`,
+      get connections() { return connections; },
+      async close() {
+        for (const ws of wss.clients) ws.terminate();
+        await new Promise<void>((resolve) => wss.close(() => resolve()));
+        await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      },
+    };
+  }
+
+  const reply = (msg: SnapMessage, overrides: Partial<SnapMessage> = {}) =>
+    makeResponse({ id: `resp-${msg.id}`, payload: { inReplyTo: msg.id }, ...overrides });
+
+  it('reuses one connection per endpoint across requests', async () => {
+    const server = await rawServer((msg, ws) => ws.send(JSON.stringify(reply(msg))));
+    try {
+      const client = createTransport();
+      await client.send(makeMessage({ id: 'a' }), { endpoint: server.endpoint });
+      await client.send(makeMessage({ id: 'b' }), { endpoint: server.endpoint });
+      expect(server.connections).toBe(1);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('matches out-of-order replies to concurrent requests by inReplyTo', async () => {
+    const held: Array<[SnapMessage, import('ws').WebSocket]> = [];
+    const server = await rawServer((msg, ws) => {
+      held.push([msg, ws]);
+      if (held.length === 3) {
+        for (const [m, socket] of held.reverse()) socket.send(JSON.stringify(reply(m)));
+      }
+    });
+    try {
+      const client = createTransport();
+      const responses = await Promise.all(['x', 'y', 'z'].map((id) =>
+        client.send(makeMessage({ id }), { endpoint: server.endpoint })));
+      expect(responses.map((r) => r.id)).toEqual(['resp-x', 'resp-y', 'resp-z']);
+      expect(server.connections).toBe(1);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('demultiplexes interleaved streams on one connection', async () => {
+    const held: Array<[SnapMessage, import('ws').WebSocket]> = [];
+    let seq = 0;
+    const server = await rawServer((msg, ws) => {
+      held.push([msg, ws]);
+      if (held.length < 2) return;
+      for (const type of ['event', 'event', 'response'] as const) {
+        for (const [m, socket] of held) {
+          socket.send(JSON.stringify(reply(m, { id: `${m.id}-${seq++}`, type })));
+        }
+      }
+    });
+    try {
+      const client = createTransport();
+      const collect = async (id: string) => {
+        const received: SnapMessage[] = [];
+        for await (const msg of client.sendStream(makeMessage({ id, method: 'message/stream' }), { endpoint: server.endpoint })) {
+          received.push(msg);
+        }
+        return received;
+      };
+      const [s1, s2] = await Promise.all([collect('s1'), collect('s2')]);
+      expect(s1.map((m) => m.payload.inReplyTo)).toEqual(['s1', 's1', 's1']);
+      expect(s2.map((m) => m.payload.inReplyTo)).toEqual(['s2', 's2', 's2']);
+      expect(s1[2].type).toBe('response');
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('routes a correlated error frame to the request that caused it', async () => {
+    const server = await rawServer((msg, ws) => {
+      const frame = msg.id === 'bad'
+        ? { error: { code: 1007, message: 'Method not found' }, inReplyTo: msg.id }
+        : reply(msg);
+      ws.send(JSON.stringify(frame));
+    });
+    try {
+      const client = createTransport();
+      const [good, bad] = await Promise.allSettled([
+        client.send(makeMessage({ id: 'good' }), { endpoint: server.endpoint }),
+        client.send(makeMessage({ id: 'bad' }), { endpoint: server.endpoint }),
+      ]);
+      expect(good).toMatchObject({ status: 'fulfilled', value: { id: 'resp-good' } });
+      expect(bad).toMatchObject({ status: 'rejected', reason: { name: 'SnapError', code: 1007 } });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('drops uncorrelated frames even with a single exchange in flight', async () => {
+    const server = await rawServer((msg, ws) => {
+      ws.send(JSON.stringify(makeResponse({ id: 'stray', payload: {} })));
+      ws.send(JSON.stringify({ error: { code: 5001, message: 'Internal error' } }));
+      ws.send(JSON.stringify(reply(msg)));
+    });
+    try {
+      const client = createTransport();
+      const response = await client.send(makeMessage({ id: 'only' }), { endpoint: server.endpoint });
+      expect(response.id).toBe('resp-only');
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('closes an idle pooled socket and reconnects on the next send', async () => {
+    let closes = 0;
+    const server = await rawServer((msg, ws) => {
+      ws.once('close', () => closes++);
+      ws.send(JSON.stringify(reply(msg)));
+    });
+    try {
+      const client = createTransport({ idleTimeout: 50 });
+      await client.send(makeMessage({ id: 'first' }), { endpoint: server.endpoint });
+      await new Promise((r) => setTimeout(r, 150));
+      expect(closes).toBe(1);
+
+      const response = await client.send(makeMessage({ id: 'second' }), { endpoint: server.endpoint });
+      expect(response.id).toBe('resp-second');
+      expect(server.connections).toBe(2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('fails in-flight requests when the connection drops, then reconnects', async () => {
+    const server = await rawServer((msg, ws) => {
+      if (msg.id === 'dropped') ws.terminate();
+      else ws.send(JSON.stringify(reply(msg)));
+    });
+    try {
+      const client = createTransport({ reconnectDelay: 10 });
+      await expect(client.send(makeMessage({ id: 'dropped' }), { endpoint: server.endpoint }))
+        .rejects.toThrow('WebSocket connection closed');
+
+      const response = await client.send(makeMessage({ id: 'after' }), { endpoint: server.endpoint });
+      expect(response.id).toBe('resp-after');
+      expect(server.connections).toBe(2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('client heartbeat terminates a pooled socket whose peer stops answering pings', async () => {
+    const server = await rawServer((msg, ws) => {
+      if (msg.id === 'hang') ws.pong = () => {}; // half-open: never answers, never pongs
+      else ws.send(JSON.stringify(reply(msg)));
+    });
+    try {
+      const client = createTransport({ heartbeatInterval: 50, timeout: 5_000 });
+      const started = Date.now();
+      await expect(client.send(makeMessage({ id: 'hang' }), { endpoint: server.endpoint }))
+        .rejects.toThrow('WebSocket connection closed');
+      expect(Date.now() - started).toBeLessThan(1_000);
+
+      const response = await client.send(makeMessage({ id: 'after' }), { endpoint: server.endpoint });
+      expect(response.id).toBe('resp-after');
+      expect(server.connections).toBe(2);
+      await client.close();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('fails with a size error when the server closes on an oversized frame', async () => {
+    const server = createTransport({ port: 0, heartbeatInterval: 0, limits: { maxMessageBytes: 1024 } });
+    let called = false;
+    await server.listen(async () => {
+      called = true;
+      return makeResponse();
+    });
+
+    const client = createTransport();
+    await expect(client.send(makeMessage({ payload: { text: 'x'.repeat(2048) } }), {
+      endpoint: `ws://127.0.0.1:${server.port}`,
+    })).rejects.toMatchObject({ code: 1003, message: "message exceeds the peer's size limit" });
+    expect(called).toBe(false);
+  });
+
+  it('fails with a size error when a reply exceeds the client limit', async () => {
+    const server = createTransport({ port: 0, heartbeatInterval: 0 });
+    await server.listen(async () => makeResponse({ payload: { text: 'x'.repeat(2048) } }));
+
+    const client = createTransport({ limits: { maxMessageBytes: 1024 } });
+    await expect(client.send(makeMessage(), { endpoint: `ws://127.0.0.1:${server.port}` }))
+      .rejects.toMatchObject({ code: 1003, data: { field: 'message', expected: 1024 } });
+  });
+
+  it('close() rejects pending requests', async () => {
+    const server = await rawServer(() => {});
+    try {
+      const client = createTransport();
+      const pending = client.send(makeMessage(), { endpoint: server.endpoint });
+      await new Promise((r) => setTimeout(r, 50));
+      await client.close();
+      await expect(pending).rejects.toThrow('WebSocket transport closed');
+    } finally {
+      await server.close();
+    }
+  });
 });